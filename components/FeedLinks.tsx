@@ -0,0 +1,13 @@
+interface FeedLinksProps {
+  /** Path of the feed without its extension, e.g. /feeds/people/E001 */
+  path: string;
+}
+
+export const FeedLinks = ({ path }: FeedLinksProps) => {
+  return (
+    <p class="meta feed-links">
+      Subscribe to new bills: <a href={`${path}.atom`}>Atom</a> ·{" "}
+      <a href={`${path}.rss`}>RSS</a>
+    </p>
+  );
+};
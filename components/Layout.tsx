@@ -3,11 +3,13 @@ import { Footer } from "./Footer.tsx";
 
 interface LayoutProps {
   title?: string;
+  /** RSS and Atom feed of the page, see FeedLinks */
+  feed?: { title: string; path: string };
   children?: unknown;
 }
 
 export const Layout = (props: LayoutProps) => {
-  const { title = "Better HREP API", children } = props;
+  const { title = "Better HREP API", feed, children } = props;
 
   return (
     <html lang="en">
@@ -24,6 +26,22 @@ export const Layout = (props: LayoutProps) => {
           href="https://cdn.jsdelivr.net/npm/@picocss/pico@2/css/pico.min.css"
         />
         <link rel="stylesheet" href="/static/styles.css" />
+        {feed && (
+          <>
+            <link
+              rel="alternate"
+              type="application/atom+xml"
+              title={feed.title}
+              href={`${feed.path}.atom`}
+            />
+            <link
+              rel="alternate"
+              type="application/rss+xml"
+              title={feed.title}
+              href={`${feed.path}.rss`}
+            />
+          </>
+        )}
       </head>
       <body>
         <Header />
@@ -9,29 +9,129 @@ import type {
   HouseMemberDDLResponse,
   HouseMembersResponse,
 } from "../types/source.ts";
+import {
+  assertCircuitClosed,
+  recordCircuitFailure,
+  recordCircuitSuccess,
+} from "./circuit-breaker.ts";
+import { getUpstreamMode, loadFixture, saveFixture } from "./fixtures.ts";
+import { validateSourceResponse } from "./source-validation.ts";
+import { cachedUpstreamRequest } from "./upstream-cache.ts";
+import {
+  UpstreamAuthError,
+  UpstreamClientError,
+  UpstreamError,
+  UpstreamMalformedResponseError,
+  UpstreamNetworkError,
+  UpstreamServerError,
+  UpstreamTimeoutError,
+  UpstreamUnsuccessfulError,
+} from "./upstream-errors.ts";
 
 const HREP_API_BASE_URL = Deno.env.get("HREP_API_BASE_URL")!;
 const X_HREP_WEBSITE_BACKEND = Deno.env.get("X_HREP_WEBSITE_BACKEND")!;
 
-if (!HREP_API_BASE_URL || !X_HREP_WEBSITE_BACKEND) {
+// Credentials are not needed when serving recorded fixtures
+if (
+  getUpstreamMode() !== "replay" &&
+  (!HREP_API_BASE_URL || !X_HREP_WEBSITE_BACKEND)
+) {
   throw new Error(
     "HREP_API_BASE_URL and X_HREP_WEBSITE_BACKEND environment variables must be set",
   );
 }
 
+const UPSTREAM_TIMEOUT_MS = parseInt(
+  Deno.env.get("UPSTREAM_TIMEOUT_MS") ?? "15000",
+  10,
+);
+const UPSTREAM_RETRIES = parseInt(Deno.env.get("UPSTREAM_RETRIES") ?? "2", 10);
+const UPSTREAM_RETRY_BASE_DELAY_MS = parseInt(
+  Deno.env.get("UPSTREAM_RETRY_BASE_DELAY_MS") ?? "500",
+  10,
+);
+
 export interface FetchOptions {
   method?: string;
   body?: unknown;
+  /** Set to false to skip the upstream response cache */
+  cache?: boolean;
 }
 
 /**
  * Generic function to fetch from the source HREP API
+ * Responses are served from the upstream cache when the endpoint has a cache policy
+ * Fresh responses are validated against the source schemas before being cached
  */
-export async function fetchFromAPI<T>(
+export function fetchFromAPI<T>(
   path: string,
   options: FetchOptions = {},
 ): Promise<T> {
-  const { method = "GET", body } = options;
+  const { method = "GET", body, cache = true } = options;
+
+  const load = async () =>
+    validateSourceResponse(path, await requestFromAPI<T>(path, method, body));
+
+  // Recorded fixtures are already local, caching them would only mix them with
+  // live data; when recording, cache hits would never reach the source API and
+  // be missing from the fixtures
+  if (!cache || getUpstreamMode() !== "live") {
+    return load();
+  }
+
+  return cachedUpstreamRequest<T>(path, method, body, load);
+}
+
+/**
+ * Performs the request to the source HREP API, retrying retryable failures
+ * with jittered exponential backoff
+ */
+async function requestFromAPI<T>(
+  path: string,
+  method: string,
+  body: unknown,
+): Promise<T> {
+  for (let attempt = 0;; attempt++) {
+    assertCircuitClosed(path);
+
+    try {
+      const data = await attemptRequest<T>(path, method, body);
+      recordCircuitSuccess();
+      return data;
+    } catch (error) {
+      if (!(error instanceof UpstreamError) || !error.retryable) {
+        // The source API answered, so it is up even if the request failed
+        recordCircuitSuccess();
+        throw error;
+      }
+
+      recordCircuitFailure();
+
+      if (attempt >= UPSTREAM_RETRIES) {
+        throw error;
+      }
+
+      // Full jitter: wait a random time between 0 and the exponential delay
+      const delay = Math.random() * UPSTREAM_RETRY_BASE_DELAY_MS * 2 ** attempt;
+      console.warn(
+        `${error.message}, retrying in ${Math.round(delay)}ms (attempt ${
+          attempt + 1
+        } of ${UPSTREAM_RETRIES})`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Performs a single request to the source HREP API
+ * Throws a typed UpstreamError for every kind of failure
+ */
+async function attemptRequest<T>(
+  path: string,
+  method: string,
+  body: unknown,
+): Promise<T> {
   const url = `${HREP_API_BASE_URL}${path}`;
 
   const fetchOptions: RequestInit = {
@@ -40,21 +140,70 @@ export async function fetchFromAPI<T>(
       "X-Hrep-Website-Backend": X_HREP_WEBSITE_BACKEND,
       "Content-Type": "application/json",
     },
+    signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
   };
 
   if (body && (method === "POST" || method === "PUT" || method === "PATCH")) {
     fetchOptions.body = JSON.stringify(body);
   }
 
-  const response = await fetch(url, fetchOptions);
+  let response: Response;
+  if (getUpstreamMode() === "replay") {
+    response = await loadFixture(path, method, body);
+  } else {
+    try {
+      response = await fetch(url, fetchOptions);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "TimeoutError") {
+        throw new UpstreamTimeoutError(path, UPSTREAM_TIMEOUT_MS, {
+          cause: error,
+        });
+      }
+      throw new UpstreamNetworkError(path, { cause: error });
+    }
+
+    if (getUpstreamMode() === "record") {
+      await saveFixture(path, method, body, response);
+    }
+  }
 
   if (!response.ok) {
-    throw new Error(
-      `API request failed: ${response.status} ${response.statusText}`,
+    // Drain the body so the connection can be reused
+    await response.body?.cancel();
+
+    if (response.status === 401 || response.status === 403) {
+      throw new UpstreamAuthError(path, response.status, response.statusText);
+    }
+    if (response.status >= 500) {
+      throw new UpstreamServerError(path, response.status, response.statusText);
+    }
+    throw new UpstreamClientError(path, response.status, response.statusText);
+  }
+
+  let data: T;
+  try {
+    data = await response.json();
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "TimeoutError") {
+      throw new UpstreamTimeoutError(path, UPSTREAM_TIMEOUT_MS, {
+        cause: error,
+      });
+    }
+    throw new UpstreamMalformedResponseError(path, { cause: error });
+  }
+
+  if (
+    data && typeof data === "object" &&
+    (data as { success?: unknown }).success === false
+  ) {
+    const status = (data as { status?: unknown }).status;
+    throw new UpstreamUnsuccessfulError(
+      path,
+      typeof status === "number" ? status : null,
     );
   }
 
-  return response.json();
+  return data;
 }
 
 /**
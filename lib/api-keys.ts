@@ -0,0 +1,265 @@
+/**
+ * API Keys
+ *
+ * Bearer tokens for the protected endpoints. Only the SHA-256 hash of a token
+ * is stored; the token itself is shown once, when the key is created. Each key
+ * has scopes:
+ * - index:write: the /api/index endpoints
+ * - cache:read: the /api/cached endpoints
+ * - admin: the /api/admin and /api/webhooks endpoints, and every other scope
+ *
+ * Requests made in-process (index jobs and schedules calling the indexing
+ * endpoints) authenticate with a token generated when the server starts, which
+ * never leaves the process.
+ *
+ * KV layout:
+ * - ["apiKeys", "byKeyId", keyId] -> StoredApiKey
+ * - ["apiKeys", "byHash", hash] -> keyId
+ */
+
+import { z } from "@hono/zod-openapi";
+import type { MiddlewareHandler } from "hono";
+import { openKv } from "./kv.ts";
+import { sha256Hex, toHex } from "./hash.ts";
+
+export const API_KEY_SCOPES = ["index:write", "cache:read", "admin"] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface ApiKey {
+  keyId: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  /** First characters of the token, to recognize a key without its token */
+  prefix: string;
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+interface StoredApiKey extends ApiKey {
+  hash: string;
+}
+
+/**
+ * Name of the OpenAPI security scheme of the protected endpoints
+ */
+export const BEARER_AUTH = "bearerAuth";
+
+/**
+ * OpenAPI security requirement of the protected endpoints
+ */
+export const bearerAuthSecurity = [{ [BEARER_AUTH]: [] }];
+
+const TOKEN_PREFIX = "hrep_";
+
+const INTERNAL_TOKEN = `${TOKEN_PREFIX}internal_${crypto.randomUUID()}`;
+
+const INTERNAL_KEY: ApiKey = {
+  keyId: "internal",
+  name: "internal",
+  scopes: ["admin"],
+  prefix: "",
+  createdAt: new Date().toISOString(),
+  revokedAt: null,
+};
+
+function keyIdKey(keyId: string): Deno.KvKey {
+  return ["apiKeys", "byKeyId", keyId];
+}
+
+function hashKey(hash: string): Deno.KvKey {
+  return ["apiKeys", "byHash", hash];
+}
+
+/**
+ * Returns the hex SHA-256 hash of a token
+ */
+function hashToken(token: string): Promise<string> {
+  return sha256Hex(token);
+}
+
+function generateToken(): string {
+  return TOKEN_PREFIX + toHex(crypto.getRandomValues(new Uint8Array(24)));
+}
+
+/**
+ * Removes the hash, which is never returned
+ */
+function toApiKey({ hash: _hash, ...apiKey }: StoredApiKey): ApiKey {
+  return apiKey;
+}
+
+/**
+ * Creates an API key
+ *
+ * @returns The key and its token, which is not stored and cannot be shown again
+ */
+export async function createApiKey(
+  kv: Deno.Kv,
+  name: string,
+  scopes: ApiKeyScope[],
+): Promise<{ apiKey: ApiKey; token: string }> {
+  const token = generateToken();
+  const hash = await hashToken(token);
+  const stored: StoredApiKey = {
+    keyId: crypto.randomUUID(),
+    name,
+    scopes: [...new Set(scopes)],
+    prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+    createdAt: new Date().toISOString(),
+    revokedAt: null,
+    hash,
+  };
+
+  await kv.atomic()
+    .set(keyIdKey(stored.keyId), stored)
+    .set(hashKey(hash), stored.keyId)
+    .commit();
+
+  return { apiKey: toApiKey(stored), token };
+}
+
+/**
+ * All API keys, including revoked ones, oldest first
+ */
+export async function listApiKeys(kv: Deno.Kv): Promise<ApiKey[]> {
+  const apiKeys: ApiKey[] = [];
+  for await (
+    const entry of kv.list<StoredApiKey>({ prefix: ["apiKeys", "byKeyId"] })
+  ) {
+    apiKeys.push(toApiKey(entry.value));
+  }
+  return apiKeys.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Revokes an API key; its token stops working immediately
+ *
+ * @returns The revoked key, or null if it does not exist
+ */
+export async function revokeApiKey(
+  kv: Deno.Kv,
+  keyId: string,
+): Promise<ApiKey | null> {
+  const entry = await kv.get<StoredApiKey>(keyIdKey(keyId));
+  if (!entry.value) {
+    return null;
+  }
+
+  const revoked: StoredApiKey = {
+    ...entry.value,
+    revokedAt: entry.value.revokedAt ?? new Date().toISOString(),
+  };
+  await kv.atomic()
+    .set(entry.key, revoked)
+    .delete(hashKey(entry.value.hash))
+    .commit();
+
+  return toApiKey(revoked);
+}
+
+/**
+ * The API key of a token, or null if the token is unknown or revoked
+ */
+export async function verifyApiKey(
+  kv: Deno.Kv,
+  token: string,
+): Promise<ApiKey | null> {
+  if (token === INTERNAL_TOKEN) {
+    return INTERNAL_KEY;
+  }
+
+  const keyId = await kv.get<string>(hashKey(await hashToken(token)));
+  if (!keyId.value) {
+    return null;
+  }
+
+  const entry = await kv.get<StoredApiKey>(keyIdKey(keyId.value));
+  if (!entry.value || entry.value.revokedAt) {
+    return null;
+  }
+  return toApiKey(entry.value);
+}
+
+/**
+ * Whether an API key is the one of requests made in-process
+ */
+export function isInternalApiKey(apiKey: ApiKey): boolean {
+  return apiKey === INTERNAL_KEY;
+}
+
+export function hasScope(apiKey: ApiKey, scope: ApiKeyScope): boolean {
+  return apiKey.scopes.includes(scope) || apiKey.scopes.includes("admin");
+}
+
+/**
+ * The bearer token of an Authorization header, if any
+ */
+export function getBearerToken(authorization: string | undefined) {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1];
+}
+
+/**
+ * Authorization header of requests made in-process
+ */
+export function internalAuthorization(): string {
+  return `Bearer ${INTERNAL_TOKEN}`;
+}
+
+/**
+ * Middleware that requires a bearer token with a scope
+ * Responds with 401 without a valid token and 403 without the scope.
+ */
+export function requireScope(scope: ApiKeyScope): MiddlewareHandler {
+  return async (c, next) => {
+    const token = getBearerToken(c.req.header("Authorization"));
+    if (!token) {
+      return c.json({ error: "Unauthorized - Missing API key" }, 401);
+    }
+
+    const kv = await openKv();
+    const apiKey = await verifyApiKey(kv, token);
+    kv.close();
+
+    if (!apiKey) {
+      return c.json({ error: "Unauthorized - Invalid API key" }, 401);
+    }
+    if (!hasScope(apiKey, scope)) {
+      return c.json(
+        { error: `Forbidden - API key lacks the ${scope} scope` },
+        403,
+      );
+    }
+
+    await next();
+  };
+}
+
+const AuthErrorSchema = z.object({
+  error: z.string().openapi({
+    example: "Unauthorized - Invalid API key",
+  }),
+});
+
+/**
+ * OpenAPI responses of the protected endpoints when authentication fails
+ */
+export const authErrorResponses = {
+  401: {
+    content: {
+      "application/json": {
+        schema: AuthErrorSchema,
+      },
+    },
+    description: "Unauthorized - Missing or invalid API key",
+  },
+  403: {
+    content: {
+      "application/json": {
+        schema: AuthErrorSchema,
+      },
+    },
+    description: "Forbidden - The API key lacks the required scope",
+  },
+};
@@ -0,0 +1,301 @@
+/**
+ * Bill Normalizer
+ *
+ * Helpers to clean up the nested bill data returned by the source API
+ * (readings, referrals) before it is returned by our API.
+ */
+
+import { mapCongressId } from "./congress-mapper.ts";
+import type { CommitteeInDocument, Reading, Referral } from "../types/api.ts";
+import type {
+  BillAuthor,
+  BillListItem,
+  BillReading,
+  BillReferral,
+} from "../types/source.ts";
+
+/**
+ * Reading stages, in legislative order
+ */
+const READING_STAGES = [
+  ["first", "first_reading"],
+  ["second", "second_reading"],
+  ["third", "third_reading"],
+] as const;
+
+/**
+ * Referral types, in the order they are listed
+ */
+const REFERRAL_TYPES = [
+  ["principal", "principal_referral"],
+  ["secondary", "secondary_referral"],
+  ["previous", "previous_referral"],
+] as const;
+
+/**
+ * Normalizes a source API date to ISO format (YYYY-MM-DD)
+ * Handles ISO dates and timestamps, MM/DD/YYYY and other Date-parseable formats
+ *
+ * @returns The ISO date, or null if the value is empty or not a date
+ */
+export function normalizeDate(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  }
+
+  const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (us) {
+    return `${us[3]}-${us[1].padStart(2, "0")}-${us[2].padStart(2, "0")}`;
+  }
+
+  const parsed = new Date(trimmed);
+  if (isNaN(parsed.getTime())) {
+    return null;
+  }
+  return parsed.toISOString().slice(0, 10);
+}
+
+/**
+ * Normalizes a committee name for lookups
+ * e.g. "Committee on Agriculture and Food " → "AGRICULTURE AND FOOD"
+ */
+export function normalizeCommitteeName(name: string): string {
+  return name
+    .trim()
+    .toUpperCase()
+    .replace(/^(SPECIAL )?COMMITTEE ON /, "")
+    .replace(/\s+/g, " ");
+}
+
+/**
+ * Resolves a source API committee reference to our committee ID
+ * Tries the code first, then falls back to the committee name, since the source
+ * API does not always use committee codes in bill data.
+ *
+ * @returns The committee ID, or null if the committee is not in the cache
+ */
+export async function resolveCommitteeId(
+  kv: Deno.Kv,
+  code: string | null | undefined,
+  name: string | null | undefined,
+): Promise<string | null> {
+  const trimmedCode = code?.trim();
+  if (trimmedCode) {
+    const byCode = await kv.get([
+      "committees",
+      "byCommitteeId",
+      trimmedCode,
+      "information",
+    ]);
+    if (byCode.value) {
+      return trimmedCode;
+    }
+  }
+
+  if (name?.trim()) {
+    // Secondary index stores the primary key:
+    // ["committees", "byCommitteeId", code, "information"]
+    const byName = await kv.get<Deno.KvKey>([
+      "committees",
+      "byName",
+      normalizeCommitteeName(name),
+      "information",
+    ]);
+    if (byName.value) {
+      return byName.value[2] as string;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Helper function to transform committee data with committee information
+ * Looks up committee by committeeId directly
+ */
+export async function transformCommittee(
+  kv: Deno.Kv,
+  committeeId: string,
+) {
+  const committeeInfoResult = await kv.get([
+    "committees",
+    "byCommitteeId",
+    committeeId,
+    "information",
+  ]);
+
+  if (committeeInfoResult.value) {
+    const committeeInfo = committeeInfoResult.value as {
+      id: number;
+      code: string;
+      name: string;
+      phone: string | null;
+      jurisdiction: string | null;
+      location: string | null;
+      type_desc: string;
+    };
+
+    return {
+      committeeId: committeeInfo.code,
+      id: committeeInfo.id,
+      name: committeeInfo.name,
+      phone: committeeInfo.phone,
+      jurisdiction: committeeInfo.jurisdiction,
+      location: committeeInfo.location,
+      type_desc: committeeInfo.type_desc,
+    };
+  }
+
+  // If committeeId lookup fails, return null (will be filtered out)
+  return null;
+}
+
+async function transformReading(
+  kv: Deno.Kv,
+  stage: Reading["stage"],
+  reading: BillReading,
+): Promise<Reading> {
+  return {
+    stage,
+    id: reading.id,
+    congress: mapCongressId(reading.congress),
+    documentKey: reading.bill_no,
+    dateRead: normalizeDate(reading.date_read),
+    report: reading.report?.trim() || null,
+    committeeAction: reading.comm_act?.trim() || null,
+    referral: reading.referral?.trim() || null,
+    refName: reading.ref_name?.trim() || null,
+    committeeId: await resolveCommitteeId(
+      kv,
+      reading.referral,
+      reading.ref_name,
+    ),
+    remarks: reading.remarks?.trim() || null,
+  };
+}
+
+/**
+ * Returns the first, second and third readings of a bill, in that order
+ * Readings that have not happened yet are omitted.
+ */
+export async function transformReadings(
+  kv: Deno.Kv,
+  bill: BillListItem,
+): Promise<Reading[]> {
+  const readings: Reading[] = [];
+  for (const [stage, field] of READING_STAGES) {
+    const reading = bill[field];
+    if (reading) {
+      readings.push(await transformReading(kv, stage, reading));
+    }
+  }
+  return readings;
+}
+
+/**
+ * Returns the reading stages a bill has reached, in legislative order
+ */
+export function readingStages(bill: BillListItem): Reading["stage"][] {
+  return READING_STAGES
+    .filter(([, field]) => bill[field])
+    .map(([stage]) => stage);
+}
+
+async function transformReferral(
+  kv: Deno.Kv,
+  type: Referral["type"],
+  referral: BillReferral,
+): Promise<Referral> {
+  const committeeId = await resolveCommitteeId(
+    kv,
+    referral.referral,
+    referral.committee,
+  );
+  const committee: CommitteeInDocument | null = committeeId
+    ? await transformCommittee(kv, committeeId)
+    : null;
+
+  return {
+    type,
+    sequence: referral.sequence_no?.trim() || null,
+    journalNo: referral.journal_no?.trim() || null,
+    referral: referral.referral?.trim() || null,
+    committeeName: referral.committee?.trim() || null,
+    committeeId,
+    committee,
+    changed: referral.change_flag,
+    originalReferral: referral.orig_ref?.trim() || null,
+  };
+}
+
+/**
+ * Lists the referrals of a bill with their type: principal, secondary and
+ * previous referrals, each sorted by sequence number. Entries of the combined
+ * `referrals` list that are not in any of the typed lists are added as "other".
+ */
+function typedReferrals(
+  bill: BillListItem,
+): Array<[Referral["type"], BillReferral]> {
+  const referrals: Array<[Referral["type"], BillReferral]> = [];
+  const seen = new Set<number>();
+
+  const bySequence = (a: BillReferral, b: BillReferral) =>
+    parseFloat(a.sequence_no) - parseFloat(b.sequence_no);
+
+  for (const [type, field] of REFERRAL_TYPES) {
+    for (const referral of [...(bill[field] ?? [])].sort(bySequence)) {
+      seen.add(referral.id);
+      referrals.push([type, referral]);
+    }
+  }
+
+  for (const referral of [...(bill.referrals ?? [])].sort(bySequence)) {
+    if (!seen.has(referral.id)) {
+      seen.add(referral.id);
+      referrals.push(["other", referral]);
+    }
+  }
+
+  return referrals;
+}
+
+/**
+ * Returns the committee referrals of a bill: principal, secondary and previous
+ * referrals, each sorted by sequence number, then the other referrals
+ */
+export async function transformReferrals(
+  kv: Deno.Kv,
+  bill: BillListItem,
+): Promise<Referral[]> {
+  const referrals: Referral[] = [];
+  for (const [type, referral] of typedReferrals(bill)) {
+    referrals.push(await transformReferral(kv, type, referral));
+  }
+  return referrals;
+}
+
+/**
+ * Returns the committee referrals of a bill as "type:committee name", in the
+ * order of transformReferrals, without looking up the committees
+ */
+export function referralNames(bill: BillListItem): string[] {
+  return typedReferrals(bill).map(([type, referral]) =>
+    `${type}:${referral.committee?.trim() || referral.referral?.trim() || ""}`
+  );
+}
+
+/**
+ * Returns the names of a bill's authors or co-authors, sorted by sequence
+ * number, as listed by the source API
+ */
+export function authorNames(authors: BillAuthor[] | null): string[] {
+  return [...(authors ?? [])]
+    .sort((a, b) => a.sequence_no - b.sequence_no)
+    .map((author) => author.name.trim());
+}
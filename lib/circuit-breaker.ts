@@ -0,0 +1,92 @@
+/**
+ * Circuit Breaker for the source HREP API
+ *
+ * After a number of consecutive retryable failures (timeouts, network errors,
+ * 5xx responses) the circuit opens and upstream requests fail immediately with
+ * an UpstreamUnavailableError. Once the cooldown has passed, a single trial
+ * request is let through (half-open); it closes the circuit on success and
+ * re-opens it on failure.
+ */
+
+import { UpstreamUnavailableError } from "./upstream-errors.ts";
+
+const FAILURE_THRESHOLD = parseInt(
+  Deno.env.get("UPSTREAM_CIRCUIT_THRESHOLD") ?? "5",
+  10,
+);
+const COOLDOWN_MS = parseInt(
+  Deno.env.get("UPSTREAM_CIRCUIT_COOLDOWN_MS") ?? "30000",
+  10,
+);
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+let state: CircuitState = "closed";
+let consecutiveFailures = 0;
+let openedAt = 0;
+let trialInFlight = false;
+
+/**
+ * Throws an UpstreamUnavailableError if requests to the source API should be short-circuited
+ *
+ * @param path - The upstream path about to be requested, used in the error message
+ */
+export function assertCircuitClosed(path: string) {
+  if (state === "closed") {
+    return;
+  }
+
+  const elapsed = Date.now() - openedAt;
+
+  if (state === "open" && elapsed >= COOLDOWN_MS) {
+    state = "half-open";
+  }
+
+  if (state === "half-open" && !trialInFlight) {
+    trialInFlight = true;
+    return;
+  }
+
+  const retryAfterSeconds = Math.max(
+    1,
+    Math.ceil((COOLDOWN_MS - elapsed) / 1000),
+  );
+  throw new UpstreamUnavailableError(path, retryAfterSeconds);
+}
+
+/**
+ * Records a successful upstream request, closing the circuit
+ */
+export function recordCircuitSuccess() {
+  state = "closed";
+  consecutiveFailures = 0;
+  trialInFlight = false;
+}
+
+/**
+ * Records a failed upstream request, opening the circuit once the threshold is reached
+ */
+export function recordCircuitFailure() {
+  consecutiveFailures++;
+  trialInFlight = false;
+
+  if (state === "half-open" || consecutiveFailures >= FAILURE_THRESHOLD) {
+    if (state !== "open") {
+      console.warn(
+        `Source API circuit opened after ${consecutiveFailures} consecutive failures`,
+      );
+    }
+    state = "open";
+    openedAt = Date.now();
+  }
+}
+
+/**
+ * Returns the current circuit state, for diagnostics
+ */
+export function getCircuitState(): {
+  state: CircuitState;
+  consecutiveFailures: number;
+} {
+  return { state, consecutiveFailures };
+}
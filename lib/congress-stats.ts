@@ -0,0 +1,226 @@
+/**
+ * Congress Statistics
+ *
+ * Aggregates computed from the document caches of a congress, stored in KV:
+ * - ["stats", "congresses", congress] -> CongressStats
+ * - ["stats", "congresses", congress, "stale"] -> true
+ *
+ * The indexing endpoints mark the statistics of a congress as stale, which
+ * enqueues a recompute on the Deno KV queue, delayed so that the documents of a
+ * whole indexing run are counted at once. POST /api/index/congresses/stats
+ * recomputes them immediately. Reads only serve the stored statistics.
+ */
+
+import { normalizeDate, transformCommittee } from "./bill-normalizer.ts";
+import { getCachedMembers } from "./member-cache.ts";
+import type { CongressStats, Reading } from "../types/api.ts";
+
+/**
+ * Cached document information, stored at ["congresses", congress, documentKey, "information"]
+ * Entries indexed before statistics were added only have the title and date.
+ * The status, readings, referrals and authorship are compared on the next
+ * indexing to record the document history and notify webhook subscribers.
+ */
+export interface DocumentInformation {
+  titleFull: string;
+  titleShort: string;
+  dateFiled: string;
+  billType?: string;
+  significance?: string;
+  readingStages?: Reading["stage"][];
+  status?: string;
+  /** Referrals as "type:committee name" */
+  referrals?: string[];
+  /** Names of the principal authors, as listed by the source API */
+  authors?: string[];
+  /** Names of the co-authors, as listed by the source API */
+  coAuthors?: string[];
+}
+
+/**
+ * Number of authors and committees listed in the statistics
+ */
+const TOP_LIMIT = 10;
+
+/**
+ * Delay before stale statistics are recomputed
+ */
+const REFRESH_DELAY_MS = 60_000;
+
+/**
+ * Queue message recomputing the statistics of a congress
+ */
+interface CongressStatsMessage {
+  type: "congress-stats";
+  congress: number;
+}
+
+function staleKey(congress: number): Deno.KvKey {
+  return ["stats", "congresses", congress, "stale"];
+}
+
+/**
+ * Marks the statistics of a congress as stale and enqueues their recompute
+ * Only the first call since the last recompute enqueues one; later calls find
+ * the flag already set.
+ */
+export async function markCongressStatsStale(kv: Deno.Kv, congress: number) {
+  const message: CongressStatsMessage = { type: "congress-stats", congress };
+  await kv.atomic()
+    .check({ key: staleKey(congress), versionstamp: null })
+    .set(staleKey(congress), true)
+    .enqueue(message, { delay: REFRESH_DELAY_MS })
+    .commit();
+}
+
+function increment(counts: Map<string, number>, key: string) {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+function sortedCounts(counts: Map<string, number>) {
+  return [...counts.entries()]
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .map(([value, count]) => ({ value, count }));
+}
+
+/**
+ * Computes the statistics of a congress from the document caches
+ */
+export async function computeCongressStats(
+  kv: Deno.Kv,
+  congress: number,
+): Promise<CongressStats> {
+  const filedByMonth = new Map<string, number>();
+  const byBillType = new Map<string, number>();
+  const bySignificance = new Map<string, number>();
+  const readings = { first: 0, second: 0, third: 0 };
+  const authored = new Map<string, number>();
+  const referred = new Map<string, number>();
+  const principal = new Map<string, number>();
+  const documentsWithAuthors = new Set<string>();
+  let documentCount = 0;
+
+  // Key format: ["congresses", congress, documentKey, field, ...]
+  for await (const entry of kv.list({ prefix: ["congresses", congress] })) {
+    const documentKey = entry.key[2] as string;
+
+    switch (entry.key[3]) {
+      case "information": {
+        const info = entry.value as DocumentInformation;
+        documentCount++;
+
+        const month = normalizeDate(info.dateFiled)?.slice(0, 7);
+        if (month) {
+          increment(filedByMonth, month);
+        }
+        increment(byBillType, info.billType?.trim() || "Unknown");
+        increment(bySignificance, info.significance?.trim() || "Unknown");
+        for (const stage of info.readingStages ?? []) {
+          readings[stage]++;
+        }
+        break;
+      }
+      case "authors":
+        if (entry.value === true) {
+          increment(authored, entry.key[4] as string);
+          documentsWithAuthors.add(documentKey);
+        }
+        break;
+      case "committees":
+        if (entry.value === true) {
+          increment(referred, entry.key[4] as string);
+        }
+        break;
+      case "referrals":
+        if (entry.value === "principal") {
+          increment(principal, entry.key[4] as string);
+        }
+        break;
+    }
+  }
+
+  // Authors whose information is not cached are left out
+  const authorCounts = sortedCounts(authored).slice(0, TOP_LIMIT);
+  const authors = new Map(
+    (await getCachedMembers(kv, authorCounts.map(({ value }) => value)))
+      .map((member) => [member.author.personId, member.author]),
+  );
+  const topAuthors = authorCounts.flatMap(({ value, count }) => {
+    const author = authors.get(value);
+    return author ? [{ ...author, authoredDocuments: count }] : [];
+  });
+
+  const topCommittees = await Promise.all(
+    sortedCounts(referred).slice(0, TOP_LIMIT).map(async (
+      { value, count },
+    ) => ({
+      committeeId: value,
+      name: (await transformCommittee(kv, value))?.name ?? null,
+      referredDocuments: count,
+      principalReferrals: principal.get(value) ?? 0,
+    })),
+  );
+
+  return {
+    congress,
+    computedAt: new Date().toISOString(),
+    documentCount,
+    documentsWithAuthors: documentsWithAuthors.size,
+    filedByMonth: [...filedByMonth.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, count]) => ({ month, count })),
+    byBillType: sortedCounts(byBillType),
+    bySignificance: sortedCounts(bySignificance),
+    readings,
+    topAuthors,
+    topCommittees,
+  };
+}
+
+/**
+ * Recomputes and stores the statistics of a congress
+ * The stale flag is cleared first, so documents indexed during the recompute
+ * mark the statistics as stale again and enqueue another one.
+ */
+export async function refreshCongressStats(
+  kv: Deno.Kv,
+  congress: number,
+): Promise<CongressStats> {
+  await kv.delete(staleKey(congress));
+  const stats = await computeCongressStats(kv, congress);
+  await kv.set(["stats", "congresses", congress], stats);
+  return stats;
+}
+
+/**
+ * Returns the stored statistics of a congress, or null if none were computed,
+ * e.g. because none of its documents are indexed
+ */
+export async function getCongressStats(
+  kv: Deno.Kv,
+  congress: number,
+): Promise<CongressStats | null> {
+  return (await kv.get<CongressStats>(["stats", "congresses", congress]))
+    .value;
+}
+
+export function isCongressStatsMessage(
+  message: unknown,
+): message is CongressStatsMessage {
+  return typeof message === "object" && message !== null &&
+    (message as CongressStatsMessage).type === "congress-stats";
+}
+
+/**
+ * Recomputes the statistics of a congress from its queue message
+ * Throws on failure, so the queue delivers the message again.
+ */
+export async function runCongressStatsRefresh(
+  kv: Deno.Kv,
+  message: CongressStatsMessage,
+) {
+  const stats = await refreshCongressStats(kv, message.congress);
+  console.log(
+    `Computed statistics for ${stats.documentCount} documents in congress ${message.congress}`,
+  );
+}
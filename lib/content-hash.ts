@@ -0,0 +1,59 @@
+/**
+ * Content Hashes
+ *
+ * SHA-256 hashes of indexed entities, so the indexing endpoints can skip KV
+ * writes when the source data did not change since the last run. Hashes are
+ * stored under the KV key of the entity they describe:
+ * - ["hashes", "people", "byPersonId", personId, "information"]
+ * - ["hashes", "people", "byPersonId", personId, "authoredDocuments" | "coAuthoredDocuments", congress]
+ * - ["hashes", "committees", "byCommitteeId", committeeId, "information"]
+ * - ["hashes", "congresses", congress, documentKey, "information"]
+ * - ["hashes", "congresses", congress, documentKey, "listing"]: hash of the
+ *   document as listed by GET /api/congresses/{congress}/documents, sent by
+ *   the seed script in incremental mode
+ *
+ * Hashes are written after the entity, so an interrupted run rewrites the
+ * entity on the next run instead of skipping it.
+ */
+
+import { getManyEntries, MAX_MUTATIONS } from "./kv.ts";
+import { canonicalJson, sha256Hex } from "./hash.ts";
+
+/**
+ * Returns the hex SHA-256 hash of a value
+ */
+export function contentHash(value: unknown): Promise<string> {
+  return sha256Hex(canonicalJson(value));
+}
+
+function hashKey(key: Deno.KvKey): Deno.KvKey {
+  return ["hashes", ...key];
+}
+
+/**
+ * Returns the stored hashes of entities, or null for entities not indexed
+ * with a hash yet
+ */
+export async function getContentHashes(
+  kv: Deno.Kv,
+  keys: Deno.KvKey[],
+): Promise<Array<string | null>> {
+  const entries = await getManyEntries<string>(kv, keys.map(hashKey));
+  return entries.map((entry) => entry.value);
+}
+
+/**
+ * Stores the hashes of entities that were written
+ */
+export async function setContentHashes(
+  kv: Deno.Kv,
+  hashes: Array<{ key: Deno.KvKey; hash: string }>,
+) {
+  for (let i = 0; i < hashes.length; i += MAX_MUTATIONS) {
+    const atomic = kv.atomic();
+    for (const { key, hash } of hashes.slice(i, i + MAX_MUTATIONS)) {
+      atomic.set(hashKey(key), hash);
+    }
+    await atomic.commit();
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Cron Expressions
+ *
+ * Parses the five-field cron expressions accepted by Deno.cron (minute, hour,
+ * day of month, month, day of week) and computes when they next match, in
+ * UTC like Deno.cron. Fields support *, numbers, ranges (1-5), lists (1,15)
+ * and steps on * or ranges (0-30/10).
+ *
+ * As in standard cron, the day fields are combined with OR when both are
+ * restricted: "0 3 1-7 * 0" runs on each of the first seven days of the month
+ * and on every Sunday, not only on the first Sunday of the month.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether the day of month or day of week field is not * */
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+}
+
+const FIELD_RANGES: Array<[min: number, max: number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+/**
+ * Search at most this far ahead for the next run
+ */
+const MAX_LOOKAHEAD_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepStr] = part.split("/");
+    const step = stepStr === undefined ? 1 : Number(stepStr);
+
+    let start = min;
+    let end = max;
+    if (range !== "*") {
+      const [startStr, endStr] = range.split("-");
+      start = Number(startStr);
+      end = endStr === undefined
+        ? (stepStr === undefined ? start : max)
+        : Number(endStr);
+    }
+
+    if (
+      !Number.isInteger(start) || !Number.isInteger(end) ||
+      !Number.isInteger(step) || step < 1 || start < min || end > max ||
+      start > end
+    ) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parses a five-field cron expression
+ * Throws if the expression is invalid.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Invalid cron expression "${expression}": expected 5 fields`,
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((
+    field,
+    i,
+  ) => parseField(field, ...FIELD_RANGES[i]));
+
+  // Both 0 and 7 are Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictsDayOfMonth: fields[2] !== "*",
+    restrictsDayOfWeek: fields[4] !== "*",
+  };
+}
+
+/**
+ * Whether a cron schedule runs on the day of a date
+ * When both day fields are restricted, either one matching is enough.
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * The first minute after a date matching a cron schedule, or null if it does
+ * not match within five years (e.g. February 30)
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date): Date | null {
+  const date = new Date(after);
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const limit = after.getTime() + MAX_LOOKAHEAD_MS;
+
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+
+  return null;
+}
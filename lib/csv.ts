@@ -0,0 +1,114 @@
+/**
+ * CSV Output
+ *
+ * Flattens list responses into CSV (RFC 4180) for spreadsheets. Nested lists
+ * are joined into a single cell, separated by semicolons.
+ */
+
+import type { Context } from "hono";
+import { accepts } from "hono/accepts";
+
+export type CsvValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | Array<string | number>;
+
+/**
+ * CSV column with the header and how to read its cell from a row
+ */
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => CsvValue;
+}
+
+/**
+ * Formats a value as a CSV field, quoting it if needed
+ */
+export function csvField(value: CsvValue): string {
+  const text = value === null || value === undefined
+    ? ""
+    : Array.isArray(value)
+    ? value.join(";")
+    : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats a committee referral as a list item: "committeeId:type", or only the
+ * committee ID if the type is unknown
+ * Shared by the CSV lists and the CSV exports, so referrals read the same.
+ */
+export function csvReferral(committeeId: string, type: string | null): string {
+  return type ? `${committeeId}:${type}` : committeeId;
+}
+
+/**
+ * Formats values as a CSV line, including the line break
+ */
+export function csvLine(values: CsvValue[]): string {
+  return `${values.map(csvField).join(",")}\r\n`;
+}
+
+/**
+ * Formats rows as a CSV document with a header line
+ */
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]): string {
+  return csvLine(columns.map((column) => column.header)) +
+    rows.map((row) => csvLine(columns.map((column) => column.value(row))))
+      .join("");
+}
+
+/**
+ * Whether the client asked for CSV, with ?format=csv or Accept: text/csv
+ * The format query parameter takes precedence over the Accept header.
+ */
+export function wantsCsv(c: Context, format?: "json" | "csv"): boolean {
+  if (format) {
+    return format === "csv";
+  }
+  return accepts(c, {
+    header: "Accept",
+    supports: ["application/json", "text/csv"],
+    default: "application/json",
+  }) === "text/csv";
+}
+
+/**
+ * Query parameter selecting the response format of list endpoints
+ */
+export const csvFormatQuery = {
+  example: "csv",
+  description:
+    "Response format. Defaults to JSON, or CSV if the Accept header prefers text/csv",
+};
+
+/**
+ * Pagination of a list response, sent as headers alongside CSV
+ */
+export interface CsvPagination {
+  page: number;
+  total: number;
+  totalPages: number;
+}
+
+/**
+ * Creates a CSV response, with the pagination in X-Total-Count and
+ * X-Total-Pages headers since CSV has no place for it
+ */
+export function csvResponse(
+  c: Context,
+  csv: string,
+  filename: string,
+  pagination: CsvPagination,
+) {
+  return c.body(csv, 200, {
+    "Content-Type": "text/csv; charset=utf-8",
+    "Content-Disposition":
+      `inline; filename="${filename}-page-${pagination.page}.csv"`,
+    "X-Total-Count": String(pagination.total),
+    "X-Total-Pages": String(pagination.totalPages),
+  });
+}
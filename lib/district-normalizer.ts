@@ -0,0 +1,156 @@
+/**
+ * District Normalizer
+ *
+ * Parses the free-text district of a house member (e.g. "2nd District of
+ * Cebu", "Lone District of Batanes", "Party-List (AKBAYAN)") into its parts.
+ *
+ * District membership is cached by POST /api/index/people/information:
+ * - ["districts", "byDistrictId", districtId, "information"] -> DistrictInformation
+ * - ["districts", "byDistrictId", districtId, "members", personId] -> true
+ */
+
+import { findLocation } from "./regions.ts";
+
+export type DistrictKind = "district" | "lone" | "party-list";
+
+export interface DistrictInformation {
+  districtId: string;
+  name: string;
+  kind: DistrictKind;
+  province: string | null;
+  city: string | null;
+  number: number | null;
+  partyList: string | null;
+  regionId: string | null;
+}
+
+const ORDINAL_WORDS: Record<string, number> = {
+  FIRST: 1,
+  SECOND: 2,
+  THIRD: 3,
+  FOURTH: 4,
+  FIFTH: 5,
+  SIXTH: 6,
+  SEVENTH: 7,
+  EIGHTH: 8,
+  NINTH: 9,
+  TENTH: 10,
+};
+
+const ORDINAL = "(\\d+)(?:st|nd|rd|th)?|" +
+  Object.keys(ORDINAL_WORDS).join("|");
+
+/**
+ * District formats, with the location and the district number or "lone"
+ */
+const DISTRICT_PATTERNS: Array<
+  { pattern: RegExp; location: number; ordinal: number }
+> = [
+  // "2nd District of Cebu", "Lone District of Batanes"
+  {
+    pattern: new RegExp(`^(${ORDINAL}|LONE) DISTRICT,? OF (.+)$`, "i"),
+    ordinal: 1,
+    location: 3,
+  },
+  // "Cebu, 2nd District", "Batanes - Lone District"
+  {
+    pattern: new RegExp(`^(.+?)\\s*[,-]\\s*(${ORDINAL}|LONE) DISTRICT$`, "i"),
+    location: 1,
+    ordinal: 2,
+  },
+];
+
+function slug(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+function ordinalSuffix(number: number): string {
+  const lastTwo = number % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) {
+    return "th";
+  }
+  return ["th", "st", "nd", "rd"][number % 10] ?? "th";
+}
+
+function parseOrdinal(text: string): number | null {
+  const upper = text.toUpperCase();
+  if (upper === "LONE") {
+    return null;
+  }
+  return ORDINAL_WORDS[upper] ?? parseInt(upper, 10);
+}
+
+/**
+ * Parses a district from the source API
+ * Unknown locations are kept as provinces (or cities, if the name ends with
+ * "City") with no region.
+ *
+ * @returns The district, or null if the district is empty or not recognized
+ */
+export function parseDistrict(
+  district: string | null | undefined,
+): DistrictInformation | null {
+  const trimmed = district?.trim().replace(/\s+/g, " ");
+  if (!trimmed) {
+    return null;
+  }
+
+  // "Party-List (AKBAYAN)", "Party List - AKBAYAN", "AKBAYAN Party-List"
+  if (/party[- ]?list/i.test(trimmed)) {
+    const partyList = trimmed
+      .replace(/party[- ]?list/i, "")
+      .replace(/[()]/g, "")
+      .replace(/^[\s:,-]+|[\s:,-]+$/g, "")
+      .toUpperCase();
+    if (!partyList) {
+      return null;
+    }
+    return {
+      districtId: `party-list-${slug(partyList)}`,
+      name: `${partyList} Party-List`,
+      kind: "party-list",
+      province: null,
+      city: null,
+      number: null,
+      partyList,
+      regionId: null,
+    };
+  }
+
+  for (
+    const { pattern, location: locationGroup, ordinal } of DISTRICT_PATTERNS
+  ) {
+    const match = trimmed.match(pattern);
+    if (!match) {
+      continue;
+    }
+
+    const locationName = match[locationGroup].trim();
+    const number = parseOrdinal(match[ordinal]);
+    const location = findLocation(locationName);
+    const name = location?.name ?? locationName;
+    const isCity = location
+      ? location.kind === "city"
+      : /\bcity\b/i.test(locationName);
+
+    return {
+      districtId: `${slug(name)}-${number ?? "lone"}`,
+      name: number
+        ? `${number}${ordinalSuffix(number)} District of ${name}`
+        : `Lone District of ${name}`,
+      kind: number ? "district" : "lone",
+      province: isCity ? null : name,
+      city: isCity ? name : null,
+      number,
+      partyList: null,
+      regionId: location?.regionId ?? null,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,164 @@
+/**
+ * Document History
+ *
+ * Changes to the status, readings, referrals and authorship of a document,
+ * recorded by POST /api/index/documents/information. The indexer compares the
+ * cached document information (["congresses", congress, documentKey,
+ * "information"]) with the newly fetched bill and appends an entry per change
+ * in the same atomic operation that replaces the cached information.
+ *
+ * KV layout:
+ * - ["history", congress, documentKey, recordedAt, index] -> DocumentHistoryEntry
+ */
+
+import type {
+  DocumentHistoryChange,
+  DocumentHistoryEntry,
+} from "../types/api.ts";
+import type { DocumentInformation } from "./congress-stats.ts";
+
+/**
+ * Appends an entry per value added to or removed from a list
+ * Nothing is recorded if the previous entry was cached before the list was
+ * stored.
+ */
+function listChanges(
+  entries: DocumentHistoryEntry[],
+  recordedAt: string,
+  previous: string[] | undefined,
+  current: string[] | undefined,
+  added: DocumentHistoryChange,
+  removed: DocumentHistoryChange,
+) {
+  if (!previous || !current) {
+    return;
+  }
+
+  for (const value of previous) {
+    if (!current.includes(value)) {
+      entries.push({
+        recordedAt,
+        change: removed,
+        previous: value,
+        current: null,
+      });
+    }
+  }
+  for (const value of current) {
+    if (!previous.includes(value)) {
+      entries.push({
+        recordedAt,
+        change: added,
+        previous: null,
+        current: value,
+      });
+    }
+  }
+}
+
+/**
+ * Compares the previously cached information of a document with the newly
+ * indexed one. Documents indexed for the first time get an "indexed" entry
+ * with their status.
+ */
+export function documentHistoryChanges(
+  previous: DocumentInformation | null,
+  current: DocumentInformation,
+): DocumentHistoryEntry[] {
+  const recordedAt = new Date().toISOString();
+
+  if (!previous) {
+    return [{
+      recordedAt,
+      change: "indexed",
+      previous: null,
+      current: current.status ?? null,
+    }];
+  }
+
+  const entries: DocumentHistoryEntry[] = [];
+
+  if (
+    previous.status !== undefined && current.status !== undefined &&
+    previous.status !== current.status
+  ) {
+    entries.push({
+      recordedAt,
+      change: "status_changed",
+      previous: previous.status,
+      current: current.status,
+    });
+  }
+
+  listChanges(
+    entries,
+    recordedAt,
+    previous.readingStages,
+    current.readingStages,
+    "reading_recorded",
+    "reading_removed",
+  );
+  listChanges(
+    entries,
+    recordedAt,
+    previous.referrals,
+    current.referrals,
+    "referral_added",
+    "referral_removed",
+  );
+  listChanges(
+    entries,
+    recordedAt,
+    previous.authors,
+    current.authors,
+    "author_added",
+    "author_removed",
+  );
+  listChanges(
+    entries,
+    recordedAt,
+    previous.coAuthors,
+    current.coAuthors,
+    "co_author_added",
+    "co_author_removed",
+  );
+
+  return entries;
+}
+
+/**
+ * Adds the entries to the history of a document to an atomic operation, so
+ * they are committed together with the new document information
+ */
+export function recordDocumentHistory(
+  atomic: Deno.AtomicOperation,
+  congress: number,
+  documentKey: string,
+  entries: DocumentHistoryEntry[],
+) {
+  entries.forEach((entry, index) => {
+    atomic.set(
+      ["history", congress, documentKey, entry.recordedAt, index],
+      entry,
+    );
+  });
+}
+
+/**
+ * Returns the history of a document, oldest change first
+ */
+export async function getDocumentHistory(
+  kv: Deno.Kv,
+  congress: number,
+  documentKey: string,
+): Promise<DocumentHistoryEntry[]> {
+  const entries: DocumentHistoryEntry[] = [];
+  for await (
+    const entry of kv.list<DocumentHistoryEntry>({
+      prefix: ["history", congress, documentKey],
+    })
+  ) {
+    entries.push(entry.value);
+  }
+  return entries;
+}
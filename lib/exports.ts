@@ -0,0 +1,473 @@
+/**
+ * Bulk Exports
+ *
+ * Streams whole-congress dumps from the KV cache as NDJSON or CSV, one row at
+ * a time, so a dump is never held in memory:
+ * - documents: one row per document, with its authors, co-authors and
+ *   committee referrals
+ * - people: one row per person who was a member of the congress
+ * - committees: one row per committee that documents were referred to
+ *
+ * The manifest records the row count of each dump when it was last generated:
+ * - ["exports", congress, dataset] -> ExportRecord
+ */
+
+import { normalizeDate } from "./bill-normalizer.ts";
+import type { DocumentInformation } from "./congress-stats.ts";
+import { parseDistrict } from "./district-normalizer.ts";
+import { normalizeParty } from "./party-normalizer.ts";
+import type { PersonInformation } from "./person-normalizer.ts";
+import { getManyEntries, openKv } from "./kv.ts";
+import { csvLine, csvReferral, type CsvValue } from "./csv.ts";
+
+export type ExportDataset = "documents" | "people" | "committees";
+
+export type ExportFormat = "ndjson" | "csv";
+
+export const EXPORT_DATASETS: ExportDataset[] = [
+  "documents",
+  "people",
+  "committees",
+];
+
+export const EXPORT_FORMATS: ExportFormat[] = ["ndjson", "csv"];
+
+/**
+ * Content types of the serialized formats
+ */
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  ndjson: "application/x-ndjson",
+  csv: "text/csv",
+};
+
+/**
+ * Manifest entry of a generated dump
+ */
+export interface ExportRecord {
+  congress: number;
+  dataset: ExportDataset;
+  rowCount: number;
+  generatedAt: string;
+}
+
+type ExportValue =
+  | string
+  | number
+  | boolean
+  | null
+  | string[]
+  | Array<{ committeeId: string; type: string | null }>;
+
+type ExportRow = Record<string, ExportValue>;
+
+/**
+ * Columns of each dataset, in CSV order
+ */
+const EXPORT_COLUMNS: Record<ExportDataset, string[]> = {
+  documents: [
+    "congress",
+    "documentKey",
+    "titleShort",
+    "titleFull",
+    "dateFiled",
+    "billType",
+    "significance",
+    "readingStages",
+    "authors",
+    "coAuthors",
+    "referrals",
+  ],
+  people: [
+    "congress",
+    "personId",
+    "id",
+    "lastName",
+    "firstName",
+    "middleName",
+    "suffix",
+    "nickName",
+    "type",
+    "district",
+    "districtId",
+    "regionId",
+    "partyAffiliation",
+    "partyId",
+    "current",
+    "congresses",
+    "authoredDocuments",
+    "coAuthoredDocuments",
+  ],
+  committees: [
+    "congress",
+    "committeeId",
+    "name",
+    "type",
+    "jurisdiction",
+    "phone",
+    "location",
+    "referredDocuments",
+    "principalReferrals",
+  ],
+};
+
+/**
+ * Cached committee information, stored as returned by the source API
+ */
+interface CommitteeInformation {
+  id: number;
+  code: string;
+  name: string;
+  phone: string | null;
+  jurisdiction: string | null;
+  location: string | null;
+  type_desc: string;
+}
+
+interface DocumentEntries {
+  information: DocumentInformation | null;
+  authors: string[];
+  coAuthors: string[];
+  committees: string[];
+  referrals: Map<string, string>;
+}
+
+function documentRow(
+  congress: number,
+  documentKey: string,
+  document: DocumentEntries,
+): ExportRow {
+  const info = document.information;
+  return {
+    congress,
+    documentKey,
+    titleShort: info?.titleShort ?? null,
+    titleFull: info?.titleFull ?? null,
+    dateFiled: info ? normalizeDate(info.dateFiled) ?? info.dateFiled : null,
+    billType: info?.billType ?? null,
+    significance: info?.significance ?? null,
+    readingStages: info?.readingStages ?? [],
+    authors: document.authors,
+    coAuthors: document.coAuthors,
+    referrals: [
+      ...new Set([...document.committees, ...document.referrals.keys()]),
+    ]
+      .map((committeeId) => ({
+        committeeId,
+        type: document.referrals.get(committeeId) ?? null,
+      })),
+  };
+}
+
+/**
+ * Yields one row per document of a congress
+ * Key format: ["congresses", congress, documentKey, field, ...], so the
+ * entries of a document are listed together.
+ */
+async function* documentRows(
+  kv: Deno.Kv,
+  congress: number,
+): AsyncGenerator<ExportRow> {
+  let documentKey: string | null = null;
+  let document: DocumentEntries | null = null;
+
+  for await (const entry of kv.list({ prefix: ["congresses", congress] })) {
+    const key = entry.key[2] as string;
+    if (key !== documentKey) {
+      if (documentKey !== null && document) {
+        yield documentRow(congress, documentKey, document);
+      }
+      documentKey = key;
+      document = {
+        information: null,
+        authors: [],
+        coAuthors: [],
+        committees: [],
+        referrals: new Map(),
+      };
+    }
+
+    const field = entry.key[3];
+    if (field === "information") {
+      document!.information = entry.value as DocumentInformation;
+    } else if (
+      (field === "authors" || field === "coAuthors" ||
+        field === "committees") && entry.value === true
+    ) {
+      document![field].push(entry.key[4] as string);
+    } else if (field === "referrals") {
+      document!.referrals.set(entry.key[4] as string, entry.value as string);
+    }
+  }
+
+  if (documentKey !== null && document) {
+    yield documentRow(congress, documentKey, document);
+  }
+}
+
+interface PersonEntries {
+  information: PersonInformation | null;
+  membership: number[];
+  authoredDocuments: Array<{ congress: number }>;
+  coAuthoredDocuments: Array<{ congress: number }>;
+}
+
+function personRow(
+  congress: number,
+  personId: string,
+  person: PersonEntries,
+): ExportRow | null {
+  const info = person.information;
+  if (!info || !person.membership.includes(congress)) {
+    return null;
+  }
+
+  const district = parseDistrict(info.district);
+  return {
+    congress,
+    personId,
+    id: info.id,
+    lastName: info.lastName,
+    firstName: info.firstName,
+    middleName: info.middleName,
+    suffix: info.suffix,
+    nickName: info.nickName,
+    type: info.type ?? null,
+    district: info.district ?? null,
+    districtId: district?.districtId ?? null,
+    regionId: district?.regionId ?? null,
+    partyAffiliation: info.partyAffiliation ?? null,
+    partyId: normalizeParty(info.partyAffiliation)?.partyId ?? null,
+    current: info.current ?? false,
+    congresses: person.membership.map(String),
+    authoredDocuments: person.authoredDocuments
+      .filter((document) => document.congress === congress).length,
+    coAuthoredDocuments: person.coAuthoredDocuments
+      .filter((document) => document.congress === congress).length,
+  };
+}
+
+/**
+ * Yields one row per person who was a member of a congress
+ * Key format: ["people", "byPersonId", personId, field], so the entries of a
+ * person are listed together.
+ */
+async function* peopleRows(
+  kv: Deno.Kv,
+  congress: number,
+): AsyncGenerator<ExportRow> {
+  let personId: string | null = null;
+  let person: PersonEntries | null = null;
+
+  for await (const entry of kv.list({ prefix: ["people", "byPersonId"] })) {
+    const key = entry.key[2] as string;
+    if (key !== personId) {
+      const row = personId !== null && person
+        ? personRow(congress, personId, person)
+        : null;
+      if (row) {
+        yield row;
+      }
+      personId = key;
+      person = {
+        information: null,
+        membership: [],
+        authoredDocuments: [],
+        coAuthoredDocuments: [],
+      };
+    }
+
+    switch (entry.key[3]) {
+      case "information":
+        person!.information = entry.value as PersonInformation;
+        break;
+      case "membership":
+        person!.membership = entry.value as number[];
+        break;
+      case "authoredDocuments":
+        person!.authoredDocuments = entry.value as Array<{ congress: number }>;
+        break;
+      case "coAuthoredDocuments":
+        person!.coAuthoredDocuments = entry.value as Array<
+          { congress: number }
+        >;
+        break;
+    }
+  }
+
+  const row = personId !== null && person
+    ? personRow(congress, personId, person)
+    : null;
+  if (row) {
+    yield row;
+  }
+}
+
+/**
+ * Yields one row per committee that documents of a congress were referred to
+ * Only the referral counts are kept in memory, not the documents.
+ */
+async function* committeeRows(
+  kv: Deno.Kv,
+  congress: number,
+): AsyncGenerator<ExportRow> {
+  const referred = new Map<string, number>();
+  const principal = new Map<string, number>();
+
+  for await (const entry of kv.list({ prefix: ["congresses", congress] })) {
+    const committeeId = entry.key[4] as string;
+    if (entry.key[3] === "committees" && entry.value === true) {
+      referred.set(committeeId, (referred.get(committeeId) ?? 0) + 1);
+    } else if (
+      entry.key[3] === "referrals" && entry.value === "principal"
+    ) {
+      principal.set(committeeId, (principal.get(committeeId) ?? 0) + 1);
+    }
+  }
+
+  const committeeIds = [...referred.keys()].sort();
+
+  const entries = await getManyEntries<CommitteeInformation>(
+    kv,
+    committeeIds.map((committeeId) => [
+      "committees",
+      "byCommitteeId",
+      committeeId,
+      "information",
+    ]),
+  );
+
+  for (const [index, entry] of entries.entries()) {
+    const committeeId = committeeIds[index];
+    const info = entry.value;
+    yield {
+      congress,
+      committeeId,
+      name: info?.name ?? null,
+      type: info?.type_desc ?? null,
+      jurisdiction: info?.jurisdiction ?? null,
+      phone: info?.phone ?? null,
+      location: info?.location ?? null,
+      referredDocuments: referred.get(committeeId) ?? 0,
+      principalReferrals: principal.get(committeeId) ?? 0,
+    };
+  }
+}
+
+function exportRows(
+  kv: Deno.Kv,
+  dataset: ExportDataset,
+  congress: number,
+): AsyncGenerator<ExportRow> {
+  switch (dataset) {
+    case "documents":
+      return documentRows(kv, congress);
+    case "people":
+      return peopleRows(kv, congress);
+    case "committees":
+      return committeeRows(kv, congress);
+  }
+}
+
+/**
+ * Flattens referrals to "committeeId:type" for CSV
+ */
+function csvValue(value: ExportValue): CsvValue {
+  return Array.isArray(value)
+    ? value.map((item) =>
+      typeof item === "string" ? item : csvReferral(item.committeeId, item.type)
+    )
+    : value;
+}
+
+async function recordExport(
+  kv: Deno.Kv,
+  congress: number,
+  dataset: ExportDataset,
+  rowCount: number,
+): Promise<ExportRecord> {
+  const record: ExportRecord = {
+    congress,
+    dataset,
+    rowCount,
+    generatedAt: new Date().toISOString(),
+  };
+  await kv.set(["exports", congress, dataset], record);
+  return record;
+}
+
+/**
+ * Streams a dump of a congress
+ * The KV connection stays open until the stream ends or is cancelled. Once
+ * every row was sent, the dump is recorded in the manifest.
+ */
+export function streamExport(
+  dataset: ExportDataset,
+  congress: number,
+  format: ExportFormat,
+): ReadableStream<Uint8Array> {
+  async function* lines(): AsyncGenerator<string> {
+    const kv = await openKv();
+    try {
+      const columns = EXPORT_COLUMNS[dataset];
+      if (format === "csv") {
+        yield csvLine(columns);
+      }
+
+      let rowCount = 0;
+      for await (const row of exportRows(kv, dataset, congress)) {
+        rowCount++;
+        yield format === "csv"
+          ? csvLine(columns.map((column) => csvValue(row[column])))
+          : `${JSON.stringify(row)}\n`;
+      }
+
+      await recordExport(kv, congress, dataset, rowCount);
+    } catch (error) {
+      console.error(
+        `Error exporting ${dataset} of congress ${congress}:`,
+        error,
+      );
+      throw error;
+    } finally {
+      kv.close();
+    }
+  }
+
+  return ReadableStream.from(lines()).pipeThrough(new TextEncoderStream());
+}
+
+/**
+ * Counts the rows of every dump of a congress and records them in the
+ * manifest, without serializing them
+ */
+export async function refreshExports(
+  kv: Deno.Kv,
+  congress: number,
+): Promise<ExportRecord[]> {
+  const records: ExportRecord[] = [];
+  for (const dataset of EXPORT_DATASETS) {
+    let rowCount = 0;
+    for await (const _row of exportRows(kv, dataset, congress)) {
+      rowCount++;
+    }
+    records.push(await recordExport(kv, congress, dataset, rowCount));
+  }
+  return records;
+}
+
+/**
+ * Returns the manifest of generated dumps, newest congress first
+ */
+export async function getExportManifest(
+  kv: Deno.Kv,
+): Promise<ExportRecord[]> {
+  const records: ExportRecord[] = [];
+  for await (const entry of kv.list<ExportRecord>({ prefix: ["exports"] })) {
+    records.push(entry.value);
+  }
+
+  return records.sort((a, b) =>
+    b.congress - a.congress ||
+    EXPORT_DATASETS.indexOf(a.dataset) - EXPORT_DATASETS.indexOf(b.dataset)
+  );
+}
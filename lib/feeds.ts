@@ -0,0 +1,300 @@
+/**
+ * Document Feeds
+ *
+ * RSS 2.0 and Atom 1.0 feeds of the most recently filed documents of a
+ * congress, a person or a committee, built from the cached document
+ * information (["congresses", congress, documentKey, "information"]).
+ * Documents whose information is not cached yet are left out.
+ */
+
+import { normalizeDate } from "./bill-normalizer.ts";
+import type { DocumentInformation } from "./congress-stats.ts";
+import { escapeXml } from "./xml.ts";
+import { getManyEntries } from "./kv.ts";
+
+export type FeedFormat = "rss" | "atom";
+
+/**
+ * Content types of the serialized formats
+ */
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: "application/rss+xml",
+  atom: "application/atom+xml",
+};
+
+/**
+ * Number of documents in a feed
+ */
+const FEED_LIMIT = 50;
+
+export interface FeedItem {
+  congress: number;
+  documentKey: string;
+  title: string;
+  summary: string;
+  /** Filing date as YYYY-MM-DD, or null if it could not be parsed */
+  dateFiled: string | null;
+  /** Why the document is in the feed, e.g. "Principal author" */
+  category: string | null;
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  /** Path of the HTML page the feed belongs to, e.g. /people/E001 */
+  pagePath: string;
+  /** Path of the feed without its extension, e.g. /feeds/people/E001 */
+  feedPath: string;
+  items: FeedItem[];
+}
+
+/**
+ * Reference to a document in a feed, with why it is included
+ */
+interface FeedDocument {
+  congress: number;
+  documentKey: string;
+  category: string | null;
+}
+
+function toFeedItem(
+  document: FeedDocument,
+  info: DocumentInformation,
+): FeedItem {
+  return {
+    congress: document.congress,
+    documentKey: document.documentKey,
+    title: `${document.documentKey}: ${
+      info.titleShort || info.titleFull || "Untitled"
+    }`,
+    summary: info.titleFull || info.titleShort || "",
+    dateFiled: normalizeDate(info.dateFiled),
+    category: document.category,
+  };
+}
+
+/**
+ * Newest first; documents without a filing date last
+ */
+function latestItems(items: FeedItem[]): FeedItem[] {
+  return items
+    .sort((a, b) =>
+      (b.dateFiled ?? "").localeCompare(a.dateFiled ?? "") ||
+      b.documentKey.localeCompare(a.documentKey)
+    )
+    .slice(0, FEED_LIMIT);
+}
+
+/**
+ * Reads the cached information of documents and returns the newest as items
+ */
+async function documentItems(
+  kv: Deno.Kv,
+  documents: FeedDocument[],
+): Promise<FeedItem[]> {
+  const items: FeedItem[] = [];
+  const entries = await getManyEntries<DocumentInformation>(
+    kv,
+    documents.map((document) => [
+      "congresses",
+      document.congress,
+      document.documentKey,
+      "information",
+    ]),
+  );
+
+  entries.forEach((entry, index) => {
+    if (entry.value) {
+      items.push(toFeedItem(documents[index], entry.value));
+    }
+  });
+
+  return latestItems(items);
+}
+
+/**
+ * Newly filed documents of a congress
+ */
+export async function congressFeedItems(
+  kv: Deno.Kv,
+  congress: number,
+): Promise<FeedItem[]> {
+  const items: FeedItem[] = [];
+
+  // Key format: ["congresses", congress, documentKey, field, ...]
+  for await (const entry of kv.list({ prefix: ["congresses", congress] })) {
+    if (entry.key.length === 4 && entry.key[3] === "information") {
+      items.push(toFeedItem(
+        { congress, documentKey: entry.key[2] as string, category: null },
+        entry.value as DocumentInformation,
+      ));
+    }
+  }
+
+  return latestItems(items);
+}
+
+/**
+ * Documents authored or co-authored by a person
+ */
+export async function personFeedItems(
+  kv: Deno.Kv,
+  personId: string,
+): Promise<FeedItem[]> {
+  const [authored, coAuthored] = await kv.getMany<
+    Array<Array<{ congress: number; documentKey: string }>>
+  >([
+    ["people", "byPersonId", personId, "authoredDocuments"],
+    ["people", "byPersonId", personId, "coAuthoredDocuments"],
+  ]);
+
+  return await documentItems(kv, [
+    ...(authored.value ?? []).map((document) => ({
+      ...document,
+      category: "Principal author",
+    })),
+    ...(coAuthored.value ?? []).map((document) => ({
+      ...document,
+      category: "Co-author",
+    })),
+  ]);
+}
+
+const REFERRAL_CATEGORIES: Record<string, string> = {
+  principal: "Principal referral",
+  secondary: "Secondary referral",
+  previous: "Previous referral",
+};
+
+/**
+ * Documents referred to a committee, in all congresses
+ */
+export async function committeeFeedItems(
+  kv: Deno.Kv,
+  committeeId: string,
+): Promise<FeedItem[]> {
+  const documents = new Map<string, FeedDocument>();
+
+  // Key format: ["congresses", congress, documentKey, "committees" | "referrals", committeeId]
+  for await (const entry of kv.list({ prefix: ["congresses"] })) {
+    if (entry.key.length !== 5 || entry.key[4] !== committeeId) {
+      continue;
+    }
+
+    const congress = entry.key[1] as number;
+    const documentKey = entry.key[2] as string;
+    const id = `${congress}/${documentKey}`;
+
+    if (entry.key[3] === "committees" && entry.value === true) {
+      if (!documents.has(id)) {
+        documents.set(id, { congress, documentKey, category: null });
+      }
+    } else if (entry.key[3] === "referrals") {
+      documents.set(id, {
+        congress,
+        documentKey,
+        category: REFERRAL_CATEGORIES[entry.value as string] ?? null,
+      });
+    }
+  }
+
+  return await documentItems(kv, [...documents.values()]);
+}
+
+function documentUrl(baseUrl: string, item: FeedItem): string {
+  return `${baseUrl}/congresses/${item.congress}/documents/${item.documentKey}`;
+}
+
+/**
+ * The newest filing date, or the current time for empty feeds
+ */
+function feedUpdated(feed: Feed): Date {
+  const latest = feed.items.find((item) => item.dateFiled)?.dateFiled;
+  return latest ? new Date(`${latest}T00:00:00Z`) : new Date();
+}
+
+/**
+ * Serializes a feed as RSS 2.0
+ * https://www.rssboard.org/rss-specification
+ */
+export function toRss(feed: Feed, baseUrl: string): string {
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">`,
+    `  <channel>`,
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(baseUrl + feed.pagePath)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <atom:link href="${
+      escapeXml(`${baseUrl}${feed.feedPath}.rss`)
+    }" rel="self" type="${FEED_CONTENT_TYPES.rss}"/>`,
+    `    <lastBuildDate>${feedUpdated(feed).toUTCString()}</lastBuildDate>`,
+  ];
+
+  for (const item of feed.items) {
+    const url = escapeXml(documentUrl(baseUrl, item));
+    lines.push(
+      `    <item>`,
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${url}</link>`,
+      `      <guid isPermaLink="true">${url}</guid>`,
+      `      <description>${escapeXml(item.summary)}</description>`,
+    );
+    if (item.dateFiled) {
+      lines.push(
+        `      <pubDate>${
+          new Date(`${item.dateFiled}T00:00:00Z`).toUTCString()
+        }</pubDate>`,
+      );
+    }
+    if (item.category) {
+      lines.push(`      <category>${escapeXml(item.category)}</category>`);
+    }
+    lines.push(`    </item>`);
+  }
+
+  lines.push(`  </channel>`, `</rss>`, "");
+  return lines.join("\n");
+}
+
+/**
+ * Serializes a feed as Atom 1.0
+ * https://www.rfc-editor.org/rfc/rfc4287
+ */
+export function toAtom(feed: Feed, baseUrl: string): string {
+  const updated = feedUpdated(feed).toISOString();
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<feed xmlns="http://www.w3.org/2005/Atom">`,
+    `  <id>${escapeXml(`${baseUrl}${feed.feedPath}.atom`)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link href="${escapeXml(baseUrl + feed.pagePath)}"/>`,
+    `  <link rel="self" href="${
+      escapeXml(`${baseUrl}${feed.feedPath}.atom`)
+    }" type="${FEED_CONTENT_TYPES.atom}"/>`,
+    `  <updated>${updated}</updated>`,
+    `  <author><name>Better HREP API</name></author>`,
+  ];
+
+  for (const item of feed.items) {
+    const url = escapeXml(documentUrl(baseUrl, item));
+    lines.push(
+      `  <entry>`,
+      `    <id>${url}</id>`,
+      `    <title>${escapeXml(item.title)}</title>`,
+      `    <link href="${url}"/>`,
+      `    <updated>${
+        item.dateFiled ? `${item.dateFiled}T00:00:00Z` : updated
+      }</updated>`,
+      `    <summary>${escapeXml(item.summary)}</summary>`,
+    );
+    if (item.category) {
+      lines.push(`    <category term="${escapeXml(item.category)}"/>`);
+    }
+    lines.push(`  </entry>`);
+  }
+
+  lines.push(`</feed>`, "");
+  return lines.join("\n");
+}
@@ -0,0 +1,143 @@
+/**
+ * Record/Replay Fixtures for the source HREP API
+ *
+ * In record mode every upstream request/response pair is saved as a JSON file
+ * in the fixtures directory. In replay mode responses are served from those
+ * files instead of the network, so the app can run fully offline without
+ * HREP credentials.
+ *
+ * Fixtures are matched on path, method and body (with object keys sorted, so
+ * `{ page, limit }` and `{ limit, page }` match the same file).
+ *
+ * Modes (UPSTREAM_MODE):
+ * - live: always call the source API (default)
+ * - record: call the source API and save every response, bypassing the
+ *   upstream cache
+ * - replay: only serve saved responses, never call the source API
+ */
+
+import { UpstreamFixtureNotFoundError } from "./upstream-errors.ts";
+import { canonicalJson, sha256Hex } from "./hash.ts";
+
+export type UpstreamMode = "live" | "record" | "replay";
+
+const UPSTREAM_MODES: UpstreamMode[] = ["live", "record", "replay"];
+
+const UPSTREAM_MODE = Deno.env.get("UPSTREAM_MODE") || "live";
+const UPSTREAM_FIXTURES_DIR = Deno.env.get("UPSTREAM_FIXTURES_DIR") ||
+  "./fixtures";
+
+if (!UPSTREAM_MODES.includes(UPSTREAM_MODE as UpstreamMode)) {
+  throw new Error(`UPSTREAM_MODE must be one of ${UPSTREAM_MODES.join(", ")}`);
+}
+
+/**
+ * A recorded request/response pair as stored on disk
+ */
+export interface Fixture {
+  request: {
+    method: string;
+    path: string;
+    body: unknown;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    /** Parsed response body, when it was valid JSON */
+    json?: unknown;
+    /** Raw response body, when it was not valid JSON */
+    text?: string;
+  };
+  recordedAt: string;
+}
+
+export function getUpstreamMode(): UpstreamMode {
+  return UPSTREAM_MODE as UpstreamMode;
+}
+
+/**
+ * Returns the file path of the fixture for a request
+ * e.g. fixtures/bills/list/POST-1a2b3c4d5e6f7a8b.json
+ */
+async function getFixturePath(
+  path: string,
+  method: string,
+  body: unknown,
+): Promise<string> {
+  const hash = (await sha256Hex(canonicalJson(body ?? null))).slice(0, 16);
+
+  const directory = path
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => segment.replace(/[^a-zA-Z0-9._-]/g, "_"))
+    .join("/");
+
+  return `${UPSTREAM_FIXTURES_DIR}/${directory}/${method}-${hash}.json`;
+}
+
+/**
+ * Saves a source API response as a fixture
+ * The response is cloned, so the caller can still read its body
+ */
+export async function saveFixture(
+  path: string,
+  method: string,
+  body: unknown,
+  response: Response,
+) {
+  const text = await response.clone().text();
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    json = undefined;
+  }
+
+  const fixture: Fixture = {
+    request: { method, path, body: body ?? null },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      ...(json !== undefined ? { json } : { text }),
+    },
+    recordedAt: new Date().toISOString(),
+  };
+
+  const file = await getFixturePath(path, method, body);
+  await Deno.mkdir(file.slice(0, file.lastIndexOf("/")), { recursive: true });
+  await Deno.writeTextFile(file, JSON.stringify(fixture, null, 2) + "\n");
+}
+
+/**
+ * Loads the recorded response for a request
+ *
+ * @throws UpstreamFixtureNotFoundError if no fixture was recorded for the request
+ */
+export async function loadFixture(
+  path: string,
+  method: string,
+  body: unknown,
+): Promise<Response> {
+  const file = await getFixturePath(path, method, body);
+
+  let fixture: Fixture;
+  try {
+    fixture = JSON.parse(await Deno.readTextFile(file));
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      throw new UpstreamFixtureNotFoundError(path, file);
+    }
+    throw error;
+  }
+
+  const responseBody = fixture.response.json !== undefined
+    ? JSON.stringify(fixture.response.json)
+    : fixture.response.text ?? "";
+
+  return new Response(responseBody, {
+    status: fixture.response.status,
+    statusText: fixture.response.statusText,
+    headers: { "Content-Type": "application/json" },
+  });
+}
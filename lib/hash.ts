@@ -0,0 +1,39 @@
+/**
+ * Hashing helpers shared by the upstream cache, fixtures, content hashes, API
+ * keys and webhook signatures
+ */
+
+/**
+ * Encodes bytes as lowercase hex
+ */
+export function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(
+    bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes),
+    (byte) => byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+/**
+ * Returns the hex SHA-256 hash of a string
+ */
+export async function sha256Hex(data: string): Promise<string> {
+  return toHex(
+    await crypto.subtle.digest("SHA-256", new TextEncoder().encode(data)),
+  );
+}
+
+/**
+ * Serializes a value as JSON with object keys sorted, so equal values always
+ * hash the same
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(
+    value,
+    (_key, item) =>
+      item && typeof item === "object" && !Array.isArray(item)
+        ? Object.fromEntries(
+          Object.entries(item).sort(([a], [b]) => a.localeCompare(b)),
+        )
+        : item,
+  );
+}
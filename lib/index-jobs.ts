@@ -0,0 +1,848 @@
+/**
+ * Index Jobs
+ *
+ * Indexes a whole congress on the server, through the Deno KV queue, instead
+ * of a client calling the chunked indexing endpoints one by one. A job is
+ * split into tasks, each calling one of the /api/index endpoints in-process:
+ * - coauthors, authors: a chunk of the people of the congress (startIndex,
+ *   CHUNK_SIZE), indexing the documents of each
+ * - committees: a chunk of indexed committees
+ * - documents: a page of documents, indexing the information of each
+ * - finish: recomputes the statistics, collaborators and exports once all
+ *   other tasks ended
+ *
+ * The people, committees and documents of a chunk or page are its items, each
+ * indexed with its own request. The items that fail are recorded on the task,
+ * and its retries only index those.
+ *
+ * A task enqueues the next chunk or page when it ends. Failed tasks are
+ * retried with backoff, then dead-lettered, so one failing chunk does not
+ * stop the rest of the job: the chunk or page after a dead-lettered one is
+ * still enqueued, as long as the job knows there are more of its kind.
+ *
+ * The KV updates recording the outcome of a task are retried within the
+ * attempt. If the queue still drops a task's message after its retries, the
+ * task is marked undelivered, and deadLetterUndeliveredTasks dead-letters it
+ * so the job can end.
+ *
+ * Progress is tracked per kind of task: how many tasks ended and how many
+ * there are in total. The total is known once the first chunk or page of a
+ * kind reports how many people, committees or documents there are.
+ *
+ * KV layout:
+ * - ["jobs", "byJobId", jobId] -> IndexJob
+ * - ["jobs", "tasks", jobId, taskId] -> IndexTaskRecord
+ * - ["jobs", "deadLetters", jobId, taskId] -> IndexTaskRecord
+ * - ["jobs", "undelivered", jobId, taskId] -> IndexTaskMessage (set by the
+ *   queue)
+ */
+
+import { internalAuthorization } from "./api-keys.ts";
+
+/**
+ * Unit of work of a job
+ */
+export type IndexTask =
+  | { kind: "coauthors" | "authors" | "committees"; startIndex: number }
+  | { kind: "documents"; page: number }
+  | { kind: "finish" };
+
+export type IndexTaskKind = IndexTask["kind"];
+
+export const INDEX_TASK_KINDS: IndexTaskKind[] = [
+  "coauthors",
+  "authors",
+  "committees",
+  "documents",
+  "finish",
+];
+
+/**
+ * Tasks of a kind that ended (completed or dead-lettered), out of the total
+ */
+export interface IndexTaskProgress {
+  done: number;
+  total: number;
+}
+
+export interface IndexJob {
+  jobId: string;
+  congress: number;
+  status: "queued" | "running" | "done" | "failed";
+  /** Tasks enqueued and not completed or dead-lettered yet */
+  pendingTasks: number;
+  completedTasks: number;
+  failedTasks: number;
+  progress: Record<IndexTaskKind, IndexTaskProgress>;
+  createdAt: string;
+  startedAt: string | null;
+  updatedAt: string;
+  finishedAt: string | null;
+}
+
+/**
+ * Outcome of a task: the tasks to enqueue next (the following chunk or page,
+ * if any), and how many tasks of the same kind are left including them
+ */
+export interface TaskResult {
+  nextTasks: IndexTask[];
+  tasksLeft: number;
+}
+
+/**
+ * Item of a task whose last attempt failed
+ */
+export interface IndexTaskItemError {
+  /** Person ID, committee ID or document key */
+  itemId: string;
+  error: string;
+}
+
+export interface IndexTaskRecord {
+  taskId: string;
+  jobId: string;
+  congress: number;
+  task: IndexTask;
+  status: "pending" | "completed" | "dead_lettered";
+  attempts: number;
+  error: string | null;
+  failedItems: IndexTaskItemError[];
+  /** Outcome of the task once its items were listed, kept for its retries */
+  result: TaskResult | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Queue message of a task; the task itself is kept in its record
+ */
+interface IndexTaskMessage {
+  type: "index-task";
+  jobId: string;
+  taskId: string;
+}
+
+/**
+ * Sends a request to the API app in-process, e.g. app.request
+ */
+export type ApiRequest = (
+  path: string,
+  init?: RequestInit,
+) => Response | Promise<Response>;
+
+/**
+ * Delays between task attempts. A task is attempted once more than there are
+ * delays, then dead-lettered.
+ */
+const RETRY_DELAYS = [30_000, 120_000, 600_000];
+
+const MAX_ATTEMPTS = RETRY_DELAYS.length + 1;
+
+/**
+ * Delays between attempts of the KV updates recording the outcome of a task,
+ * e.g. while the database is locked
+ */
+const UPDATE_RETRY_DELAYS = [100, 1_000, 5_000];
+
+/**
+ * People or committees per coauthors, authors and committees task
+ */
+const CHUNK_SIZE = 10;
+
+/**
+ * Documents per documents task
+ */
+const PAGE_SIZE = 25;
+
+function jobKey(jobId: string): Deno.KvKey {
+  return ["jobs", "byJobId", jobId];
+}
+
+function taskKey(jobId: string, taskId: string): Deno.KvKey {
+  return ["jobs", "tasks", jobId, taskId];
+}
+
+/**
+ * Number of chunks of size CHUNK_SIZE left from startIndex
+ */
+function chunksLeft(startIndex: number, count: number): number {
+  return Math.max(0, Math.ceil((count - startIndex) / CHUNK_SIZE));
+}
+
+function newTask(
+  job: IndexJob,
+  task: IndexTask,
+  now: string,
+): { record: IndexTaskRecord; message: IndexTaskMessage } {
+  const taskId = crypto.randomUUID();
+  return {
+    record: {
+      taskId,
+      jobId: job.jobId,
+      congress: job.congress,
+      task,
+      status: "pending",
+      attempts: 0,
+      error: null,
+      failedItems: [],
+      result: null,
+      createdAt: now,
+      updatedAt: now,
+    },
+    message: { type: "index-task", jobId: job.jobId, taskId },
+  };
+}
+
+/**
+ * Adds task records and their queue messages to an atomic operation
+ */
+function enqueueTasks(
+  atomic: Deno.AtomicOperation,
+  job: IndexJob,
+  tasks: IndexTask[],
+  now: string,
+) {
+  for (const task of tasks) {
+    const { record, message } = newTask(job, task, now);
+    atomic
+      .set(taskKey(job.jobId, record.taskId), record)
+      .enqueue(message, {
+        backoffSchedule: RETRY_DELAYS,
+        keysIfUndelivered: [["jobs", "undelivered", job.jobId, record.taskId]],
+      });
+  }
+}
+
+/**
+ * Kinds of tasks a job can be limited to; the finish task always runs
+ */
+export const INDEX_JOB_SCOPES = [
+  "coauthors",
+  "authors",
+  "committees",
+  "documents",
+] as const;
+
+export type IndexJobScope = typeof INDEX_JOB_SCOPES[number];
+
+/**
+ * First task of each kind
+ */
+const FIRST_TASKS: Record<IndexJobScope, IndexTask> = {
+  coauthors: { kind: "coauthors", startIndex: 0 },
+  authors: { kind: "authors", startIndex: 0 },
+  committees: { kind: "committees", startIndex: 0 },
+  documents: { kind: "documents", page: 0 },
+};
+
+/**
+ * Creates a job indexing the authors, co-authors, committee referrals and
+ * document information of a congress, or only some of them, and enqueues its
+ * first tasks
+ */
+export async function createIndexJob(
+  kv: Deno.Kv,
+  congress: number,
+  scopes: readonly IndexJobScope[] = INDEX_JOB_SCOPES,
+): Promise<IndexJob> {
+  const now = new Date().toISOString();
+  const tasks = scopes.map((scope) => FIRST_TASKS[scope]);
+  const total = (scope: IndexJobScope) => scopes.includes(scope) ? 1 : 0;
+  const job: IndexJob = {
+    jobId: crypto.randomUUID(),
+    congress,
+    status: "queued",
+    pendingTasks: tasks.length,
+    completedTasks: 0,
+    failedTasks: 0,
+    progress: {
+      coauthors: { done: 0, total: total("coauthors") },
+      authors: { done: 0, total: total("authors") },
+      committees: { done: 0, total: total("committees") },
+      documents: { done: 0, total: total("documents") },
+      finish: { done: 0, total: 1 },
+    },
+    createdAt: now,
+    startedAt: null,
+    updatedAt: now,
+    finishedAt: null,
+  };
+
+  const atomic = kv.atomic().set(jobKey(job.jobId), job);
+  enqueueTasks(atomic, job, tasks, now);
+  await atomic.commit();
+
+  return job;
+}
+
+export async function getIndexJob(
+  kv: Deno.Kv,
+  jobId: string,
+): Promise<IndexJob | null> {
+  const entry = await kv.get<IndexJob>(jobKey(jobId));
+  return entry.value;
+}
+
+/**
+ * All jobs, newest first
+ */
+export async function listIndexJobs(kv: Deno.Kv): Promise<IndexJob[]> {
+  const jobs: IndexJob[] = [];
+  for await (
+    const entry of kv.list<IndexJob>({ prefix: ["jobs", "byJobId"] })
+  ) {
+    jobs.push(entry.value);
+  }
+  return jobs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Tasks of a job whose last attempt failed: dead-lettered tasks and pending
+ * tasks waiting for a retry, in the order they were last attempted
+ */
+export async function listIndexJobErrors(
+  kv: Deno.Kv,
+  jobId: string,
+): Promise<IndexTaskRecord[]> {
+  const records: IndexTaskRecord[] = [];
+  for await (
+    const entry of kv.list<IndexTaskRecord>({
+      prefix: ["jobs", "tasks", jobId],
+    })
+  ) {
+    if (entry.value.error !== null) {
+      records.push(entry.value);
+    }
+  }
+  return records.sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
+}
+
+export function isIndexTaskMessage(
+  message: unknown,
+): message is IndexTaskMessage {
+  return typeof message === "object" && message !== null &&
+    (message as IndexTaskMessage).type === "index-task";
+}
+
+/**
+ * Calls an indexing endpoint with the in-process API key
+ * Throws if the endpoint fails, so the task is retried.
+ */
+export async function callIndexEndpoint<T>(
+  request: ApiRequest,
+  path: string,
+  body: Record<string, unknown>,
+): Promise<T> {
+  const response = await request(path, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: internalAuthorization(),
+    },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(
+      `POST /api${path} failed: ${response.status} ${await response.text()}`,
+    );
+  }
+  return await response.json() as T;
+}
+
+/**
+ * IDs of the indexed committees, in key order
+ */
+async function listCommitteeIds(kv: Deno.Kv): Promise<string[]> {
+  const committeeIds: string[] = [];
+
+  // Key format: ["committees", "byCommitteeId", committeeId, "information"]
+  for await (
+    const entry of kv.list({ prefix: ["committees", "byCommitteeId"] })
+  ) {
+    if (entry.key[3] === "information") {
+      committeeIds.push(entry.key[2] as string);
+    }
+  }
+  return committeeIds;
+}
+
+/**
+ * Tasks following a dead-lettered task: the next chunk or page, unless it was
+ * the last one of its kind. Its chunk or page did not report how many are
+ * left, so the progress of the job tells.
+ */
+function followingTasks(job: IndexJob, task: IndexTask): TaskResult {
+  const { done, total } = job.progress[task.kind];
+  const tasksLeft = total - done - 1;
+  if (tasksLeft <= 0) {
+    return { nextTasks: [], tasksLeft: 0 };
+  }
+
+  switch (task.kind) {
+    case "coauthors":
+    case "authors":
+    case "committees":
+      return {
+        nextTasks: [{
+          kind: task.kind,
+          startIndex: task.startIndex + CHUNK_SIZE,
+        }],
+        tasksLeft,
+      };
+    case "documents":
+      return {
+        nextTasks: [{ kind: "documents", page: task.page + 1 }],
+        tasksLeft,
+      };
+    case "finish":
+      return { nextTasks: [], tasksLeft: 0 };
+  }
+}
+
+/**
+ * IDs of the people of a congress, sorted
+ */
+async function listPersonIds(
+  congress: number,
+  request: ApiRequest,
+): Promise<string[]> {
+  const response = await request("/info/people", {
+    headers: { Authorization: internalAuthorization() },
+  });
+  if (!response.ok) {
+    throw new Error(
+      `GET /api/info/people failed: ${response.status} ${await response
+        .text()}`,
+    );
+  }
+  const info = await response.json() as { data: Record<string, string[]> };
+  return info.data[congress.toString()] ?? [];
+}
+
+type ItemTask = Exclude<IndexTask, { kind: "finish" }>;
+
+/**
+ * Names of the items of each kind of task, for error messages
+ */
+const ITEM_NAMES: Record<ItemTask["kind"], string> = {
+  coauthors: "people",
+  authors: "people",
+  committees: "committees",
+  documents: "documents",
+};
+
+/**
+ * Lists the items of a chunk or page, and the tasks following it
+ */
+async function listTaskItems(
+  kv: Deno.Kv,
+  congress: number,
+  task: ItemTask,
+  request: ApiRequest,
+): Promise<{ items: string[]; result: TaskResult }> {
+  switch (task.kind) {
+    case "coauthors":
+    case "authors":
+    case "committees": {
+      const itemIds = task.kind === "committees"
+        ? await listCommitteeIds(kv)
+        : await listPersonIds(congress, request);
+      const nextStartIndex = task.startIndex + CHUNK_SIZE;
+      return {
+        items: itemIds.slice(task.startIndex, nextStartIndex),
+        result: nextStartIndex >= itemIds.length
+          ? { nextTasks: [], tasksLeft: 0 }
+          : {
+            nextTasks: [{ kind: task.kind, startIndex: nextStartIndex }],
+            tasksLeft: chunksLeft(nextStartIndex, itemIds.length),
+          },
+      };
+    }
+
+    case "documents": {
+      const response = await request(
+        `/congresses/${congress}/documents?page=${task.page}&limit=${PAGE_SIZE}`,
+        { headers: { Authorization: internalAuthorization() } },
+      );
+      if (!response.ok) {
+        throw new Error(
+          `GET /api/congresses/${congress}/documents failed: ${response.status} ${await response
+            .text()}`,
+        );
+      }
+      const documents = await response.json() as {
+        data: Array<{ documentKey: string }>;
+        totalPages: number;
+      };
+      return {
+        items: documents.data.map((document) => document.documentKey),
+        result: task.page >= documents.totalPages - 1
+          ? { nextTasks: [], tasksLeft: 0 }
+          : {
+            nextTasks: [{ kind: "documents", page: task.page + 1 }],
+            tasksLeft: documents.totalPages - task.page - 1,
+          },
+      };
+    }
+  }
+}
+
+/**
+ * Indexes one person, committee or document of a task
+ */
+async function indexTaskItem(
+  congress: number,
+  task: ItemTask,
+  itemId: string,
+  request: ApiRequest,
+) {
+  switch (task.kind) {
+    case "coauthors":
+    case "authors":
+      await callIndexEndpoint(request, `/index/documents/${task.kind}`, {
+        congress,
+        personId: itemId,
+      });
+      return;
+    case "committees":
+      await callIndexEndpoint(request, "/index/documents/committees", {
+        congress,
+        committeeId: itemId,
+      });
+      return;
+    case "documents":
+      await callIndexEndpoint(request, "/index/documents/information", {
+        congress,
+        documentKey: itemId,
+      });
+      return;
+  }
+}
+
+/**
+ * Outcome of an attempt of a task: its result and the items that failed, if
+ * any, or no result if its items could not be listed
+ */
+type TaskAttempt =
+  | { result: TaskResult; failedItems: IndexTaskItemError[]; error: null }
+  | { result: TaskResult; failedItems: IndexTaskItemError[]; error: string }
+  | { result: null; failedItems: []; error: string };
+
+/**
+ * Runs a task, or only its failed items if an earlier attempt listed them
+ * The failure of an item is recorded and the other items are still indexed.
+ */
+async function executeTask(
+  kv: Deno.Kv,
+  record: IndexTaskRecord,
+  request: ApiRequest,
+): Promise<TaskAttempt> {
+  const { congress, task } = record;
+
+  if (task.kind === "finish") {
+    await callIndexEndpoint(request, "/index/congresses/stats", {
+      congress,
+    });
+    await callIndexEndpoint(request, "/index/congresses/collaborators", {
+      congress,
+    });
+    await callIndexEndpoint(request, "/index/exports", { congress });
+    return {
+      result: { nextTasks: [], tasksLeft: 0 },
+      failedItems: [],
+      error: null,
+    };
+  }
+
+  const { items, result } = record.result
+    ? {
+      items: record.failedItems.map((item) => item.itemId),
+      result: record.result,
+    }
+    : await listTaskItems(kv, congress, task, request);
+
+  const failedItems: IndexTaskItemError[] = [];
+  for (const itemId of items) {
+    try {
+      await indexTaskItem(congress, task, itemId, request);
+    } catch (error) {
+      failedItems.push({
+        itemId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (failedItems.length === 0) {
+    return { result, failedItems, error: null };
+  }
+  return {
+    result,
+    failedItems,
+    error: `Failed to index ${failedItems.length} of ${items.length} ${
+      ITEM_NAMES[task.kind]
+    }: ${failedItems.map((item) => item.itemId).join(", ")}`,
+  };
+}
+
+/**
+ * Marks a task as completed or dead-lettered, enqueues the tasks following
+ * it, and updates the job. Once no other task is pending, the finish task is
+ * enqueued; once it ended, the job is done (or failed if a task was
+ * dead-lettered).
+ *
+ * @param next - The tasks following the task, given the job before the update
+ */
+async function endTask(
+  kv: Deno.Kv,
+  taskEntry: Deno.KvEntry<IndexTaskRecord>,
+  update: Pick<
+    IndexTaskRecord,
+    "status" | "attempts" | "error" | "failedItems"
+  >,
+  next: (job: IndexJob) => TaskResult,
+) {
+  const record = taskEntry.value;
+
+  // Tasks of a job end concurrently, so retry on conflicting job updates
+  while (true) {
+    const jobEntry = await kv.get<IndexJob>(jobKey(record.jobId));
+    if (!jobEntry.value) {
+      return;
+    }
+
+    const { nextTasks, tasksLeft } = next(jobEntry.value);
+    const now = new Date().toISOString();
+    const succeeded = update.status === "completed";
+    const kind = record.task.kind;
+    const done = jobEntry.value.progress[kind].done + 1;
+    const job: IndexJob = {
+      ...jobEntry.value,
+      pendingTasks: jobEntry.value.pendingTasks - 1 + nextTasks.length,
+      completedTasks: jobEntry.value.completedTasks + (succeeded ? 1 : 0),
+      failedTasks: jobEntry.value.failedTasks + (succeeded ? 0 : 1),
+      progress: {
+        ...jobEntry.value.progress,
+        [kind]: { done, total: done + tasksLeft },
+      },
+      updatedAt: now,
+    };
+
+    const tasks = [...nextTasks];
+    if (job.pendingTasks === 0 && record.task.kind !== "finish") {
+      tasks.push({ kind: "finish" });
+      job.pendingTasks = 1;
+    } else if (job.pendingTasks === 0) {
+      job.status = job.failedTasks > 0 ? "failed" : "done";
+      job.finishedAt = now;
+    }
+
+    const ended: IndexTaskRecord = { ...record, ...update, updatedAt: now };
+    const atomic = kv.atomic()
+      .check(jobEntry, taskEntry)
+      .set(jobKey(record.jobId), job)
+      .set(taskEntry.key, ended);
+    if (!succeeded) {
+      atomic.set(
+        ["jobs", "deadLetters", record.jobId, record.taskId],
+        ended,
+      );
+    }
+    enqueueTasks(atomic, job, tasks, now);
+
+    const result = await atomic.commit();
+    if (result.ok) {
+      return;
+    }
+
+    // The task was ended by another delivery of the same message
+    const current = await kv.get(taskEntry.key);
+    if (current.versionstamp !== taskEntry.versionstamp) {
+      return;
+    }
+  }
+}
+
+/**
+ * Records a failed attempt of a task that has attempts left
+ * Retries on conflicts, so the task is not left pending without a message to
+ * retry it.
+ *
+ * @returns Whether the task is still pending, so its message must be retried
+ */
+async function recordFailedAttempt(
+  kv: Deno.Kv,
+  key: Deno.KvKey,
+  update: Pick<
+    IndexTaskRecord,
+    "attempts" | "error" | "failedItems" | "result"
+  >,
+): Promise<boolean> {
+  while (true) {
+    const entry = await kv.get<IndexTaskRecord>(key);
+    if (!entry.value || entry.value.status !== "pending") {
+      // Ended by another delivery of the same message
+      return false;
+    }
+
+    const recorded = await kv.atomic()
+      .check(entry)
+      .set(key, {
+        ...entry.value,
+        ...update,
+        attempts: Math.max(update.attempts, entry.value.attempts),
+        updatedAt: new Date().toISOString(),
+      })
+      .commit();
+    if (recorded.ok) {
+      return true;
+    }
+  }
+}
+
+/**
+ * Runs a KV update, retrying it if it throws
+ */
+async function retryUpdate<T>(update: () => Promise<T>): Promise<T> {
+  for (let attempt = 0;; attempt++) {
+    try {
+      return await update();
+    } catch (error) {
+      if (attempt >= UPDATE_RETRY_DELAYS.length) {
+        throw error;
+      }
+      console.error(
+        "Failed to record the index task outcome, retrying:",
+        error,
+      );
+      await new Promise((resolve) =>
+        setTimeout(resolve, UPDATE_RETRY_DELAYS[attempt])
+      );
+    }
+  }
+}
+
+/**
+ * Dead-letters the tasks whose queue message was dropped after its retries
+ * while the task was still pending, so their job can end
+ *
+ * @returns Number of dead-lettered tasks
+ */
+export async function deadLetterUndeliveredTasks(
+  kv: Deno.Kv,
+): Promise<number> {
+  let deadLettered = 0;
+  for await (const entry of kv.list({ prefix: ["jobs", "undelivered"] })) {
+    const [, , jobId, taskId] = entry.key as string[];
+    const taskEntry = await kv.get<IndexTaskRecord>(taskKey(jobId, taskId));
+    const record = taskEntry.value;
+    if (record?.status === "pending") {
+      await endTask(
+        kv,
+        taskEntry as Deno.KvEntry<IndexTaskRecord>,
+        {
+          status: "dead_lettered",
+          attempts: record.attempts,
+          error: record.error
+            ? `Dropped by the queue; last error: ${record.error}`
+            : "Dropped by the queue",
+          failedItems: record.failedItems,
+        },
+        (job) => record.result ?? followingTasks(job, record.task),
+      );
+      deadLettered++;
+    }
+    await kv.delete(entry.key);
+  }
+  return deadLettered;
+}
+
+/**
+ * Runs a queued task and records the attempt
+ * Throws while attempts are left, so the queue retries the message; the last
+ * failed attempt dead-letters the task instead.
+ */
+export async function runIndexTask(
+  kv: Deno.Kv,
+  message: IndexTaskMessage,
+  request: ApiRequest,
+): Promise<void> {
+  const key = taskKey(message.jobId, message.taskId);
+  const entry = await kv.get<IndexTaskRecord>(key);
+  if (!entry.value || entry.value.status !== "pending") {
+    return;
+  }
+
+  const record = entry.value;
+  const attempts = record.attempts + 1;
+
+  // Mark the job as running on its first task
+  const jobEntry = await kv.get<IndexJob>(jobKey(record.jobId));
+  if (jobEntry.value?.status === "queued") {
+    const now = new Date().toISOString();
+    await kv.atomic()
+      .check(jobEntry)
+      .set(jobEntry.key, {
+        ...jobEntry.value,
+        status: "running",
+        startedAt: now,
+        updatedAt: now,
+      })
+      .commit();
+  }
+
+  console.log(
+    `Running index task ${record.task.kind} of job ${record.jobId} (attempt ${attempts})`,
+  );
+
+  let attempt: TaskAttempt;
+  try {
+    attempt = await executeTask(kv, record, request);
+  } catch (error) {
+    attempt = {
+      result: null,
+      failedItems: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  if (attempt.error === null) {
+    const { result } = attempt;
+    await retryUpdate(() =>
+      endTask(
+        kv,
+        entry,
+        { status: "completed", attempts, error: null, failedItems: [] },
+        () => result,
+      )
+    );
+    return;
+  }
+
+  const { result, failedItems, error } = attempt;
+
+  console.error(
+    `Index task ${record.task.kind} of job ${record.jobId} failed:`,
+    error,
+  );
+
+  if (attempts < MAX_ATTEMPTS) {
+    const pending = await retryUpdate(() =>
+      recordFailedAttempt(kv, key, { attempts, error, failedItems, result })
+    );
+    if (pending) {
+      throw new Error(error);
+    }
+    return;
+  }
+
+  // Without a result, the items of the task could not be listed
+  await retryUpdate(() =>
+    endTask(
+      kv,
+      entry,
+      { status: "dead_lettered", attempts, error, failedItems },
+      (job) => result ?? followingTasks(job, record.task),
+    )
+  );
+}
@@ -0,0 +1,248 @@
+/**
+ * Index Schedules
+ *
+ * Re-indexes on a schedule with Deno.cron, instead of running the seed script
+ * from outside the app. Each schedule calls the /api/index endpoints
+ * in-process:
+ * - membership: POST /index/people/membership
+ * - current-documents: POST /index/congresses for the documents of the
+ *   current congress
+ * - historical-congresses: POST /index/congresses for every other congress
+ *
+ * A congress is skipped while an earlier job for it is queued or running, so
+ * slow jobs do not pile up.
+ *
+ * Schedules are off unless INDEX_SCHEDULES=on. Their cron expressions (UTC)
+ * can be overridden per schedule, or set to "off" to disable one. When an
+ * expression restricts both the day of month and the day of week, it runs on
+ * days matching either (see cron.ts).
+ *
+ * KV layout:
+ * - ["schedules", name] -> IndexScheduleRun (last run of the schedule)
+ */
+
+import {
+  type ApiRequest,
+  callIndexEndpoint,
+  deadLetterUndeliveredTasks,
+  listIndexJobs,
+} from "./index-jobs.ts";
+import { nextCronRun, parseCron } from "./cron.ts";
+import { internalAuthorization } from "./api-keys.ts";
+
+const INDEX_SCHEDULES = Deno.env.get("INDEX_SCHEDULES") || "off";
+
+export type IndexScheduleName =
+  | "membership"
+  | "current-documents"
+  | "historical-congresses";
+
+interface IndexScheduleDefinition {
+  name: IndexScheduleName;
+  /** Environment variable overriding the cron expression */
+  env: string;
+  defaultCron: string;
+  description: string;
+  /** Runs the schedule, returning a summary of what it did */
+  run: (kv: Deno.Kv, request: ApiRequest) => Promise<string>;
+}
+
+export interface IndexScheduleRun {
+  name: IndexScheduleName;
+  cron: string;
+  status: "running" | "succeeded" | "failed";
+  message: string | null;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export interface IndexSchedule {
+  name: IndexScheduleName;
+  description: string;
+  /** Cron expression, or null if the schedule is disabled */
+  cron: string | null;
+  lastRun: IndexScheduleRun | null;
+  nextRunAt: string | null;
+}
+
+/**
+ * Congress numbers, latest first
+ */
+async function listCongresses(request: ApiRequest): Promise<number[]> {
+  const response = await request("/congresses", {
+    headers: { Authorization: internalAuthorization() },
+  });
+  if (!response.ok) {
+    throw new Error(
+      `GET /api/congresses failed: ${response.status} ${await response
+        .text()}`,
+    );
+  }
+  const congresses = await response.json() as Array<{ id: number }>;
+  return congresses.map((congress) => congress.id).sort((a, b) => b - a);
+}
+
+/**
+ * Congresses with a queued or running index job. Tasks dropped by the queue
+ * are dead-lettered first, so their job does not stay running.
+ */
+async function listActiveCongresses(kv: Deno.Kv): Promise<Set<number>> {
+  await deadLetterUndeliveredTasks(kv);
+  const jobs = await listIndexJobs(kv);
+  return new Set(
+    jobs
+      .filter((job) => job.status === "queued" || job.status === "running")
+      .map((job) => job.congress),
+  );
+}
+
+const SCHEDULES: IndexScheduleDefinition[] = [
+  {
+    name: "membership",
+    env: "INDEX_SCHEDULE_MEMBERSHIP",
+    defaultCron: "0 1 * * *",
+    description: "Indexes the congresses each person was a member of",
+    run: async (_kv, request) => {
+      const result = await callIndexEndpoint<{ message: string }>(
+        request,
+        "/index/people/membership",
+        {},
+      );
+      return result.message;
+    },
+  },
+  {
+    name: "current-documents",
+    env: "INDEX_SCHEDULE_CURRENT_DOCUMENTS",
+    defaultCron: "0 * * * *",
+    description:
+      "Enqueues an index job for the documents of the current congress",
+    run: async (kv, request) => {
+      const [congress] = await listCongresses(request);
+      if ((await listActiveCongresses(kv)).has(congress)) {
+        return `Skipped congress ${congress}: an index job is still running`;
+      }
+      const result = await callIndexEndpoint<{ jobId: string }>(
+        request,
+        "/index/congresses",
+        { congress, scopes: ["documents"] },
+      );
+      return `Enqueued index job ${result.jobId} for congress ${congress}`;
+    },
+  },
+  {
+    name: "historical-congresses",
+    env: "INDEX_SCHEDULE_HISTORICAL_CONGRESSES",
+    defaultCron: "0 3 * * 0",
+    description: "Enqueues an index job for every congress but the current one",
+    run: async (kv, request) => {
+      const [, ...congresses] = await listCongresses(request);
+      const active = await listActiveCongresses(kv);
+      const enqueued = congresses.filter((congress) => !active.has(congress));
+      for (const congress of enqueued) {
+        await callIndexEndpoint(request, "/index/congresses", { congress });
+      }
+      return `Enqueued index jobs for congresses ${enqueued.join(", ")}` +
+        ` (${congresses.length - enqueued.length} still running)`;
+    },
+  },
+];
+
+function runKey(name: IndexScheduleName): Deno.KvKey {
+  return ["schedules", name];
+}
+
+/**
+ * Cron expression of a schedule, or null if it is disabled
+ */
+function getCron(schedule: IndexScheduleDefinition): string | null {
+  if (INDEX_SCHEDULES !== "on") {
+    return null;
+  }
+  const cron = Deno.env.get(schedule.env) || schedule.defaultCron;
+  return cron === "off" ? null : cron;
+}
+
+/**
+ * Runs a schedule and records the run
+ * Errors are recorded rather than thrown: the schedule runs again at its next
+ * time anyway.
+ */
+async function runSchedule(
+  kv: Deno.Kv,
+  schedule: IndexScheduleDefinition,
+  cron: string,
+  request: ApiRequest,
+) {
+  const run: IndexScheduleRun = {
+    name: schedule.name,
+    cron,
+    status: "running",
+    message: null,
+    error: null,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+  };
+  await kv.set(runKey(schedule.name), run);
+
+  console.log(`Running index schedule ${schedule.name}`);
+
+  try {
+    run.message = await schedule.run(kv, request);
+    run.status = "succeeded";
+    console.log(`Index schedule ${schedule.name}: ${run.message}`);
+  } catch (error) {
+    run.error = error instanceof Error ? error.message : String(error);
+    run.status = "failed";
+    console.error(`Index schedule ${schedule.name} failed:`, run.error);
+  }
+
+  run.finishedAt = new Date().toISOString();
+  await kv.set(runKey(schedule.name), run);
+}
+
+/**
+ * Registers the enabled schedules with Deno.cron
+ * Throws if a cron expression is invalid, so a typo fails at startup.
+ */
+export function registerIndexSchedules(kv: Deno.Kv, request: ApiRequest) {
+  for (const schedule of SCHEDULES) {
+    const cron = getCron(schedule);
+    if (!cron) {
+      continue;
+    }
+
+    parseCron(cron);
+    Deno.cron(
+      `index-${schedule.name}`,
+      cron,
+      () => runSchedule(kv, schedule, cron, request),
+    );
+    console.log(`Registered index schedule ${schedule.name} (${cron})`);
+  }
+}
+
+/**
+ * All schedules with their last and next run
+ */
+export async function listIndexSchedules(
+  kv: Deno.Kv,
+): Promise<IndexSchedule[]> {
+  const runs = await kv.getMany<IndexScheduleRun[]>(
+    SCHEDULES.map((schedule) => runKey(schedule.name)),
+  );
+  const now = new Date();
+
+  return SCHEDULES.map((schedule, i) => {
+    const cron = getCron(schedule);
+    const nextRun = cron ? nextCronRun(parseCron(cron), now) : null;
+    return {
+      name: schedule.name,
+      description: schedule.description,
+      cron,
+      lastRun: runs[i].value,
+      nextRunAt: nextRun?.toISOString() ?? null,
+    };
+  });
+}
@@ -18,3 +18,31 @@ export async function openKv(): Promise<Deno.Kv> {
   // Otherwise treat it as a local file path
   return await Deno.openKv(kvPath);
 }
+
+/**
+ * Maximum number of KV mutations per atomic commit
+ */
+export const MAX_MUTATIONS = 500;
+
+/**
+ * Maximum number of keys per kv.getMany call
+ */
+const MAX_GET_MANY_KEYS = 10;
+
+/**
+ * Reads any number of keys, in batches of the keys kv.getMany accepts
+ *
+ * @returns The entries, in the order of the keys
+ */
+export async function getManyEntries<T>(
+  kv: Deno.Kv,
+  keys: Deno.KvKey[],
+): Promise<Deno.KvEntryMaybe<T>[]> {
+  const entries: Deno.KvEntryMaybe<T>[] = [];
+  for (let i = 0; i < keys.length; i += MAX_GET_MANY_KEYS) {
+    entries.push(
+      ...await kv.getMany<T[]>(keys.slice(i, i + MAX_GET_MANY_KEYS)),
+    );
+  }
+  return entries;
+}
@@ -0,0 +1,88 @@
+/**
+ * Member Cache
+ *
+ * Reads groups of people (party members, district representatives) from the
+ * people cache populated by the indexing endpoints.
+ */
+
+import type { Author } from "../types/api.ts";
+import type { PersonInformation } from "./person-normalizer.ts";
+
+/**
+ * Cached person with the data needed for group counts
+ */
+export interface CachedMember {
+  author: Author;
+  current: boolean;
+  authoredDocuments: Array<{ congress: number; documentKey: string }>;
+}
+
+/**
+ * Reads people from the cache, sorted by name
+ * People whose information is no longer cached are skipped.
+ */
+export async function getCachedMembers(
+  kv: Deno.Kv,
+  personIds: string[],
+): Promise<CachedMember[]> {
+  const members = await Promise.all(personIds.map(async (personId) => {
+    const [informationEntry, membershipEntry, authoredEntry] = await kv
+      .getMany<
+        [
+          PersonInformation,
+          number[],
+          Array<{ congress: number; documentKey: string }>,
+        ]
+      >([
+        ["people", "byPersonId", personId, "information"],
+        ["people", "byPersonId", personId, "membership"],
+        ["people", "byPersonId", personId, "authoredDocuments"],
+      ]);
+
+    const info = informationEntry.value;
+    if (!info) {
+      return null;
+    }
+
+    return {
+      author: {
+        personId,
+        id: info.id,
+        lastName: info.lastName,
+        firstName: info.firstName,
+        middleName: info.middleName,
+        suffix: info.suffix,
+        nickName: info.nickName,
+        congresses: membershipEntry.value || [],
+      },
+      current: info.current ?? false,
+      authoredDocuments: authoredEntry.value || [],
+    };
+  }));
+
+  return members
+    .filter((member): member is CachedMember => member !== null)
+    .sort((a, b) =>
+      a.author.lastName.localeCompare(b.author.lastName) ||
+      a.author.firstName.localeCompare(b.author.firstName)
+    );
+}
+
+/**
+ * Counts distinct documents principally authored by the members,
+ * optionally in one congress
+ */
+export function countAuthoredDocuments(
+  members: CachedMember[],
+  congress?: number,
+): number {
+  const documents = new Set<string>();
+  for (const member of members) {
+    for (const document of member.authoredDocuments) {
+      if (congress === undefined || document.congress === congress) {
+        documents.add(`${document.congress}/${document.documentKey}`);
+      }
+    }
+  }
+  return documents.size;
+}
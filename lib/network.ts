@@ -0,0 +1,465 @@
+/**
+ * Co-authorship Network
+ *
+ * Builds a weighted, undirected person-to-person graph of a congress from the
+ * document authorship cache:
+ * - ["congresses", congress, documentKey, "authors", personId] -> true
+ * - ["congresses", congress, documentKey, "coAuthors", personId] -> true
+ *
+ * Two people are connected when they authored or co-authored the same
+ * document; the edge weight is the number of documents they share.
+ * The graph can be serialized as JSON Graph, GraphML or GEXF (for Gephi).
+ *
+ * The collaborators of each person are precomputed per congress by
+ * POST /api/index/congresses/collaborators:
+ * - ["collaborators", personId, congress] -> CongressCollaborator[]
+ */
+
+import type { PersonInformation } from "./person-normalizer.ts";
+import { normalizeParty } from "./party-normalizer.ts";
+import { parseDistrict } from "./district-normalizer.ts";
+import { escapeXml } from "./xml.ts";
+import { getManyEntries, MAX_MUTATIONS } from "./kv.ts";
+
+export interface NetworkNode {
+  personId: string;
+  label: string;
+  party: string | null;
+  district: string | null;
+  regionId: string | null;
+  /** Documents principally authored in the congress */
+  authoredDocuments: number;
+  /** Documents co-authored in the congress */
+  coAuthoredDocuments: number;
+}
+
+export interface NetworkEdge {
+  source: string;
+  target: string;
+  /** Number of documents both people authored or co-authored */
+  weight: number;
+}
+
+export interface Network {
+  congress: number;
+  documents: number;
+  nodes: NetworkNode[];
+  edges: NetworkEdge[];
+}
+
+export type NetworkFormat = "json" | "graphml" | "gexf";
+
+/**
+ * Content types of the serialized formats
+ */
+export const NETWORK_CONTENT_TYPES: Record<NetworkFormat, string> = {
+  json: "application/json",
+  graphml: "application/graphml+xml",
+  gexf: "application/gexf+xml",
+};
+
+/**
+ * Builds the co-authorship network of a congress
+ *
+ * @param minWeight - Edges sharing fewer documents are left out. People
+ *   without any remaining edge are still included as nodes.
+ */
+export async function buildCoAuthorshipNetwork(
+  kv: Deno.Kv,
+  congress: number,
+  minWeight: number = 1,
+): Promise<Network> {
+  // documentKey -> personIds of its authors and co-authors
+  const documents = new Map<string, Set<string>>();
+  const authored = new Map<string, number>();
+  const coAuthored = new Map<string, number>();
+
+  for await (const entry of kv.list({ prefix: ["congresses", congress] })) {
+    const role = entry.key[3];
+    if ((role !== "authors" && role !== "coAuthors") || entry.value !== true) {
+      continue;
+    }
+
+    const documentKey = entry.key[2] as string;
+    const personId = entry.key[4] as string;
+    const people = documents.get(documentKey) ?? new Set<string>();
+    people.add(personId);
+    documents.set(documentKey, people);
+
+    const counts = role === "authors" ? authored : coAuthored;
+    counts.set(personId, (counts.get(personId) ?? 0) + 1);
+  }
+
+  const weights = new Map<string, number>();
+  for (const people of documents.values()) {
+    const sorted = [...people].sort();
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const pair = `${sorted[i]}\u0000${sorted[j]}`;
+        weights.set(pair, (weights.get(pair) ?? 0) + 1);
+      }
+    }
+  }
+
+  const edges: NetworkEdge[] = [];
+  for (const [pair, weight] of weights) {
+    if (weight >= minWeight) {
+      const [source, target] = pair.split("\u0000");
+      edges.push({ source, target, weight });
+    }
+  }
+  edges.sort((a, b) =>
+    a.source.localeCompare(b.source) || a.target.localeCompare(b.target)
+  );
+
+  const personIds = [...new Set([...authored.keys(), ...coAuthored.keys()])]
+    .sort();
+  const entries = await getManyEntries<PersonInformation>(
+    kv,
+    personIds.map((
+      personId,
+    ) => ["people", "byPersonId", personId, "information"]),
+  );
+
+  const nodes: NetworkNode[] = entries.map((entry, index) => {
+    const personId = personIds[index];
+    const info = entry.value;
+    const district = parseDistrict(info?.district);
+    return {
+      personId,
+      label: info
+        ? [info.firstName, info.lastName, info.suffix].filter(Boolean).join(" ")
+        : personId,
+      party: normalizeParty(info?.partyAffiliation)?.name ?? null,
+      district: district?.name ?? null,
+      regionId: district?.regionId ?? null,
+      authoredDocuments: authored.get(personId) ?? 0,
+      coAuthoredDocuments: coAuthored.get(personId) ?? 0,
+    };
+  });
+
+  return { congress, documents: documents.size, nodes, edges };
+}
+
+/**
+ * Serializes a network as a JSON Graph Format (v2) document
+ * https://jsongraphformat.info/
+ */
+export function toJsonGraph(network: Network) {
+  return {
+    graph: {
+      id: `congress-${network.congress}`,
+      type: "co-authorship",
+      label: `Co-authorship network of Congress ${network.congress}`,
+      directed: false,
+      metadata: {
+        congress: network.congress,
+        documents: network.documents,
+      },
+      nodes: Object.fromEntries(
+        network.nodes.map(({ personId, label, ...metadata }) => [
+          personId,
+          { label, metadata },
+        ]),
+      ),
+      edges: network.edges.map(({ source, target, weight }) => ({
+        source,
+        target,
+        relation: "co-authored",
+        metadata: { weight },
+      })),
+    },
+  };
+}
+
+/**
+ * Node attributes written to GraphML and GEXF, with their XML types
+ */
+const NODE_ATTRIBUTES = [
+  ["party", "string"],
+  ["district", "string"],
+  ["regionId", "string"],
+  ["authoredDocuments", "int"],
+  ["coAuthoredDocuments", "int"],
+] as const;
+
+/**
+ * Serializes a network as GraphML
+ * http://graphml.graphdrawing.org/
+ */
+export function toGraphML(network: Network): string {
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<graphml xmlns="http://graphml.graphdrawing.org/xmlns">`,
+    `  <key id="label" for="node" attr.name="label" attr.type="string"/>`,
+    ...NODE_ATTRIBUTES.map(([name, type]) =>
+      `  <key id="${name}" for="node" attr.name="${name}" attr.type="${type}"/>`
+    ),
+    `  <key id="weight" for="edge" attr.name="weight" attr.type="int"/>`,
+    `  <graph id="congress-${network.congress}" edgedefault="undirected">`,
+  ];
+
+  for (const node of network.nodes) {
+    lines.push(`    <node id="${escapeXml(node.personId)}">`);
+    lines.push(`      <data key="label">${escapeXml(node.label)}</data>`);
+    for (const [name] of NODE_ATTRIBUTES) {
+      const value = node[name];
+      if (value !== null) {
+        lines.push(`      <data key="${name}">${escapeXml(value)}</data>`);
+      }
+    }
+    lines.push(`    </node>`);
+  }
+
+  network.edges.forEach((edge, index) => {
+    lines.push(
+      `    <edge id="e${index}" source="${escapeXml(edge.source)}" target="${
+        escapeXml(edge.target)
+      }">`,
+      `      <data key="weight">${edge.weight}</data>`,
+      `    </edge>`,
+    );
+  });
+
+  lines.push(`  </graph>`, `</graphml>`, "");
+  return lines.join("\n");
+}
+
+/**
+ * Serializes a network as GEXF 1.3, the native format of Gephi
+ * https://gexf.net/
+ */
+export function toGexf(network: Network): string {
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gexf xmlns="http://gexf.net/1.3" version="1.3">`,
+    `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}">`,
+    `    <creator>Better HREP API</creator>`,
+    `    <description>Co-authorship network of Congress ${network.congress}</description>`,
+    `  </meta>`,
+    `  <graph defaultedgetype="undirected" mode="static">`,
+    `    <attributes class="node">`,
+    ...NODE_ATTRIBUTES.map(([name, type]) =>
+      `      <attribute id="${name}" title="${name}" type="${
+        type === "int" ? "integer" : type
+      }"/>`
+    ),
+    `    </attributes>`,
+    `    <nodes>`,
+  ];
+
+  for (const node of network.nodes) {
+    lines.push(
+      `      <node id="${escapeXml(node.personId)}" label="${
+        escapeXml(node.label)
+      }">`,
+      `        <attvalues>`,
+    );
+    for (const [name] of NODE_ATTRIBUTES) {
+      const value = node[name];
+      if (value !== null) {
+        lines.push(
+          `          <attvalue for="${name}" value="${escapeXml(value)}"/>`,
+        );
+      }
+    }
+    lines.push(`        </attvalues>`, `      </node>`);
+  }
+
+  lines.push(`    </nodes>`, `    <edges>`);
+  network.edges.forEach((edge, index) => {
+    lines.push(
+      `      <edge id="${index}" source="${escapeXml(edge.source)}" target="${
+        escapeXml(edge.target)
+      }" weight="${edge.weight}"/>`,
+    );
+  });
+  lines.push(`    </edges>`, `  </graph>`, `</gexf>`, "");
+  return lines.join("\n");
+}
+
+/**
+ * How often two people worked on the same documents
+ */
+export interface CollaborationCounts {
+  /** Documents both people authored or co-authored */
+  sharedDocuments: number;
+  /** Documents principally authored by the person, co-authored by the collaborator */
+  coAuthoredByCollaborator: number;
+  /** Documents principally authored by the collaborator, co-authored by the person */
+  coAuthoredByPerson: number;
+}
+
+export interface Collaboration extends CollaborationCounts {
+  personId: string;
+  byCongress: Array<CollaborationCounts & { congress: number }>;
+}
+
+function emptyCounts(): CollaborationCounts {
+  return {
+    sharedDocuments: 0,
+    coAuthoredByCollaborator: 0,
+    coAuthoredByPerson: 0,
+  };
+}
+
+/**
+ * A collaborator of a person in a congress, as stored by indexCollaborations
+ */
+interface CongressCollaborator extends CollaborationCounts {
+  personId: string;
+}
+
+function collaboratorsKey(personId: string, congress: number): Deno.KvKey {
+  return ["collaborators", personId, congress];
+}
+
+/**
+ * Precomputes the collaborators of every person of a congress from the
+ * document authorship cache, in one scan of the congress
+ * Stored at ["collaborators", personId, congress]; people who no longer
+ * collaborate with anyone in the congress are removed.
+ *
+ * @returns The number of people with collaborators
+ */
+export async function indexCollaborations(
+  kv: Deno.Kv,
+  congress: number,
+): Promise<number> {
+  // documentKey -> personId -> role
+  const documents = new Map<string, Map<string, "authors" | "coAuthors">>();
+  for await (const entry of kv.list({ prefix: ["congresses", congress] })) {
+    const role = entry.key[3];
+    if ((role !== "authors" && role !== "coAuthors") || entry.value !== true) {
+      continue;
+    }
+
+    const documentKey = entry.key[2] as string;
+    const personId = entry.key[4] as string;
+    const roles = documents.get(documentKey) ?? new Map();
+    // Principal authorship wins if a person is listed in both
+    if (role === "authors" || !roles.has(personId)) {
+      roles.set(personId, role);
+    }
+    documents.set(documentKey, roles);
+  }
+
+  // personId -> collaboratorId -> counts
+  const collaborations = new Map<string, Map<string, CollaborationCounts>>();
+  for (const roles of documents.values()) {
+    for (const [personId, personRole] of roles) {
+      const collaborators = collaborations.get(personId) ?? new Map();
+      for (const [collaboratorId, role] of roles) {
+        if (collaboratorId === personId) {
+          continue;
+        }
+
+        const counts: CollaborationCounts = collaborators.get(collaboratorId) ??
+          emptyCounts();
+        counts.sharedDocuments++;
+        if (personRole === "authors" && role === "coAuthors") {
+          counts.coAuthoredByCollaborator++;
+        }
+        if (personRole === "coAuthors" && role === "authors") {
+          counts.coAuthoredByPerson++;
+        }
+        collaborators.set(collaboratorId, counts);
+      }
+      if (collaborators.size > 0) {
+        collaborations.set(personId, collaborators);
+      }
+    }
+  }
+
+  const mutations: Array<(atomic: Deno.AtomicOperation) => void> = [];
+  for await (const entry of kv.list({ prefix: ["collaborators"] })) {
+    const personId = entry.key[1] as string;
+    if (entry.key[2] === congress && !collaborations.has(personId)) {
+      mutations.push((atomic) => atomic.delete(entry.key));
+    }
+  }
+  for (const [personId, collaborators] of collaborations) {
+    const value: CongressCollaborator[] = [...collaborators].map((
+      [collaboratorId, counts],
+    ) => ({ personId: collaboratorId, ...counts }));
+    mutations.push((atomic) =>
+      atomic.set(collaboratorsKey(personId, congress), value)
+    );
+  }
+
+  for (let i = 0; i < mutations.length; i += MAX_MUTATIONS) {
+    const atomic = kv.atomic();
+    for (const mutate of mutations.slice(i, i + MAX_MUTATIONS)) {
+      mutate(atomic);
+    }
+    await atomic.commit();
+  }
+
+  return collaborations.size;
+}
+
+/**
+ * Lists the people who authored or co-authored documents with a person,
+ * most frequent collaborators first
+ *
+ * Reads the collaborations precomputed by indexCollaborations: one entry per
+ * congress, so a request does not scan the documents of the person.
+ */
+export async function findCollaborators(
+  kv: Deno.Kv,
+  personId: string,
+  congress?: number,
+): Promise<Collaboration[]> {
+  const entries: Array<{ congress: number; value: CongressCollaborator[] }> =
+    [];
+  if (congress === undefined) {
+    for await (
+      const entry of kv.list<CongressCollaborator[]>({
+        prefix: ["collaborators", personId],
+      })
+    ) {
+      entries.push({ congress: entry.key[2] as number, value: entry.value });
+    }
+  } else {
+    const entry = await kv.get<CongressCollaborator[]>(
+      collaboratorsKey(personId, congress),
+    );
+    if (entry.value) {
+      entries.push({ congress, value: entry.value });
+    }
+  }
+
+  // collaboratorId -> congress -> counts
+  const collaborations = new Map<string, Map<number, CollaborationCounts>>();
+  for (const entry of entries) {
+    for (const { personId: collaboratorId, ...counts } of entry.value) {
+      const byCongress = collaborations.get(collaboratorId) ?? new Map();
+      byCongress.set(entry.congress, counts);
+      collaborations.set(collaboratorId, byCongress);
+    }
+  }
+
+  const result: Collaboration[] = [];
+  for (const [collaboratorId, byCongress] of collaborations) {
+    const total = emptyCounts();
+    for (const counts of byCongress.values()) {
+      total.sharedDocuments += counts.sharedDocuments;
+      total.coAuthoredByCollaborator += counts.coAuthoredByCollaborator;
+      total.coAuthoredByPerson += counts.coAuthoredByPerson;
+    }
+    result.push({
+      personId: collaboratorId,
+      ...total,
+      byCongress: [...byCongress.entries()]
+        .sort(([a], [b]) => b - a)
+        .map(([congress, counts]) => ({ congress, ...counts })),
+    });
+  }
+
+  return result.sort((a, b) =>
+    b.sharedDocuments - a.sharedDocuments ||
+    b.coAuthoredByCollaborator + b.coAuthoredByPerson -
+      (a.coAuthoredByCollaborator + a.coAuthoredByPerson) ||
+    a.personId.localeCompare(b.personId)
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * Party Normalizer
+ *
+ * The source API returns party affiliations as free text, with several
+ * spellings for the same party (e.g. "LAKAS-CMD", "Lakas-CMD" and
+ * "LAKAS CHRISTIAN MUSLIM DEMOCRATS"). These helpers map them to one party.
+ *
+ * Party membership is cached by POST /api/index/people/information:
+ * - ["parties", "byPartyId", partyId, "information"] -> PartyInformation
+ * - ["parties", "byPartyId", partyId, "variants", variant] -> true
+ * - ["parties", "byPartyId", partyId, "members", personId] -> true
+ */
+
+export interface PartyInformation {
+  partyId: string;
+  name: string;
+  abbreviation: string | null;
+}
+
+/**
+ * Known parties, keyed by their normalized spellings (see partyKey)
+ */
+const KNOWN_PARTIES: Array<PartyInformation & { aliases: string[] }> = [
+  {
+    partyId: "lakas-cmd",
+    name: "Lakas–Christian Muslim Democrats",
+    abbreviation: "LAKAS-CMD",
+    aliases: ["LAKAS CMD", "LAKAS", "LAKAS CHRISTIAN MUSLIM DEMOCRATS"],
+  },
+  {
+    partyId: "npc",
+    name: "Nationalist People's Coalition",
+    abbreviation: "NPC",
+    aliases: ["NPC", "NATIONALIST PEOPLES COALITION"],
+  },
+  {
+    partyId: "lp",
+    name: "Liberal Party",
+    abbreviation: "LP",
+    aliases: ["LP", "LIBERAL", "LIBERAL PARTY"],
+  },
+  {
+    partyId: "pdp-laban",
+    name: "Partido Demokratiko Pilipino–Lakas ng Bayan",
+    abbreviation: "PDP-LABAN",
+    aliases: [
+      "PDP LABAN",
+      "PDP",
+      "PARTIDO DEMOKRATIKO PILIPINO LAKAS NG BAYAN",
+    ],
+  },
+  {
+    partyId: "np",
+    name: "Nacionalista Party",
+    abbreviation: "NP",
+    aliases: ["NP", "NACIONALISTA", "NACIONALISTA PARTY"],
+  },
+  {
+    partyId: "nup",
+    name: "National Unity Party",
+    abbreviation: "NUP",
+    aliases: ["NUP", "NATIONAL UNITY PARTY"],
+  },
+  {
+    partyId: "pfp",
+    name: "Partido Federal ng Pilipinas",
+    abbreviation: "PFP",
+    aliases: ["PFP", "PARTIDO FEDERAL NG PILIPINAS"],
+  },
+  {
+    partyId: "independent",
+    name: "Independent",
+    abbreviation: null,
+    aliases: ["IND", "INDEPENDENT"],
+  },
+];
+
+const PARTIES_BY_ALIAS = new Map(
+  KNOWN_PARTIES.flatMap(({ aliases, ...party }) =>
+    aliases.map((alias) => [alias, party] as const)
+  ),
+);
+
+/**
+ * Normalizes a party name for lookups: uppercase, no punctuation
+ * e.g. "Nationalist People's Coalition" → "NATIONALIST PEOPLES COALITION"
+ */
+function partyKey(name: string): string {
+  return name
+    .toUpperCase()
+    .replace(/['’.]/g, "")
+    .replace(/[^A-Z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Maps a party affiliation from the source API to a party
+ * Unknown parties get an ID derived from their name, so spellings that only
+ * differ in case or punctuation are still merged.
+ *
+ * @returns The party, or null if the affiliation is empty
+ */
+export function normalizeParty(
+  affiliation: string | null | undefined,
+): PartyInformation | null {
+  const key = affiliation ? partyKey(affiliation) : "";
+  if (!key) {
+    return null;
+  }
+
+  const known = PARTIES_BY_ALIAS.get(key);
+  if (known) {
+    return known;
+  }
+
+  return {
+    partyId: key.toLowerCase().replace(/ /g, "-"),
+    name: affiliation!.trim().replace(/\s+/g, " "),
+    abbreviation: null,
+  };
+}
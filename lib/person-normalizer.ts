@@ -0,0 +1,83 @@
+/**
+ * Person Normalizer
+ *
+ * Helpers to clean up house member data from the source API before it is
+ * cached and returned by our API.
+ */
+
+import type { Person } from "../types/api.ts";
+import type { HouseMemberItem } from "../types/source.ts";
+
+/**
+ * Representative profile fields of a person
+ */
+export type PersonProfile = Pick<
+  Person,
+  | "district"
+  | "type"
+  | "partyAffiliation"
+  | "email"
+  | "website"
+  | "room"
+  | "directLine"
+  | "chiefOfStaff"
+  | "photo"
+  | "current"
+>;
+
+/**
+ * Cached person information, stored at ["people", "byPersonId", personId, "information"]
+ * Entries indexed before profile fields were added only have the name fields.
+ */
+export type PersonInformation =
+  & Pick<
+    Person,
+    "id" | "lastName" | "firstName" | "middleName" | "suffix" | "nickName"
+  >
+  & Partial<PersonProfile>;
+
+/**
+ * Trims a source API string, treating empty strings as missing
+ */
+function clean(value: string | null | undefined): string | null {
+  return value?.trim() || null;
+}
+
+/**
+ * Extracts the representative profile from a source API house member
+ */
+export function transformPersonProfile(member: HouseMemberItem): PersonProfile {
+  return {
+    district: clean(member.district),
+    type: clean(member.type),
+    partyAffiliation: clean(member.party_affilation_desc),
+    email: clean(member.email),
+    website: clean(member.website),
+    room: clean(member.room),
+    directLine: clean(member.directline),
+    chiefOfStaff: clean(member.chief_of_staff),
+    photo: clean(member.photo),
+    current: member.current ?? false,
+  };
+}
+
+/**
+ * Reads the representative profile from cached person information,
+ * defaulting fields that were not indexed yet
+ */
+export function profileFromInformation(
+  info: PersonInformation,
+): PersonProfile {
+  return {
+    district: info.district ?? null,
+    type: info.type ?? null,
+    partyAffiliation: info.partyAffiliation ?? null,
+    email: info.email ?? null,
+    website: info.website ?? null,
+    room: info.room ?? null,
+    directLine: info.directLine ?? null,
+    chiefOfStaff: info.chiefOfStaff ?? null,
+    photo: info.photo ?? null,
+    current: info.current ?? false,
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * Rate Limiting
+ *
+ * Limits how many API requests a client can make, so one scraper cannot
+ * exhaust the budget of upstream requests. Each client has a token bucket in
+ * KV that holds up to a minute of requests and refills continuously:
+ * - anonymous: one bucket per IP address, RATE_LIMIT_ANONYMOUS requests per minute
+ * - keyed: one bucket per API key, RATE_LIMIT_KEYED requests per minute
+ *
+ * Requests with an invalid API key are limited as anonymous. Web pages
+ * request the API in-process without a key, so page views are limited per IP
+ * address of the visitor. Requests made in-process with the internal API key
+ * (index jobs and schedules) are not limited.
+ *
+ * Responses carry RateLimit-Policy, RateLimit-Limit, RateLimit-Remaining and
+ * RateLimit-Reset (seconds until the bucket is full again) headers. Requests
+ * over the limit get a 429 with Retry-After.
+ *
+ * KV layout:
+ * - ["rateLimits", "ip", address] -> RateLimitBucket
+ * - ["rateLimits", "key", keyId] -> RateLimitBucket
+ */
+
+import { z } from "@hono/zod-openapi";
+import type { Context, MiddlewareHandler } from "hono";
+import { openKv } from "./kv.ts";
+import { getBearerToken, isInternalApiKey, verifyApiKey } from "./api-keys.ts";
+
+const RATE_LIMIT = Deno.env.get("RATE_LIMIT") ?? "on";
+
+export type RateLimitTier = "anonymous" | "keyed";
+
+/**
+ * Requests per minute of each tier
+ */
+const TIER_LIMITS: Record<RateLimitTier, number> = {
+  anonymous: parseInt(Deno.env.get("RATE_LIMIT_ANONYMOUS") ?? "60", 10),
+  keyed: parseInt(Deno.env.get("RATE_LIMIT_KEYED") ?? "600", 10),
+};
+
+const WINDOW_MS = 60_000;
+
+interface RateLimitBucket {
+  tokens: number;
+  /** When the tokens were last counted, in milliseconds since the epoch */
+  updatedAt: number;
+}
+
+interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the bucket is full again */
+  resetSeconds: number;
+  /** Seconds until the next request is allowed */
+  retryAfterSeconds: number;
+}
+
+/**
+ * IP address of the client, from the connection of Deno.serve
+ */
+function getClientAddress(c: Context): string {
+  const remoteAddr = (c.env as Deno.ServeHandlerInfo | undefined)?.remoteAddr;
+  return remoteAddr && "hostname" in remoteAddr
+    ? remoteAddr.hostname
+    : "unknown";
+}
+
+/**
+ * Takes a token from a bucket, if there is one left
+ */
+async function takeToken(
+  kv: Deno.Kv,
+  key: Deno.KvKey,
+  limit: number,
+): Promise<RateLimitResult> {
+  const tokensPerMs = limit / WINDOW_MS;
+
+  // Requests of a client can arrive concurrently, so retry on conflicts
+  while (true) {
+    const entry = await kv.get<RateLimitBucket>(key);
+    const now = Date.now();
+    const available = entry.value
+      ? Math.min(
+        limit,
+        entry.value.tokens + (now - entry.value.updatedAt) * tokensPerMs,
+      )
+      : limit;
+
+    const allowed = available >= 1;
+    const tokens = allowed ? available - 1 : available;
+    const result: RateLimitResult = {
+      allowed,
+      limit,
+      remaining: Math.floor(tokens),
+      resetSeconds: Math.ceil((limit - tokens) / tokensPerMs / 1000),
+      retryAfterSeconds: allowed
+        ? 0
+        : Math.ceil((1 - tokens) / tokensPerMs / 1000),
+    };
+
+    if (!allowed) {
+      return result;
+    }
+
+    // A bucket left alone for a minute is full, so it can expire
+    const committed = await kv.atomic()
+      .check(entry)
+      .set(key, { tokens, updatedAt: now }, { expireIn: WINDOW_MS })
+      .commit();
+    if (committed.ok) {
+      return result;
+    }
+  }
+}
+
+/**
+ * Middleware that rate limits API requests per IP address or API key
+ */
+export function rateLimit(): MiddlewareHandler {
+  return async (c, next) => {
+    if (RATE_LIMIT === "off") {
+      return await next();
+    }
+
+    const kv = await openKv();
+    const token = getBearerToken(c.req.header("Authorization"));
+    const apiKey = token ? await verifyApiKey(kv, token) : null;
+
+    if (apiKey && isInternalApiKey(apiKey)) {
+      kv.close();
+      return await next();
+    }
+
+    const tier: RateLimitTier = apiKey ? "keyed" : "anonymous";
+    const key: Deno.KvKey = apiKey
+      ? ["rateLimits", "key", apiKey.keyId]
+      : ["rateLimits", "ip", getClientAddress(c)];
+    const result = await takeToken(kv, key, TIER_LIMITS[tier]);
+    kv.close();
+
+    const headers = {
+      "RateLimit-Policy": `${result.limit};w=${WINDOW_MS / 1000}`,
+      "RateLimit-Limit": result.limit.toString(),
+      "RateLimit-Remaining": result.remaining.toString(),
+      "RateLimit-Reset": result.resetSeconds.toString(),
+    };
+
+    if (!result.allowed) {
+      return c.json(
+        {
+          error:
+            `Too many requests - The ${tier} limit is ${result.limit} requests per minute`,
+        },
+        429,
+        { ...headers, "Retry-After": result.retryAfterSeconds.toString() },
+      );
+    }
+
+    await next();
+    for (const [name, value] of Object.entries(headers)) {
+      c.header(name, value);
+    }
+  };
+}
+
+/**
+ * OpenAPI response of the API endpoints when the rate limit is exceeded
+ */
+export const rateLimitResponses = {
+  429: {
+    content: {
+      "application/json": {
+        schema: z.object({
+          error: z.string().openapi({
+            example:
+              "Too many requests - The anonymous limit is 60 requests per minute",
+          }),
+        }),
+      },
+    },
+    headers: {
+      "Retry-After": {
+        schema: { type: "integer" as const },
+        description: "Seconds until the next request is allowed",
+      },
+      "RateLimit-Limit": {
+        schema: { type: "integer" as const },
+        description: "Requests per minute of the client's tier",
+      },
+      "RateLimit-Remaining": {
+        schema: { type: "integer" as const },
+        description: "Requests left",
+      },
+      "RateLimit-Reset": {
+        schema: { type: "integer" as const },
+        description: "Seconds until the limit is fully restored",
+      },
+    },
+    description:
+      "Too many requests - The rate limit of the client's tier was exceeded (60 requests per minute per IP address without an API key, 600 per minute per API key by default)",
+  },
+};
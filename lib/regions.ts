@@ -0,0 +1,330 @@
+/**
+ * Philippine Regions
+ *
+ * Offline mapping of provinces and the cities that elect their own
+ * representatives to administrative regions, so districts can be grouped by
+ * geography without calling an external service.
+ */
+
+export interface RegionInformation {
+  regionId: string;
+  name: string;
+  designation: string;
+}
+
+/**
+ * Regions with their provinces and cities, in the official order
+ * Sulu is listed under BARMM, where its current representatives were elected.
+ */
+const REGIONS: Array<
+  RegionInformation & { provinces: string[]; cities: string[] }
+> = [
+  {
+    regionId: "ncr",
+    name: "National Capital Region",
+    designation: "NCR",
+    provinces: [],
+    cities: [
+      "Caloocan City",
+      "Las Piñas City",
+      "Makati City",
+      "Malabon City",
+      "Mandaluyong City",
+      "Manila",
+      "Marikina City",
+      "Muntinlupa City",
+      "Navotas City",
+      "Parañaque City",
+      "Pasay City",
+      "Pasig City",
+      "Pateros",
+      "Quezon City",
+      "San Juan City",
+      "Taguig City",
+      "Valenzuela City",
+    ],
+  },
+  {
+    regionId: "car",
+    name: "Cordillera Administrative Region",
+    designation: "CAR",
+    provinces: [
+      "Abra",
+      "Apayao",
+      "Benguet",
+      "Ifugao",
+      "Kalinga",
+      "Mountain Province",
+    ],
+    cities: ["Baguio City"],
+  },
+  {
+    regionId: "region-1",
+    name: "Ilocos Region",
+    designation: "Region I",
+    provinces: ["Ilocos Norte", "Ilocos Sur", "La Union", "Pangasinan"],
+    cities: [],
+  },
+  {
+    regionId: "region-2",
+    name: "Cagayan Valley",
+    designation: "Region II",
+    provinces: ["Batanes", "Cagayan", "Isabela", "Nueva Vizcaya", "Quirino"],
+    cities: ["Santiago City"],
+  },
+  {
+    regionId: "region-3",
+    name: "Central Luzon",
+    designation: "Region III",
+    provinces: [
+      "Aurora",
+      "Bataan",
+      "Bulacan",
+      "Nueva Ecija",
+      "Pampanga",
+      "Tarlac",
+      "Zambales",
+    ],
+    cities: ["Angeles City", "Olongapo City", "San Jose del Monte City"],
+  },
+  {
+    regionId: "region-4a",
+    name: "CALABARZON",
+    designation: "Region IV-A",
+    provinces: ["Batangas", "Cavite", "Laguna", "Quezon", "Rizal"],
+    cities: [
+      "Antipolo City",
+      "Bacoor City",
+      "Batangas City",
+      "Biñan City",
+      "Calamba City",
+      "Dasmariñas City",
+      "Imus City",
+      "Lipa City",
+      "Lucena City",
+      "Santa Rosa City",
+    ],
+  },
+  {
+    regionId: "mimaropa",
+    name: "MIMAROPA",
+    designation: "Region IV-B",
+    provinces: [
+      "Marinduque",
+      "Occidental Mindoro",
+      "Oriental Mindoro",
+      "Palawan",
+      "Romblon",
+    ],
+    cities: ["Puerto Princesa City"],
+  },
+  {
+    regionId: "region-5",
+    name: "Bicol Region",
+    designation: "Region V",
+    provinces: [
+      "Albay",
+      "Camarines Norte",
+      "Camarines Sur",
+      "Catanduanes",
+      "Masbate",
+      "Sorsogon",
+    ],
+    cities: ["Legazpi City", "Naga City"],
+  },
+  {
+    regionId: "region-6",
+    name: "Western Visayas",
+    designation: "Region VI",
+    provinces: ["Aklan", "Antique", "Capiz", "Guimaras", "Iloilo"],
+    cities: ["Iloilo City"],
+  },
+  {
+    regionId: "nir",
+    name: "Negros Island Region",
+    designation: "NIR",
+    provinces: ["Negros Occidental", "Negros Oriental", "Siquijor"],
+    cities: ["Bacolod City"],
+  },
+  {
+    regionId: "region-7",
+    name: "Central Visayas",
+    designation: "Region VII",
+    provinces: ["Bohol", "Cebu"],
+    cities: ["Cebu City", "Lapu-Lapu City", "Mandaue City"],
+  },
+  {
+    regionId: "region-8",
+    name: "Eastern Visayas",
+    designation: "Region VIII",
+    provinces: [
+      "Biliran",
+      "Eastern Samar",
+      "Leyte",
+      "Northern Samar",
+      "Samar",
+      "Southern Leyte",
+    ],
+    cities: ["Tacloban City"],
+  },
+  {
+    regionId: "region-9",
+    name: "Zamboanga Peninsula",
+    designation: "Region IX",
+    provinces: [
+      "Zamboanga del Norte",
+      "Zamboanga del Sur",
+      "Zamboanga Sibugay",
+    ],
+    cities: ["Isabela City", "Zamboanga City"],
+  },
+  {
+    regionId: "region-10",
+    name: "Northern Mindanao",
+    designation: "Region X",
+    provinces: [
+      "Bukidnon",
+      "Camiguin",
+      "Lanao del Norte",
+      "Misamis Occidental",
+      "Misamis Oriental",
+    ],
+    cities: ["Cagayan de Oro City", "Iligan City"],
+  },
+  {
+    regionId: "region-11",
+    name: "Davao Region",
+    designation: "Region XI",
+    provinces: [
+      "Davao de Oro",
+      "Davao del Norte",
+      "Davao del Sur",
+      "Davao Occidental",
+      "Davao Oriental",
+    ],
+    cities: ["Davao City"],
+  },
+  {
+    regionId: "region-12",
+    name: "SOCCSKSARGEN",
+    designation: "Region XII",
+    provinces: ["Cotabato", "Sarangani", "South Cotabato", "Sultan Kudarat"],
+    cities: ["General Santos City"],
+  },
+  {
+    regionId: "region-13",
+    name: "Caraga",
+    designation: "Region XIII",
+    provinces: [
+      "Agusan del Norte",
+      "Agusan del Sur",
+      "Dinagat Islands",
+      "Surigao del Norte",
+      "Surigao del Sur",
+    ],
+    cities: ["Butuan City"],
+  },
+  {
+    regionId: "barmm",
+    name: "Bangsamoro Autonomous Region in Muslim Mindanao",
+    designation: "BARMM",
+    provinces: [
+      "Basilan",
+      "Lanao del Sur",
+      "Maguindanao del Norte",
+      "Maguindanao del Sur",
+      "Sulu",
+      "Tawi-Tawi",
+    ],
+    cities: ["Cotabato City"],
+  },
+];
+
+/**
+ * Former or alternative province names used in older congresses
+ */
+const PROVINCE_ALIASES: Record<string, string> = {
+  "COMPOSTELA VALLEY": "Davao de Oro",
+  "MAGUINDANAO": "Maguindanao del Sur",
+  "MT PROVINCE": "Mountain Province",
+  "NORTH COTABATO": "Cotabato",
+  "WESTERN SAMAR": "Samar",
+};
+
+export type LocationKind = "province" | "city";
+
+export interface Location {
+  name: string;
+  kind: LocationKind;
+  regionId: string;
+}
+
+/**
+ * Normalizes a place name for lookups: uppercase, no diacritics or punctuation
+ * e.g. "City of Parañaque" → "PARANAQUE CITY"
+ */
+function locationKey(name: string): string {
+  const key = name
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toUpperCase()
+    .replace(/\./g, "")
+    .replace(/[^A-Z0-9-]+/g, " ")
+    .trim();
+  const cityOf = key.match(/^CITY OF (.+)$/);
+  return cityOf ? `${cityOf[1]} CITY` : key;
+}
+
+const LOCATIONS = new Map<string, Location>();
+for (const region of REGIONS) {
+  for (const name of region.provinces) {
+    LOCATIONS.set(locationKey(name), {
+      name,
+      kind: "province",
+      regionId: region.regionId,
+    });
+  }
+  for (const name of region.cities) {
+    LOCATIONS.set(locationKey(name), {
+      name,
+      kind: "city",
+      regionId: region.regionId,
+    });
+  }
+}
+for (const [alias, name] of Object.entries(PROVINCE_ALIASES)) {
+  LOCATIONS.set(alias, LOCATIONS.get(locationKey(name))!);
+}
+
+/**
+ * Looks up a province or city, with or without the "City" suffix
+ * e.g. "Taguig" → Taguig City, "QUEZON" → Quezon (province),
+ * "Quezon City" → Quezon City
+ *
+ * @returns The location, or null if it is not in the mapping
+ */
+export function findLocation(name: string): Location | null {
+  const key = locationKey(name);
+  return LOCATIONS.get(key) ??
+    LOCATIONS.get(`${key} CITY`) ??
+    LOCATIONS.get(key.replace(/ CITY$/, "")) ??
+    null;
+}
+
+/**
+ * Returns all regions, in the official order
+ */
+export function listRegions(): RegionInformation[] {
+  return REGIONS.map(({ regionId, name, designation }) => ({
+    regionId,
+    name,
+    designation,
+  }));
+}
+
+/**
+ * Returns a region by ID, or null if it does not exist
+ */
+export function getRegion(regionId: string): RegionInformation | null {
+  return listRegions().find((region) => region.regionId === regionId) ?? null;
+}
@@ -0,0 +1,409 @@
+/**
+ * Full-text Search Index
+ *
+ * Inverted index over document titles and abstracts, stored in Deno KV:
+ * - ["search", "documents", congress, documentKey] -> SearchDocument
+ * - ["search", "terms", term, congress, documentKey] -> SearchPosting
+ * - ["search", "count"] -> number of indexed documents (Deno.KvU64)
+ *
+ * Documents are added by POST /api/index/documents/information.
+ */
+
+import { getManyEntries, MAX_MUTATIONS } from "./kv.ts";
+
+/**
+ * Fields that are indexed, with their weight in the ranking
+ */
+export const SEARCH_FIELD_WEIGHTS = {
+  titleShort: 3,
+  titleFull: 2,
+  abstract: 1,
+} as const;
+
+export type SearchField = keyof typeof SEARCH_FIELD_WEIGHTS;
+
+const SEARCH_FIELDS = Object.keys(SEARCH_FIELD_WEIGHTS) as SearchField[];
+
+/**
+ * Words that appear in nearly every bill title and carry no meaning for search
+ */
+const STOPWORDS = new Set([
+  "a",
+  "act",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "for",
+  "from",
+  "in",
+  "into",
+  "is",
+  "it",
+  "no",
+  "of",
+  "on",
+  "or",
+  "other",
+  "purposes",
+  "that",
+  "the",
+  "this",
+  "thereof",
+  "to",
+  "with",
+]);
+
+/**
+ * Indexed document as stored in KV
+ */
+export interface SearchDocument {
+  congress: number;
+  documentKey: string;
+  titleFull: string;
+  titleShort: string;
+  abstract: string;
+  dateFiled: string;
+  billType: string;
+  significance: string;
+  /** Distinct terms of the document, used to clean up postings on re-index */
+  terms: string[];
+}
+
+/**
+ * Term occurrence in a document. Carries the filterable fields so searches can
+ * be filtered and ranked without loading every matching document.
+ */
+export interface SearchPosting {
+  frequencies: Partial<Record<SearchField, number>>;
+  billType: string;
+  significance: string;
+  dateFiled: string;
+}
+
+export interface SearchOptions {
+  congress?: number;
+  billType?: string;
+  significance?: string;
+  page: number;
+  limit: number;
+}
+
+export interface SearchHit {
+  document: SearchDocument;
+  score: number;
+  matchedFields: SearchField[];
+  highlights: Record<SearchField, string>;
+}
+
+function normalizeWord(word: string): string {
+  return word
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase();
+}
+
+/**
+ * Splits text into normalized search terms (lowercase, no diacritics, no stopwords)
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const term = normalizeWord(match[0]);
+    if (term.length >= 2 && !STOPWORDS.has(term)) {
+      terms.push(term);
+    }
+  }
+  return terms;
+}
+
+/**
+ * Adds or replaces a document in the search index
+ */
+export async function indexDocumentForSearch(
+  kv: Deno.Kv,
+  document: Omit<SearchDocument, "terms">,
+) {
+  const documentKey = [
+    "search",
+    "documents",
+    document.congress,
+    document.documentKey,
+  ];
+
+  const postings = new Map<string, SearchPosting>();
+  for (const field of SEARCH_FIELDS) {
+    for (const term of tokenize(document[field])) {
+      const posting = postings.get(term) ?? {
+        frequencies: {},
+        billType: document.billType,
+        significance: document.significance,
+        dateFiled: document.dateFiled,
+      };
+      posting.frequencies[field] = (posting.frequencies[field] ?? 0) + 1;
+      postings.set(term, posting);
+    }
+  }
+
+  const existing = await kv.get<SearchDocument>(documentKey);
+  const staleTerms = (existing.value?.terms ?? []).filter((term) =>
+    !postings.has(term)
+  );
+
+  const mutations: Array<(atomic: Deno.AtomicOperation) => void> = [];
+  for (const term of staleTerms) {
+    mutations.push((atomic) =>
+      atomic.delete([
+        "search",
+        "terms",
+        term,
+        document.congress,
+        document.documentKey,
+      ])
+    );
+  }
+  for (const [term, posting] of postings) {
+    mutations.push((atomic) =>
+      atomic.set(
+        ["search", "terms", term, document.congress, document.documentKey],
+        posting,
+      )
+    );
+  }
+
+  for (let i = 0; i < mutations.length; i += MAX_MUTATIONS) {
+    const atomic = kv.atomic();
+    for (const mutate of mutations.slice(i, i + MAX_MUTATIONS)) {
+      mutate(atomic);
+    }
+    await atomic.commit();
+  }
+
+  // Write the document last, so its term list only references written postings
+  const atomic = kv.atomic().set(
+    documentKey,
+    {
+      ...document,
+      terms: [...postings.keys()],
+    } satisfies SearchDocument,
+  );
+  if (!existing.value) {
+    atomic.sum(["search", "count"], 1n);
+  }
+  await atomic.commit();
+}
+
+/**
+ * Inverse document frequency (BM25 variant, always positive)
+ */
+function idf(totalDocuments: number, documentFrequency: number): number {
+  return Math.log(
+    1 + (totalDocuments - documentFrequency + 0.5) / (documentFrequency + 0.5),
+  );
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Wraps words matching the query terms in <mark> tags
+ * The rest of the text is HTML-escaped
+ */
+export function highlight(text: string, terms: Set<string>): string {
+  let result = "";
+  let last = 0;
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    if (terms.has(normalizeWord(match[0]))) {
+      result += escapeHtml(text.slice(last, match.index));
+      result += `<mark>${escapeHtml(match[0])}</mark>`;
+      last = match.index + match[0].length;
+    }
+  }
+  return result + escapeHtml(text.slice(last));
+}
+
+/**
+ * Returns the part of a long text around the first matching word, highlighted
+ */
+function highlightSnippet(
+  text: string,
+  terms: Set<string>,
+  length: number = 240,
+): string {
+  if (text.length <= length) {
+    return highlight(text, terms);
+  }
+
+  let first = 0;
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    if (terms.has(normalizeWord(match[0]))) {
+      first = match.index;
+      break;
+    }
+  }
+
+  let start = Math.max(0, first - Math.floor(length / 3));
+  const end = Math.min(text.length, start + length);
+  start = Math.max(0, end - length);
+
+  // Avoid cutting words in half
+  const snippetStart = start > 0 ? text.indexOf(" ", start) + 1 || start : 0;
+  const snippetEnd = end < text.length
+    ? text.lastIndexOf(" ", end) > snippetStart
+      ? text.lastIndexOf(" ", end)
+      : end
+    : end;
+
+  return `${snippetStart > 0 ? "…" : ""}${
+    highlight(text.slice(snippetStart, snippetEnd), terms)
+  }${snippetEnd < text.length ? "…" : ""}`;
+}
+
+/**
+ * Searches indexed documents
+ *
+ * Every query term must appear in at least one indexed field. Results are
+ * ranked by a weighted BM25-style score (short title > full title > abstract),
+ * newest first on ties.
+ *
+ * @returns The matching documents for the requested page and the total count
+ */
+export async function searchDocuments(
+  kv: Deno.Kv,
+  query: string,
+  options: SearchOptions,
+): Promise<{ total: number; hits: SearchHit[] }> {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) {
+    return { total: 0, hits: [] };
+  }
+
+  const count = await kv.get<Deno.KvU64>(["search", "count"]);
+  const totalDocuments = Number(count.value?.value ?? 0n);
+
+  const candidates = new Map<
+    string,
+    {
+      congress: number;
+      documentKey: string;
+      dateFiled: string;
+      score: number;
+      matchedTerms: number;
+      matchedFields: Set<SearchField>;
+    }
+  >();
+
+  for (const term of terms) {
+    const postings: Array<{
+      congress: number;
+      documentKey: string;
+      posting: SearchPosting;
+    }> = [];
+
+    for await (
+      const entry of kv.list<SearchPosting>({
+        prefix: ["search", "terms", term],
+      })
+    ) {
+      postings.push({
+        congress: entry.key[3] as number,
+        documentKey: entry.key[4] as string,
+        posting: entry.value,
+      });
+    }
+
+    const termIdf = idf(
+      Math.max(totalDocuments, postings.length),
+      postings.length,
+    );
+
+    for (const { congress, documentKey, posting } of postings) {
+      if (options.congress !== undefined && congress !== options.congress) {
+        continue;
+      }
+      if (options.billType && posting.billType !== options.billType) {
+        continue;
+      }
+      if (
+        options.significance && posting.significance !== options.significance
+      ) {
+        continue;
+      }
+
+      const id = `${congress}/${documentKey}`;
+      const candidate = candidates.get(id) ?? {
+        congress,
+        documentKey,
+        dateFiled: posting.dateFiled,
+        score: 0,
+        matchedTerms: 0,
+        matchedFields: new Set<SearchField>(),
+      };
+
+      // Only documents that matched every previous term stay candidates
+      if (candidate.matchedTerms !== terms.indexOf(term)) {
+        continue;
+      }
+
+      for (const field of SEARCH_FIELDS) {
+        const frequency = posting.frequencies[field] ?? 0;
+        if (frequency > 0) {
+          // Saturate repeated terms, one extra mention adds less than the first
+          candidate.score += termIdf * SEARCH_FIELD_WEIGHTS[field] *
+            (frequency / (frequency + 1));
+          candidate.matchedFields.add(field);
+        }
+      }
+      candidate.matchedTerms++;
+      candidates.set(id, candidate);
+    }
+  }
+
+  const matches = [...candidates.values()]
+    .filter((candidate) => candidate.matchedTerms === terms.length)
+    .sort((a, b) =>
+      b.score - a.score || b.dateFiled.localeCompare(a.dateFiled) ||
+      b.congress - a.congress || a.documentKey.localeCompare(b.documentKey)
+    );
+
+  const start = options.page * options.limit;
+  const pageMatches = matches.slice(start, start + options.limit);
+
+  const termSet = new Set(terms);
+  const hits: SearchHit[] = [];
+
+  const entries = await getManyEntries<SearchDocument>(
+    kv,
+    pageMatches.map((
+      match,
+    ) => ["search", "documents", match.congress, match.documentKey]),
+  );
+
+  entries.forEach((entry, index) => {
+    if (!entry.value) {
+      return;
+    }
+    hits.push({
+      document: entry.value,
+      score: Math.round(pageMatches[index].score * 1000) / 1000,
+      matchedFields: SEARCH_FIELDS.filter((field) =>
+        pageMatches[index].matchedFields.has(field)
+      ),
+      highlights: {
+        titleShort: highlight(entry.value.titleShort, termSet),
+        titleFull: highlight(entry.value.titleFull, termSet),
+        abstract: highlightSnippet(entry.value.abstract, termSet),
+      },
+    });
+  });
+
+  return { total: matches.length, hits };
+}
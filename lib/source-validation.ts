@@ -0,0 +1,215 @@
+/**
+ * Source Response Validation
+ *
+ * Validates HREP API responses against the zod schemas in
+ * types/source-schemas.ts. Mismatches are recorded in a drift log in Deno KV
+ * (one entry per endpoint and field) so upstream changes are noticed before
+ * they surface as missing data in our responses. Fields added upstream are
+ * recorded too, with the issue "unrecognized_keys".
+ *
+ * Modes (UPSTREAM_VALIDATION):
+ * - strict: record drift and reject the response with an UpstreamSchemaError,
+ *   unless the only drift is added fields, which do not break parsing
+ * - warn: record drift and log a warning, but use the response (default)
+ * - off: skip validation entirely
+ */
+
+import type { z } from "@hono/zod-openapi";
+import { openKv } from "./kv.ts";
+import { UpstreamSchemaError } from "./upstream-errors.ts";
+import {
+  BillsListResponseSchema,
+  BillsSearchResponseSchema,
+  CoAuthoredBillsResponseSchema,
+  CommitteeListResponseSchema,
+  CommitteeMembershipResponseSchema,
+  CongressReferenceResponseSchema,
+  HouseMemberDDLResponseSchema,
+  HouseMembersResponseSchema,
+} from "../types/source-schemas.ts";
+
+export type ValidationMode = "strict" | "warn" | "off";
+
+const VALIDATION_MODES: ValidationMode[] = ["strict", "warn", "off"];
+
+const UPSTREAM_VALIDATION = Deno.env.get("UPSTREAM_VALIDATION") || "warn";
+
+if (!VALIDATION_MODES.includes(UPSTREAM_VALIDATION as ValidationMode)) {
+  throw new Error(
+    `UPSTREAM_VALIDATION must be one of ${VALIDATION_MODES.join(", ")}`,
+  );
+}
+
+/**
+ * Maximum number of distinct drifted fields recorded per response
+ */
+const MAX_DRIFT_FIELDS = 25;
+
+/**
+ * Schema for each upstream endpoint. Paths not listed here are not validated.
+ */
+const SOURCE_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  "/system-config/reference-congress": CongressReferenceResponseSchema,
+  "/house-members/list": HouseMembersResponseSchema,
+  "/house-members/co-author": CoAuthoredBillsResponseSchema,
+  "/house-members/principal-author": CoAuthoredBillsResponseSchema,
+  "/house-members/committee-membership": CommitteeMembershipResponseSchema,
+  "/house-members/ddl-reference": HouseMemberDDLResponseSchema,
+  "/bills/list": BillsListResponseSchema,
+  "/bills/search": BillsSearchResponseSchema,
+  "/committee/list": CommitteeListResponseSchema,
+};
+
+/**
+ * A field whose shape differs from the source schema
+ */
+export interface DriftEntry {
+  endpoint: string;
+  field: string;
+  issue: string;
+  message: string;
+  sample: string;
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export function getValidationMode(): ValidationMode {
+  return UPSTREAM_VALIDATION as ValidationMode;
+}
+
+/**
+ * Formats an issue path with array indices collapsed, e.g. `data.rows[].title_full`
+ */
+function formatFieldPath(path: PropertyKey[]): string {
+  let field = "";
+  for (const segment of path) {
+    if (typeof segment === "number") {
+      field += "[]";
+    } else {
+      field += field ? `.${String(segment)}` : String(segment);
+    }
+  }
+  return field || "(root)";
+}
+
+function getValueAt(data: unknown, path: PropertyKey[]): unknown {
+  let value = data;
+  for (const segment of path) {
+    if (value === null || typeof value !== "object") {
+      return undefined;
+    }
+    value = (value as Record<PropertyKey, unknown>)[segment];
+  }
+  return value;
+}
+
+function describeSample(value: unknown): string {
+  if (value === undefined) {
+    return "undefined";
+  }
+  const json = JSON.stringify(value);
+  return json.length > 200 ? `${json.slice(0, 200)}…` : json;
+}
+
+async function recordDrift(
+  endpoint: string,
+  issues: Map<string, { issue: string; message: string; sample: string }>,
+) {
+  const kv = await openKv();
+  try {
+    const now = new Date().toISOString();
+    for (const [field, detail] of issues) {
+      const key = ["upstream", "drift", endpoint, field];
+      const existing = await kv.get<DriftEntry>(key);
+      await kv.set(
+        key,
+        {
+          endpoint,
+          field,
+          ...detail,
+          count: (existing.value?.count ?? 0) + 1,
+          firstSeen: existing.value?.firstSeen ?? now,
+          lastSeen: now,
+        } satisfies DriftEntry,
+      );
+    }
+  } finally {
+    kv.close();
+  }
+}
+
+/**
+ * Validates a source API response against the schema for its endpoint
+ *
+ * @param path - The upstream path the response came from
+ * @param data - The parsed response body
+ * @returns The response body, unchanged
+ * @throws UpstreamSchemaError in strict mode when the response does not match
+ */
+export async function validateSourceResponse<T>(
+  path: string,
+  data: T,
+): Promise<T> {
+  const schema = SOURCE_SCHEMAS[path];
+  if (UPSTREAM_VALIDATION === "off" || !schema) {
+    return data;
+  }
+
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return data;
+  }
+
+  // Rows usually drift the same way, keep one issue per field
+  const issues = new Map<
+    string,
+    { issue: string; message: string; sample: string }
+  >();
+  const addIssue = (
+    path: PropertyKey[],
+    detail: { issue: string; message: string },
+  ) => {
+    const field = formatFieldPath(path);
+    if (!issues.has(field) && issues.size < MAX_DRIFT_FIELDS) {
+      issues.set(field, {
+        ...detail,
+        sample: describeSample(getValueAt(data, path)),
+      });
+    }
+  };
+  let breaking = false;
+  for (const issue of result.error.issues) {
+    if (issue.code === "unrecognized_keys") {
+      // One entry per added field rather than per object
+      for (const key of issue.keys) {
+        addIssue([...issue.path, key], {
+          issue: issue.code,
+          message: "Field is not in the source schema",
+        });
+      }
+    } else {
+      breaking = true;
+      addIssue(issue.path, { issue: issue.code, message: issue.message });
+    }
+  }
+
+  const fields = [...issues.keys()];
+  console.warn(
+    `Source API response from ${path} drifted from schema: ${
+      fields.join(", ")
+    }`,
+  );
+
+  try {
+    await recordDrift(path, issues);
+  } catch (error) {
+    console.error("Failed to record schema drift:", error);
+  }
+
+  if (UPSTREAM_VALIDATION === "strict" && breaking) {
+    throw new UpstreamSchemaError(path, fields, { cause: result.error });
+  }
+
+  return data;
+}
@@ -0,0 +1,308 @@
+/**
+ * Upstream Response Cache
+ *
+ * Persists HREP API responses in Deno KV so repeated requests for the same
+ * path and body are served without hitting the House website. Each endpoint
+ * has a freshness TTL and a stale-while-revalidate window: fresh entries are
+ * served as-is, stale entries are served immediately while a background
+ * request refreshes them, and expired entries are fetched again.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { MiddlewareHandler } from "hono";
+import { openKv } from "./kv.ts";
+import { sha256Hex } from "./hash.ts";
+
+const UPSTREAM_CACHE = Deno.env.get("UPSTREAM_CACHE") ?? "on";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Deno KV values are limited to 64 KiB, so responses are split into chunks
+ */
+const CHUNK_SIZE = 60 * 1024;
+
+/**
+ * Atomic operations are limited to 800 KiB in total, larger responses are not cached
+ */
+const MAX_CACHED_BYTES = 750 * 1024;
+
+export interface CachePolicy {
+  /** How long (ms) a cached response is considered fresh */
+  ttl: number;
+  /** How long (ms) after going stale a response may still be served while revalidating */
+  staleWhileRevalidate: number;
+}
+
+/**
+ * Cache policy per upstream endpoint. Paths not listed here are never cached.
+ */
+const CACHE_POLICIES: Record<string, CachePolicy> = {
+  "/system-config/reference-congress": {
+    ttl: DAY,
+    staleWhileRevalidate: 7 * DAY,
+  },
+  "/house-members/ddl-reference": { ttl: 6 * HOUR, staleWhileRevalidate: DAY },
+  "/house-members/list": { ttl: 6 * HOUR, staleWhileRevalidate: DAY },
+  "/house-members/co-author": { ttl: HOUR, staleWhileRevalidate: DAY },
+  "/house-members/principal-author": { ttl: HOUR, staleWhileRevalidate: DAY },
+  "/house-members/committee-membership": {
+    ttl: 6 * HOUR,
+    staleWhileRevalidate: DAY,
+  },
+  "/committee/list": { ttl: DAY, staleWhileRevalidate: 7 * DAY },
+  "/bills/list": { ttl: 15 * MINUTE, staleWhileRevalidate: 6 * HOUR },
+  "/bills/search": { ttl: 15 * MINUTE, staleWhileRevalidate: 6 * HOUR },
+};
+
+export type CacheStatus = "HIT" | "STALE" | "MISS" | "BYPASS";
+
+interface CacheMeta {
+  storedAt: number;
+  freshUntil: number;
+  staleUntil: number;
+  chunks: number;
+}
+
+/**
+ * Cache statuses recorded for the request currently being handled
+ */
+const requestStatuses = new AsyncLocalStorage<CacheStatus[]>();
+
+/**
+ * Cache keys currently being revalidated in the background
+ */
+const revalidating = new Set<string>();
+
+/**
+ * Returns the cache policy for an upstream path, or null if it is not cacheable
+ */
+export function getCachePolicy(path: string): CachePolicy | null {
+  if (UPSTREAM_CACHE === "off") {
+    return null;
+  }
+  return CACHE_POLICIES[path] ?? null;
+}
+
+function recordCacheStatus(status: CacheStatus) {
+  requestStatuses.getStore()?.push(status);
+}
+
+async function hashRequest(method: string, body: unknown): Promise<string> {
+  return await sha256Hex(`${method} ${JSON.stringify(body ?? null)}`);
+}
+
+async function readEntry<T>(
+  kv: Deno.Kv,
+  prefix: Deno.KvKey,
+): Promise<{ meta: CacheMeta; data: T } | null> {
+  const meta = await kv.get<CacheMeta>([...prefix, "meta"]);
+  if (!meta.value) {
+    return null;
+  }
+
+  const parts: Uint8Array[] = [];
+  const chunks = kv.list<Uint8Array>({ prefix: [...prefix, "chunk"] });
+  for await (const entry of chunks) {
+    const index = entry.key[entry.key.length - 1] as number;
+    if (index < meta.value.chunks) {
+      parts[index] = entry.value;
+    }
+  }
+
+  // A chunk may have expired before the meta entry, treat it as a miss
+  if (parts.filter(Boolean).length !== meta.value.chunks) {
+    return null;
+  }
+
+  const bytes = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+
+  return {
+    meta: meta.value,
+    data: JSON.parse(new TextDecoder().decode(bytes)) as T,
+  };
+}
+
+async function writeEntry(
+  kv: Deno.Kv,
+  prefix: Deno.KvKey,
+  data: unknown,
+  policy: CachePolicy,
+) {
+  const bytes = new TextEncoder().encode(JSON.stringify(data));
+  if (bytes.length > MAX_CACHED_BYTES) {
+    return;
+  }
+
+  const now = Date.now();
+  const expireIn = policy.ttl + policy.staleWhileRevalidate;
+  const chunks = Math.max(1, Math.ceil(bytes.length / CHUNK_SIZE));
+  const meta: CacheMeta = {
+    storedAt: now,
+    freshUntil: now + policy.ttl,
+    staleUntil: now + expireIn,
+    chunks,
+  };
+
+  const atomic = kv.atomic();
+  for (let i = 0; i < chunks; i++) {
+    atomic.set(
+      [...prefix, "chunk", i],
+      bytes.slice(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE),
+      { expireIn },
+    );
+  }
+  atomic.set([...prefix, "meta"], meta, { expireIn });
+  await atomic.commit();
+}
+
+/**
+ * Responses with `success: false` are errors reported in the body and are never cached
+ */
+function isCacheableResponse(data: unknown): boolean {
+  return !(
+    data && typeof data === "object" &&
+    (data as { success?: unknown }).success === false
+  );
+}
+
+async function refresh<T>(
+  prefix: Deno.KvKey,
+  policy: CachePolicy,
+  loader: () => Promise<T>,
+): Promise<T> {
+  const data = await loader();
+  if (isCacheableResponse(data)) {
+    const kv = await openKv();
+    try {
+      await writeEntry(kv, prefix, data, policy);
+    } catch (error) {
+      console.error("Failed to write upstream cache entry:", error);
+    } finally {
+      kv.close();
+    }
+  }
+  return data;
+}
+
+function revalidateInBackground<T>(
+  prefix: Deno.KvKey,
+  policy: CachePolicy,
+  loader: () => Promise<T>,
+) {
+  const id = JSON.stringify(prefix);
+  if (revalidating.has(id)) {
+    return;
+  }
+  revalidating.add(id);
+
+  refresh(prefix, policy, loader)
+    .catch((error) => {
+      console.error("Failed to revalidate upstream cache entry:", error);
+    })
+    .finally(() => revalidating.delete(id));
+}
+
+/**
+ * Serves an upstream request from the KV cache, calling `loader` on a miss
+ *
+ * @param path - The upstream path, used to look up the cache policy
+ * @param method - The HTTP method of the request
+ * @param body - The request body, part of the cache key
+ * @param loader - Performs the actual upstream request
+ */
+export async function cachedUpstreamRequest<T>(
+  path: string,
+  method: string,
+  body: unknown,
+  loader: () => Promise<T>,
+): Promise<T> {
+  const policy = getCachePolicy(path);
+  if (!policy) {
+    recordCacheStatus("BYPASS");
+    return loader();
+  }
+
+  const prefix = [
+    "upstream",
+    "responses",
+    path,
+    await hashRequest(method, body),
+  ];
+
+  let cached: { meta: CacheMeta; data: T } | null = null;
+  const kv = await openKv();
+  try {
+    cached = await readEntry<T>(kv, prefix);
+  } catch (error) {
+    console.error("Failed to read upstream cache entry:", error);
+  } finally {
+    kv.close();
+  }
+
+  const now = Date.now();
+
+  if (cached && now < cached.meta.freshUntil) {
+    recordCacheStatus("HIT");
+    return cached.data;
+  }
+
+  if (cached && now < cached.meta.staleUntil) {
+    recordCacheStatus("STALE");
+    revalidateInBackground(prefix, policy, loader);
+    return cached.data;
+  }
+
+  recordCacheStatus("MISS");
+  return refresh(prefix, policy, loader);
+}
+
+/**
+ * Summarizes the cache statuses of all upstream requests made for one response
+ * The worst status wins: MISS > STALE > HIT > BYPASS
+ */
+function summarizeStatuses(statuses: CacheStatus[]): CacheStatus {
+  for (const status of ["MISS", "STALE", "HIT"] as const) {
+    if (statuses.includes(status)) {
+      return status;
+    }
+  }
+  return "BYPASS";
+}
+
+/**
+ * Middleware that reports upstream cache usage on every response
+ *
+ * Sets `X-Upstream-Cache` to the overall status and `X-Upstream-Cache-Lookups`
+ * to the count of each status, e.g. `hit=2, stale=0, miss=1, bypass=0`.
+ */
+export function upstreamCacheStatus(): MiddlewareHandler {
+  return async (c, next) => {
+    const statuses: CacheStatus[] = [];
+    await requestStatuses.run(statuses, next);
+
+    if (statuses.length === 0) {
+      return;
+    }
+
+    const count = (status: CacheStatus) =>
+      statuses.filter((s) => s === status).length;
+
+    c.header("X-Upstream-Cache", summarizeStatuses(statuses));
+    c.header(
+      "X-Upstream-Cache-Lookups",
+      `hit=${count("HIT")}, stale=${count("STALE")}, miss=${
+        count("MISS")
+      }, bypass=${count("BYPASS")}`,
+    );
+  };
+}
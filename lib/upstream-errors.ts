@@ -0,0 +1,288 @@
+/**
+ * Upstream Errors
+ *
+ * Typed errors thrown by the HREP API client. Each error carries the HTTP
+ * status our API should respond with, so routes can answer with 502, 503 or
+ * 504 instead of a generic 500 when the source API misbehaves.
+ */
+
+import { z } from "@hono/zod-openapi";
+import type { Context } from "hono";
+
+export type UpstreamHttpStatus = 502 | 503 | 504;
+
+/**
+ * Base class for all errors caused by the source HREP API
+ */
+export class UpstreamError extends Error {
+  /** Machine-readable error code returned to API clients */
+  readonly code: string = "UPSTREAM_ERROR";
+  /** Status code our API responds with */
+  readonly httpStatus: UpstreamHttpStatus = 502;
+  /** Whether the request may succeed if retried */
+  readonly retryable: boolean = false;
+
+  constructor(
+    message: string,
+    readonly path: string,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = "UpstreamError";
+  }
+}
+
+/**
+ * The upstream request did not complete within the configured timeout
+ */
+export class UpstreamTimeoutError extends UpstreamError {
+  override readonly code = "UPSTREAM_TIMEOUT";
+  override readonly httpStatus = 504;
+  override readonly retryable = true;
+
+  constructor(path: string, timeoutMs: number, options?: ErrorOptions) {
+    super(
+      `Source API request to ${path} timed out after ${timeoutMs}ms`,
+      path,
+      options,
+    );
+    this.name = "UpstreamTimeoutError";
+  }
+}
+
+/**
+ * The upstream request failed before a response was received (DNS, TLS, connection reset)
+ */
+export class UpstreamNetworkError extends UpstreamError {
+  override readonly code = "UPSTREAM_NETWORK_ERROR";
+  override readonly retryable = true;
+
+  constructor(path: string, options?: ErrorOptions) {
+    super(`Source API request to ${path} failed to connect`, path, options);
+    this.name = "UpstreamNetworkError";
+  }
+}
+
+/**
+ * The source API responded with a non-2xx status code
+ */
+export class UpstreamHttpError extends UpstreamError {
+  override readonly code: string = "UPSTREAM_HTTP_ERROR";
+
+  constructor(
+    path: string,
+    readonly upstreamStatus: number,
+    statusText: string,
+    options?: ErrorOptions,
+  ) {
+    super(
+      `Source API request to ${path} failed: ${upstreamStatus} ${statusText}`,
+      path,
+      options,
+    );
+    this.name = "UpstreamHttpError";
+  }
+}
+
+/**
+ * The source API rejected our X-Hrep-Website-Backend credentials (401/403)
+ */
+export class UpstreamAuthError extends UpstreamHttpError {
+  override readonly code = "UPSTREAM_AUTH_REJECTED";
+
+  constructor(
+    path: string,
+    upstreamStatus: number,
+    statusText: string,
+    options?: ErrorOptions,
+  ) {
+    super(path, upstreamStatus, statusText, options);
+    this.name = "UpstreamAuthError";
+  }
+}
+
+/**
+ * The source API responded with a 4xx status code other than 401/403
+ */
+export class UpstreamClientError extends UpstreamHttpError {
+  override readonly code = "UPSTREAM_CLIENT_ERROR";
+
+  constructor(
+    path: string,
+    upstreamStatus: number,
+    statusText: string,
+    options?: ErrorOptions,
+  ) {
+    super(path, upstreamStatus, statusText, options);
+    this.name = "UpstreamClientError";
+  }
+}
+
+/**
+ * The source API responded with a 5xx status code
+ */
+export class UpstreamServerError extends UpstreamHttpError {
+  override readonly code = "UPSTREAM_SERVER_ERROR";
+  override readonly retryable = true;
+
+  constructor(
+    path: string,
+    upstreamStatus: number,
+    statusText: string,
+    options?: ErrorOptions,
+  ) {
+    super(path, upstreamStatus, statusText, options);
+    this.name = "UpstreamServerError";
+  }
+}
+
+/**
+ * The source API responded with a body that is not valid JSON
+ */
+export class UpstreamMalformedResponseError extends UpstreamError {
+  override readonly code = "UPSTREAM_MALFORMED_RESPONSE";
+
+  constructor(path: string, options?: ErrorOptions) {
+    super(
+      `Source API request to ${path} returned malformed JSON`,
+      path,
+      options,
+    );
+    this.name = "UpstreamMalformedResponseError";
+  }
+}
+
+/**
+ * The source API responded with `success: false` in the body
+ */
+export class UpstreamUnsuccessfulError extends UpstreamError {
+  override readonly code = "UPSTREAM_UNSUCCESSFUL";
+
+  constructor(
+    path: string,
+    readonly upstreamStatus: number | null,
+    options?: ErrorOptions,
+  ) {
+    super(
+      `Source API request to ${path} reported failure${
+        upstreamStatus !== null ? ` (status ${upstreamStatus})` : ""
+      }`,
+      path,
+      options,
+    );
+    this.name = "UpstreamUnsuccessfulError";
+  }
+}
+
+/**
+ * The response body does not match the expected source schema (strict validation mode)
+ */
+export class UpstreamSchemaError extends UpstreamError {
+  override readonly code = "UPSTREAM_SCHEMA_MISMATCH";
+
+  constructor(
+    path: string,
+    readonly fields: string[],
+    options?: ErrorOptions,
+  ) {
+    super(
+      `Source API response from ${path} does not match the expected schema: ${
+        fields.join(", ")
+      }`,
+      path,
+      options,
+    );
+    this.name = "UpstreamSchemaError";
+  }
+}
+
+/**
+ * No fixture was recorded for the request (replay mode)
+ */
+export class UpstreamFixtureNotFoundError extends UpstreamError {
+  override readonly code = "UPSTREAM_FIXTURE_NOT_FOUND";
+
+  constructor(path: string, readonly file: string) {
+    super(`No recorded fixture for ${path} (expected ${file})`, path);
+    this.name = "UpstreamFixtureNotFoundError";
+  }
+}
+
+/**
+ * The circuit breaker is open, the source API was not called
+ */
+export class UpstreamUnavailableError extends UpstreamError {
+  override readonly code = "UPSTREAM_UNAVAILABLE";
+  override readonly httpStatus = 503;
+
+  constructor(path: string, readonly retryAfterSeconds: number) {
+    super(
+      `Source API is unavailable, not calling ${path} (retry in ${retryAfterSeconds}s)`,
+      path,
+    );
+    this.name = "UpstreamUnavailableError";
+  }
+}
+
+/**
+ * Error body returned by routes when the source API fails
+ */
+export const UpstreamErrorSchema = z
+  .object({
+    error: z.string().openapi({
+      example: "Source API request to /bills/list failed: 500 Internal Error",
+      description: "Human-readable error message",
+    }),
+    code: z.string().openapi({
+      example: "UPSTREAM_SERVER_ERROR",
+      description: "Machine-readable upstream error code",
+    }),
+  })
+  .openapi("UpstreamError");
+
+/**
+ * OpenAPI response definitions for upstream failures, spread into route responses
+ */
+export const upstreamErrorResponses = {
+  502: {
+    content: {
+      "application/json": {
+        schema: UpstreamErrorSchema,
+      },
+    },
+    description: "Bad gateway - The source API returned an error",
+  },
+  503: {
+    content: {
+      "application/json": {
+        schema: UpstreamErrorSchema,
+      },
+    },
+    description:
+      "Service unavailable - The source API is down and requests are short-circuited",
+  },
+  504: {
+    content: {
+      "application/json": {
+        schema: UpstreamErrorSchema,
+      },
+    },
+    description: "Gateway timeout - The source API did not respond in time",
+  },
+};
+
+/**
+ * Responds with the status code and body matching an upstream error
+ */
+export function upstreamErrorResponse(c: Context, error: UpstreamError) {
+  const body = { error: error.message, code: error.code };
+
+  if (error instanceof UpstreamUnavailableError) {
+    c.header("Retry-After", error.retryAfterSeconds.toString());
+    return c.json(body, 503);
+  }
+  if (error.httpStatus === 504) {
+    return c.json(body, 504);
+  }
+  return c.json(body, 502);
+}
@@ -0,0 +1,47 @@
+/**
+ * Request Validation
+ *
+ * Route hook reporting zod validation failures of a request as a 400 with an
+ * error message, like the other error responses of the API, instead of the
+ * zod error object.
+ */
+
+import { z } from "@hono/zod-openapi";
+import type { Context } from "hono";
+
+/**
+ * Responds with 400 and the first validation issue, e.g.
+ * `congressNumber: Congress number must be a positive integer`
+ */
+export function validationErrorHook(
+  result: { success: true } | { success: false; error: z.ZodError },
+  c: Context,
+) {
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    const field = issue.path.map(String).join(".");
+    return c.json(
+      { error: field ? `${field}: ${issue.message}` : issue.message },
+      400,
+    );
+  }
+}
+
+/**
+ * Response of routes using validationErrorHook, for the OpenAPI document
+ */
+export const validationErrorResponses = {
+  400: {
+    content: {
+      "application/json": {
+        schema: z.object({
+          error: z.string().openapi({
+            example:
+              "congressNumber: Congress number must be a positive integer",
+          }),
+        }),
+      },
+    },
+    description: "Invalid request parameters",
+  },
+};
@@ -0,0 +1,462 @@
+/**
+ * Webhooks
+ *
+ * Notifies subscribers when the indexer detects that a document's status
+ * changed or that it reached a new reading. Subscriptions follow a document,
+ * every document of a person (authored or co-authored) or every document
+ * referred to a committee.
+ *
+ * Deliveries are sent through the Deno KV queue, signed with the secret of the
+ * subscription, and retried with backoff when the receiver fails.
+ *
+ * KV layout:
+ * - ["webhooks", "subscriptions", subscriptionId] -> WebhookSubscription
+ * - ["webhooks", "byDocument", congress, documentKey, subscriptionId] -> true
+ * - ["webhooks", "byPerson", personId, subscriptionId] -> true
+ * - ["webhooks", "byCommittee", committeeId, subscriptionId] -> true
+ * - ["webhooks", "deliveries", subscriptionId, deliveryId] -> WebhookDelivery
+ */
+
+import type {
+  DocumentHistoryEntry,
+  Reading,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookPayload,
+  WebhookTarget,
+} from "../types/api.ts";
+import type { DocumentInformation } from "./congress-stats.ts";
+import { toHex } from "./hash.ts";
+
+/**
+ * Subscription as stored in KV, including its signing secret
+ */
+export interface WebhookSubscription {
+  subscriptionId: string;
+  url: string;
+  secret: string;
+  target: WebhookTarget;
+  events: WebhookEvent[];
+  createdAt: string;
+}
+
+/**
+ * Queue message of a delivery; the payload is kept in the delivery log
+ */
+interface WebhookMessage {
+  type: "webhook";
+  subscriptionId: string;
+  deliveryId: string;
+}
+
+/**
+ * Delays between delivery attempts. A delivery is attempted once more than
+ * there are delays, then marked as failed.
+ */
+const RETRY_DELAYS = [10_000, 60_000, 300_000, 1_800_000];
+
+const MAX_ATTEMPTS = RETRY_DELAYS.length + 1;
+
+const DELIVERY_TIMEOUT = 10_000;
+
+/**
+ * Delivery logs are kept for 30 days
+ */
+const DELIVERY_LOG_TTL = 30 * 24 * 60 * 60 * 1000;
+
+function targetKey(target: WebhookTarget, subscriptionId: string): Deno.KvKey {
+  switch (target.type) {
+    case "document":
+      return [
+        "webhooks",
+        "byDocument",
+        target.congress,
+        target.documentKey,
+        subscriptionId,
+      ];
+    case "person":
+      return ["webhooks", "byPerson", target.personId, subscriptionId];
+    case "committee":
+      return ["webhooks", "byCommittee", target.committeeId, subscriptionId];
+  }
+}
+
+/**
+ * Generates a random signing secret
+ */
+function generateSecret(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * Creates a subscription, generating a secret if none is given
+ */
+export async function createSubscription(
+  kv: Deno.Kv,
+  options: {
+    url: string;
+    target: WebhookTarget;
+    events: WebhookEvent[];
+    secret?: string;
+  },
+): Promise<WebhookSubscription> {
+  const subscription: WebhookSubscription = {
+    subscriptionId: crypto.randomUUID(),
+    url: options.url,
+    secret: options.secret ?? generateSecret(),
+    target: options.target,
+    events: [...new Set(options.events)],
+    createdAt: new Date().toISOString(),
+  };
+
+  await kv.atomic()
+    .set(
+      ["webhooks", "subscriptions", subscription.subscriptionId],
+      subscription,
+    )
+    .set(targetKey(subscription.target, subscription.subscriptionId), true)
+    .commit();
+
+  return subscription;
+}
+
+/**
+ * Returns all subscriptions, oldest first
+ */
+export async function listSubscriptions(
+  kv: Deno.Kv,
+): Promise<WebhookSubscription[]> {
+  const subscriptions: WebhookSubscription[] = [];
+  for await (
+    const entry of kv.list<WebhookSubscription>({
+      prefix: ["webhooks", "subscriptions"],
+    })
+  ) {
+    subscriptions.push(entry.value);
+  }
+  return subscriptions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Deletes a subscription; its delivery log is kept until it expires
+ *
+ * @returns Whether the subscription existed
+ */
+export async function deleteSubscription(
+  kv: Deno.Kv,
+  subscriptionId: string,
+): Promise<boolean> {
+  const entry = await kv.get<WebhookSubscription>([
+    "webhooks",
+    "subscriptions",
+    subscriptionId,
+  ]);
+  if (!entry.value) {
+    return false;
+  }
+
+  await kv.atomic()
+    .check(entry)
+    .delete(entry.key)
+    .delete(targetKey(entry.value.target, subscriptionId))
+    .commit();
+  return true;
+}
+
+/**
+ * Returns the delivery log of a subscription, newest first
+ */
+export async function listDeliveries(
+  kv: Deno.Kv,
+  subscriptionId: string,
+): Promise<WebhookDelivery[]> {
+  const deliveries: WebhookDelivery[] = [];
+  for await (
+    const entry of kv.list<WebhookDelivery>({
+      prefix: ["webhooks", "deliveries", subscriptionId],
+    })
+  ) {
+    deliveries.push(entry.value);
+  }
+  return deliveries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Turns the history entries recorded for a newly indexed document into
+ * webhook payloads, so webhooks and the document history report the same
+ * changes. Only status changes and new readings are delivered.
+ *
+ * @param entries - Entries returned by documentHistoryChanges
+ * @param readings - Readings of the document, used for the reading details
+ */
+export function documentChanges(
+  document: { congress: number; documentKey: string },
+  current: DocumentInformation,
+  entries: DocumentHistoryEntry[],
+  readings: Reading[],
+): WebhookPayload[] {
+  const occurredAt = new Date().toISOString();
+  const base = {
+    congress: document.congress,
+    documentKey: document.documentKey,
+    titleShort: current.titleShort,
+    status: current.status ?? null,
+    occurredAt,
+  };
+  const payloads: WebhookPayload[] = [];
+
+  for (const entry of entries) {
+    if (entry.change === "status_changed") {
+      payloads.push({
+        ...base,
+        event: "document.status_changed",
+        previousStatus: entry.previous,
+        reading: null,
+      });
+    } else if (entry.change === "reading_recorded") {
+      const reading = readings.find((reading) =>
+        reading.stage === entry.current
+      );
+      if (reading) {
+        payloads.push({
+          ...base,
+          event: "document.reading_recorded",
+          previousStatus: null,
+          reading,
+        });
+      }
+    }
+  }
+
+  return payloads;
+}
+
+/**
+ * Finds the subscriptions following a document: directly, through one of its
+ * authors or co-authors, or through a committee it was referred to
+ */
+async function findSubscriptions(
+  kv: Deno.Kv,
+  congress: number,
+  documentKey: string,
+): Promise<WebhookSubscription[]> {
+  const prefixes: Deno.KvKey[] = [
+    ["webhooks", "byDocument", congress, documentKey],
+  ];
+
+  // Key format: ["congresses", congress, documentKey, field, id]
+  for await (
+    const entry of kv.list({ prefix: ["congresses", congress, documentKey] })
+  ) {
+    if (entry.value !== true) {
+      continue;
+    }
+    if (entry.key[3] === "authors" || entry.key[3] === "coAuthors") {
+      prefixes.push(["webhooks", "byPerson", entry.key[4] as string]);
+    } else if (entry.key[3] === "committees") {
+      prefixes.push(["webhooks", "byCommittee", entry.key[4] as string]);
+    }
+  }
+
+  const subscriptionIds = new Set<string>();
+  for (const prefix of prefixes) {
+    for await (const entry of kv.list({ prefix })) {
+      subscriptionIds.add(entry.key[entry.key.length - 1] as string);
+    }
+  }
+
+  const subscriptions: WebhookSubscription[] = [];
+  for (const subscriptionId of subscriptionIds) {
+    const entry = await kv.get<WebhookSubscription>([
+      "webhooks",
+      "subscriptions",
+      subscriptionId,
+    ]);
+    if (entry.value) {
+      subscriptions.push(entry.value);
+    }
+  }
+  return subscriptions;
+}
+
+/**
+ * Adds the log entry and queue message of a delivery for every subscription
+ * interested in the changes of a document to an atomic operation, so they are
+ * committed together with the new document information
+ *
+ * @returns Number of deliveries added
+ */
+export async function dispatchWebhooks(
+  kv: Deno.Kv,
+  atomic: Deno.AtomicOperation,
+  payloads: WebhookPayload[],
+): Promise<number> {
+  if (payloads.length === 0) {
+    return 0;
+  }
+
+  const { congress, documentKey } = payloads[0];
+  const subscriptions = await findSubscriptions(kv, congress, documentKey);
+  let enqueued = 0;
+
+  for (const payload of payloads) {
+    for (const subscription of subscriptions) {
+      if (!subscription.events.includes(payload.event)) {
+        continue;
+      }
+
+      const now = new Date().toISOString();
+      const delivery: WebhookDelivery = {
+        deliveryId: crypto.randomUUID(),
+        subscriptionId: subscription.subscriptionId,
+        event: payload.event,
+        status: "pending",
+        attempts: 0,
+        responseStatus: null,
+        error: null,
+        createdAt: now,
+        updatedAt: now,
+        payload,
+      };
+      const message: WebhookMessage = {
+        type: "webhook",
+        subscriptionId: subscription.subscriptionId,
+        deliveryId: delivery.deliveryId,
+      };
+
+      atomic
+        .set(
+          [
+            "webhooks",
+            "deliveries",
+            subscription.subscriptionId,
+            delivery.deliveryId,
+          ],
+          delivery,
+          { expireIn: DELIVERY_LOG_TTL },
+        )
+        .enqueue(message, { backoffSchedule: RETRY_DELAYS });
+      enqueued++;
+    }
+  }
+
+  return enqueued;
+}
+
+/**
+ * Signs a payload: HMAC-SHA256 of "<timestamp>.<body>", hex encoded
+ */
+export async function signPayload(
+  secret: string,
+  timestamp: string,
+  body: string,
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(`${timestamp}.${body}`),
+  );
+  return toHex(signature);
+}
+
+export function isWebhookMessage(message: unknown): message is WebhookMessage {
+  return typeof message === "object" && message !== null &&
+    (message as WebhookMessage).type === "webhook";
+}
+
+/**
+ * Sends a queued delivery and records the attempt in the delivery log
+ * Throws while attempts are left, so the queue retries the message.
+ */
+export async function deliverWebhook(
+  kv: Deno.Kv,
+  message: WebhookMessage,
+): Promise<void> {
+  const logKey = [
+    "webhooks",
+    "deliveries",
+    message.subscriptionId,
+    message.deliveryId,
+  ];
+  const [subscriptionEntry, deliveryEntry] = await kv.getMany<
+    [WebhookSubscription, WebhookDelivery]
+  >([["webhooks", "subscriptions", message.subscriptionId], logKey]);
+
+  const delivery = deliveryEntry.value;
+  if (!delivery || delivery.status !== "pending") {
+    return;
+  }
+
+  const record = async (update: Partial<WebhookDelivery>) => {
+    await kv.set(logKey, {
+      ...delivery,
+      ...update,
+      updatedAt: new Date().toISOString(),
+    }, { expireIn: DELIVERY_LOG_TTL });
+  };
+
+  const subscription = subscriptionEntry.value;
+  if (!subscription) {
+    await record({ status: "failed", error: "Subscription was deleted" });
+    return;
+  }
+
+  const attempts = delivery.attempts + 1;
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(subscription.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Better-HREP-Webhooks",
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Delivery": delivery.deliveryId,
+        "X-Webhook-Timestamp": timestamp,
+        "X-Webhook-Signature": `sha256=${await signPayload(
+          subscription.secret,
+          timestamp,
+          body,
+        )}`,
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT),
+    });
+    await response.body?.cancel();
+    responseStatus = response.status;
+    if (!response.ok) {
+      error = `Receiver responded with ${response.status}`;
+    }
+  } catch (fetchError) {
+    error = fetchError instanceof Error ? fetchError.message : "Unknown error";
+  }
+
+  if (!error) {
+    await record({ status: "delivered", attempts, responseStatus, error });
+    return;
+  }
+
+  const failed = attempts >= MAX_ATTEMPTS;
+  await record({
+    status: failed ? "failed" : "pending",
+    attempts,
+    responseStatus,
+    error,
+  });
+  if (!failed) {
+    throw new Error(
+      `Webhook delivery ${delivery.deliveryId} failed (attempt ${attempts}/${MAX_ATTEMPTS}): ${error}`,
+    );
+  }
+}
@@ -2,14 +2,37 @@ import { OpenAPIHono } from "@hono/zod-openapi";
 import { swaggerUI } from "@hono/swagger-ui";
 import { Hono } from "hono";
 import { trimTrailingSlash } from "hono/trailing-slash";
+import { except } from "hono/combine";
 import { serveStatic } from "hono/deno";
 import { congressesRouter } from "./routes/congresses.ts";
 import { peopleRouter } from "./routes/people.ts";
 import { committeesRouter } from "./routes/committees.ts";
 import { indexRouter } from "./routes/index.ts";
+import { indexJobsRouter } from "./routes/index-jobs.ts";
 import { cachedRouter } from "./routes/cached.ts";
 import { infoRouter } from "./routes/info.ts";
-import { pages } from "./routes/pages.tsx";
+import { searchRouter } from "./routes/search.ts";
+import { partiesRouter } from "./routes/parties.ts";
+import { districtsRouter } from "./routes/districts.ts";
+import { networkRouter } from "./routes/network.ts";
+import { statsRouter } from "./routes/stats.ts";
+import { historyRouter } from "./routes/history.ts";
+import { exportsRouter } from "./routes/exports.ts";
+import { webhooksRouter } from "./routes/webhooks.ts";
+import { adminRouter } from "./routes/admin.ts";
+import { feeds } from "./routes/feeds.ts";
+import { pages, setPagesApiRequest } from "./routes/pages.tsx";
+import { upstreamCacheStatus } from "./lib/upstream-cache.ts";
+import { openKv } from "./lib/kv.ts";
+import { deliverWebhook, isWebhookMessage } from "./lib/webhooks.ts";
+import { isIndexTaskMessage, runIndexTask } from "./lib/index-jobs.ts";
+import {
+  isCongressStatsMessage,
+  runCongressStatsRefresh,
+} from "./lib/congress-stats.ts";
+import { registerIndexSchedules } from "./lib/index-schedules.ts";
+import { BEARER_AUTH } from "./lib/api-keys.ts";
+import { rateLimit } from "./lib/rate-limit.ts";
 
 const app = new Hono();
 const apiApp = new OpenAPIHono({ strict: false });
@@ -18,6 +41,13 @@ const apiApp = new OpenAPIHono({ strict: false });
 app.use("*", trimTrailingSlash());
 apiApp.use("*", trimTrailingSlash());
 
+// Limit requests per IP address or API key, with RateLimit-* headers, except
+// for the Swagger UI and the OpenAPI documentation
+apiApp.use("*", except(["/api", "/api/doc"], rateLimit()));
+
+// Report upstream cache usage via X-Upstream-Cache headers
+apiApp.use("*", upstreamCacheStatus());
+
 // Serve static files from /static
 app.use("/static/*", serveStatic({ root: "./" }));
 
@@ -26,8 +56,26 @@ apiApp.route("/", congressesRouter);
 apiApp.route("/", peopleRouter);
 apiApp.route("/", committeesRouter);
 apiApp.route("/", indexRouter);
+apiApp.route("/", indexJobsRouter);
 apiApp.route("/", cachedRouter);
 apiApp.route("/", infoRouter);
+apiApp.route("/", searchRouter);
+apiApp.route("/", partiesRouter);
+apiApp.route("/", districtsRouter);
+apiApp.route("/", networkRouter);
+apiApp.route("/", statsRouter);
+apiApp.route("/", historyRouter);
+apiApp.route("/", exportsRouter);
+apiApp.route("/", webhooksRouter);
+apiApp.route("/", adminRouter);
+
+// Protected endpoints take an API key as a bearer token
+apiApp.openAPIRegistry.registerComponent("securitySchemes", BEARER_AUTH, {
+  type: "http",
+  scheme: "bearer",
+  description:
+    "API key created with POST /api/admin/keys or deno task keys create",
+});
 
 // The OpenAPI documentation will be available at /api/doc
 apiApp.doc("/doc", {
@@ -50,9 +98,41 @@ apiApp.doc("/doc", {
 app.route("/api", apiApp);
 
 // Swagger UI at /api
-app.get("/api", swaggerUI({ url: "/api/doc", title: "Better HREP API" }));
+app.get(
+  "/api",
+  swaggerUI({
+    url: "/api/doc",
+    title: "Better HREP API",
+    persistAuthorization: true,
+  }),
+);
 
-// Mount web interface pages
+// Mount RSS and Atom feeds
+app.route("/", feeds);
+
+// Mount web interface pages, which request the API in-process with the
+// connection info of the visitor, so page views are rate limited per IP
+setPagesApiRequest((path, init, info) => apiApp.request(path, init, info));
 app.route("/", pages);
 
+// Process the KV queue: webhook deliveries, statistics recomputes and index job
+// tasks, which call the indexing endpoints in-process
+const queueKv = await openKv();
+queueKv.listenQueue(async (message) => {
+  if (isWebhookMessage(message)) {
+    await deliverWebhook(queueKv, message);
+  } else if (isCongressStatsMessage(message)) {
+    await runCongressStatsRefresh(queueKv, message);
+  } else if (isIndexTaskMessage(message)) {
+    await runIndexTask(
+      queueKv,
+      message,
+      (path, init) => apiApp.request(path, init),
+    );
+  }
+});
+
+// Re-index on the built-in schedules (INDEX_SCHEDULES=on)
+registerIndexSchedules(queueKv, (path, init) => apiApp.request(path, init));
+
 Deno.serve(app.fetch);
@@ -0,0 +1,255 @@
+import { createRoute, OpenAPIHono, z } from "@hono/zod-openapi";
+import { ApiKeySchema, IndexScheduleSchema } from "../types/api.ts";
+import { openKv } from "../lib/kv.ts";
+import { listIndexSchedules } from "../lib/index-schedules.ts";
+import {
+  API_KEY_SCOPES,
+  authErrorResponses,
+  bearerAuthSecurity,
+  createApiKey,
+  listApiKeys,
+  requireScope,
+  revokeApiKey,
+} from "../lib/api-keys.ts";
+import { rateLimitResponses } from "../lib/rate-limit.ts";
+
+const ErrorSchema = z.object({
+  error: z.string(),
+});
+
+const internalErrorResponse = {
+  500: {
+    content: {
+      "application/json": {
+        schema: ErrorSchema,
+      },
+    },
+    description: "Internal server error",
+  },
+};
+
+const schedulesRoute = createRoute({
+  method: "get",
+  path: "/admin/schedules",
+  middleware: [requireScope("admin")] as const,
+  security: bearerAuthSecurity,
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            total: z.number(),
+            data: z.array(IndexScheduleSchema),
+          }),
+        },
+      },
+      description: "List of index schedules",
+    },
+    ...authErrorResponses,
+    ...internalErrorResponse,
+    ...rateLimitResponses,
+  },
+  tags: ["Admin"],
+  summary: "Get index schedules",
+  description:
+    "Returns the built-in re-indexing schedules registered with Deno.cron (membership daily, the documents of the current congress hourly, historical congresses weekly by default), with their cron expression, last run and next run. Schedules run only when INDEX_SCHEDULES=on; a disabled schedule has no cron expression or next run. Requires an API key with the admin scope.",
+});
+
+const createKeyRoute = createRoute({
+  method: "post",
+  path: "/admin/keys",
+  middleware: [requireScope("admin")] as const,
+  security: bearerAuthSecurity,
+  request: {
+    body: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            name: z.string().min(1).openapi({
+              example: "github-actions",
+              description: "What the key is used for",
+            }),
+            scopes: z.array(z.enum(API_KEY_SCOPES)).min(1).openapi({
+              example: ["index:write"],
+              description: "Scopes of the key",
+            }),
+          }),
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      content: {
+        "application/json": {
+          schema: ApiKeySchema.extend({
+            token: z.string().openapi({
+              example: "hrep_3fa85f64a1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d4",
+              description:
+                "Bearer token of the key. Only returned when the key is created.",
+            }),
+          }),
+        },
+      },
+      description: "API key created",
+    },
+    ...authErrorResponses,
+    ...internalErrorResponse,
+    ...rateLimitResponses,
+  },
+  tags: ["Admin"],
+  summary: "Create an API key",
+  description:
+    "Creates an API key with scopes. The token is returned once; only its SHA-256 hash is stored. Send it as Authorization: Bearer <token>. Requires an API key with the admin scope.",
+});
+
+const keysRoute = createRoute({
+  method: "get",
+  path: "/admin/keys",
+  middleware: [requireScope("admin")] as const,
+  security: bearerAuthSecurity,
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            total: z.number(),
+            data: z.array(ApiKeySchema),
+          }),
+        },
+      },
+      description: "List of API keys",
+    },
+    ...authErrorResponses,
+    ...internalErrorResponse,
+    ...rateLimitResponses,
+  },
+  tags: ["Admin"],
+  summary: "Get API keys",
+  description:
+    "Returns all API keys, including revoked ones, oldest first, without their tokens. Requires an API key with the admin scope.",
+});
+
+const revokeKeyRoute = createRoute({
+  method: "delete",
+  path: "/admin/keys/{keyId}",
+  middleware: [requireScope("admin")] as const,
+  security: bearerAuthSecurity,
+  request: {
+    params: z.object({
+      keyId: z.string().openapi({
+        param: {
+          name: "keyId",
+          in: "path",
+        },
+        example: "5b1e7c9a-2f4d-4c8e-9a3b-7d6f0e1c2b4a",
+        description: "API key ID",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: ApiKeySchema,
+        },
+      },
+      description: "API key revoked",
+    },
+    404: {
+      content: {
+        "application/json": {
+          schema: ErrorSchema,
+        },
+      },
+      description: "API key not found",
+    },
+    ...authErrorResponses,
+    ...internalErrorResponse,
+    ...rateLimitResponses,
+  },
+  tags: ["Admin"],
+  summary: "Revoke an API key",
+  description:
+    "Revokes an API key; its token stops working immediately. The key stays listed with its revocation time. Requires an API key with the admin scope.",
+});
+
+export const adminRouter = new OpenAPIHono();
+
+adminRouter.openapi(schedulesRoute, async (c) => {
+  try {
+    const kv = await openKv();
+    const schedules = await listIndexSchedules(kv);
+    kv.close();
+
+    return c.json({ total: schedules.length, data: schedules }, 200);
+  } catch (error) {
+    console.error("Error fetching index schedules:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
+
+adminRouter.openapi(createKeyRoute, async (c) => {
+  try {
+    const { name, scopes } = c.req.valid("json");
+
+    const kv = await openKv();
+    const { apiKey, token } = await createApiKey(kv, name, scopes);
+    kv.close();
+
+    console.log(
+      `Created API key ${apiKey.keyId} (${apiKey.scopes.join(", ")})`,
+    );
+
+    return c.json({ ...apiKey, token }, 201);
+  } catch (error) {
+    console.error("Error creating API key:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
+
+adminRouter.openapi(keysRoute, async (c) => {
+  try {
+    const kv = await openKv();
+    const apiKeys = await listApiKeys(kv);
+    kv.close();
+
+    return c.json({ total: apiKeys.length, data: apiKeys }, 200);
+  } catch (error) {
+    console.error("Error fetching API keys:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
+
+adminRouter.openapi(revokeKeyRoute, async (c) => {
+  try {
+    const { keyId } = c.req.valid("param");
+
+    const kv = await openKv();
+    const apiKey = await revokeApiKey(kv, keyId);
+    kv.close();
+
+    if (!apiKey) {
+      return c.json({ error: "API key not found" }, 404);
+    }
+
+    console.log(`Revoked API key ${keyId}`);
+
+    return c.json(apiKey, 200);
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
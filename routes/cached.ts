@@ -1,31 +1,21 @@
 import { createRoute, OpenAPIHono, z } from "@hono/zod-openapi";
 import { openKv } from "../lib/kv.ts";
-
-const INDEXER_KEY = Deno.env.get("INDEXER_KEY")!;
-
-if (!INDEXER_KEY) {
-  throw new Error("INDEXER_KEY environment variable must be set");
-}
-
-const IndexRequestSchema = z.object({
-  key: z.string().openapi({
-    example: "your-indexer-key",
-    description: "Indexer authentication key",
-  }),
-});
+import {
+  type DriftEntry,
+  getValidationMode,
+} from "../lib/source-validation.ts";
+import {
+  authErrorResponses,
+  bearerAuthSecurity,
+  requireScope,
+} from "../lib/api-keys.ts";
+import { rateLimitResponses } from "../lib/rate-limit.ts";
 
 const cachedByFullNameRoute = createRoute({
   method: "post",
   path: "/cached/people/byFullName",
-  request: {
-    body: {
-      content: {
-        "application/json": {
-          schema: IndexRequestSchema,
-        },
-      },
-    },
-  },
+  middleware: [requireScope("cache:read")] as const,
+  security: bearerAuthSecurity,
   responses: {
     200: {
       content: {
@@ -41,16 +31,7 @@ const cachedByFullNameRoute = createRoute({
       },
       description: "List of people cache entries indexed by full name",
     },
-    401: {
-      content: {
-        "application/json": {
-          schema: z.object({
-            error: z.string(),
-          }),
-        },
-      },
-      description: "Unauthorized - Invalid indexer key",
-    },
+    ...authErrorResponses,
     500: {
       content: {
         "application/json": {
@@ -61,26 +42,20 @@ const cachedByFullNameRoute = createRoute({
       },
       description: "Internal server error",
     },
+    ...rateLimitResponses,
   },
   tags: ["Cached"],
   summary: "Get people cache by full name index",
   description:
-    "Returns all people cache entries indexed by full name with their primary keys. Requires valid indexer key.",
+    "Returns all people cache entries indexed by full name with their primary keys. Requires an API key with the cache:read scope.",
   hide: true,
 });
 
 const cachedByNameCodeRoute = createRoute({
   method: "post",
   path: "/cached/people/byNameCode",
-  request: {
-    body: {
-      content: {
-        "application/json": {
-          schema: IndexRequestSchema,
-        },
-      },
-    },
-  },
+  middleware: [requireScope("cache:read")] as const,
+  security: bearerAuthSecurity,
   responses: {
     200: {
       content: {
@@ -96,7 +71,8 @@ const cachedByNameCodeRoute = createRoute({
       },
       description: "List of people cache entries indexed by name code",
     },
-    401: {
+    ...authErrorResponses,
+    500: {
       content: {
         "application/json": {
           schema: z.object({
@@ -104,8 +80,46 @@ const cachedByNameCodeRoute = createRoute({
           }),
         },
       },
-      description: "Unauthorized - Invalid indexer key",
+      description: "Internal server error",
     },
+    ...rateLimitResponses,
+  },
+  tags: ["Cached"],
+  summary: "Get people cache by name code index",
+  description:
+    "Returns all people cache entries indexed by name code with their primary keys. Requires an API key with the cache:read scope.",
+  hide: true,
+});
+
+const cachedUpstreamDriftRoute = createRoute({
+  method: "post",
+  path: "/cached/upstream/drift",
+  middleware: [requireScope("cache:read")] as const,
+  security: bearerAuthSecurity,
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            mode: z.enum(["strict", "warn", "off"]),
+            count: z.number(),
+            entries: z.array(z.object({
+              endpoint: z.string(),
+              field: z.string(),
+              issue: z.string(),
+              message: z.string(),
+              sample: z.string(),
+              count: z.number(),
+              firstSeen: z.string(),
+              lastSeen: z.string(),
+            })),
+          }),
+        },
+      },
+      description:
+        "Fields in source API responses that drifted from the schema",
+    },
+    ...authErrorResponses,
     500: {
       content: {
         "application/json": {
@@ -116,11 +130,12 @@ const cachedByNameCodeRoute = createRoute({
       },
       description: "Internal server error",
     },
+    ...rateLimitResponses,
   },
   tags: ["Cached"],
-  summary: "Get people cache by name code index",
+  summary: "Get source API schema drift log",
   description:
-    "Returns all people cache entries indexed by name code with their primary keys. Requires valid indexer key.",
+    "Returns every field in HREP API responses that did not match the expected source schema, with how often and when it was seen. Requires an API key with the cache:read scope.",
   hide: true,
 });
 
@@ -128,13 +143,6 @@ export const cachedRouter = new OpenAPIHono();
 
 cachedRouter.openapi(cachedByFullNameRoute, async (c) => {
   try {
-    const { key } = c.req.valid("json");
-
-    // Verify indexer key
-    if (key !== INDEXER_KEY) {
-      return c.json({ error: "Unauthorized - Invalid indexer key" }, 401);
-    }
-
     const kv = await openKv();
     const entries: { fullName: string; primaryKey: string[] }[] = [];
 
@@ -168,13 +176,6 @@ cachedRouter.openapi(cachedByFullNameRoute, async (c) => {
 
 cachedRouter.openapi(cachedByNameCodeRoute, async (c) => {
   try {
-    const { key } = c.req.valid("json");
-
-    // Verify indexer key
-    if (key !== INDEXER_KEY) {
-      return c.json({ error: "Unauthorized - Invalid indexer key" }, 401);
-    }
-
     const kv = await openKv();
     const entries: { nameCode: string; primaryKey: string[] }[] = [];
 
@@ -205,3 +206,34 @@ cachedRouter.openapi(cachedByNameCodeRoute, async (c) => {
     );
   }
 });
+
+cachedRouter.openapi(cachedUpstreamDriftRoute, async (c) => {
+  try {
+    const kv = await openKv();
+    const entries: DriftEntry[] = [];
+
+    // Key format: ["upstream", "drift", endpoint, field]
+    const iter = kv.list<DriftEntry>({ prefix: ["upstream", "drift"] });
+
+    for await (const entry of iter) {
+      entries.push(entry.value);
+    }
+
+    await kv.close();
+
+    // Most recently seen drift first
+    entries.sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+
+    return c.json({
+      mode: getValidationMode(),
+      count: entries.length,
+      entries,
+    }, 200);
+  } catch (error) {
+    console.error("Error fetching schema drift log:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
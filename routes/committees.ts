@@ -1,9 +1,33 @@
 import { createRoute, OpenAPIHono, z } from "@hono/zod-openapi";
 import {
+  type CommitteeDocument,
+  type CommitteeInfo,
   CommitteeInfoSchema,
   PaginatedCommitteesSchema,
 } from "../types/api.ts";
 import { openKv } from "../lib/kv.ts";
+import {
+  type CsvColumn,
+  csvFormatQuery,
+  csvResponse,
+  toCsv,
+  wantsCsv,
+} from "../lib/csv.ts";
+import { rateLimitResponses } from "../lib/rate-limit.ts";
+
+/**
+ * Columns of the CSV list of committees
+ * Documents are left out, since the list does not include them.
+ */
+const COMMITTEES_CSV_COLUMNS: CsvColumn<CommitteeInfo>[] = [
+  { header: "id", value: (committee) => committee.id },
+  { header: "committeeId", value: (committee) => committee.committeeId },
+  { header: "name", value: (committee) => committee.name },
+  { header: "phone", value: (committee) => committee.phone },
+  { header: "jurisdiction", value: (committee) => committee.jurisdiction },
+  { header: "location", value: (committee) => committee.location },
+  { header: "type", value: (committee) => committee.type },
+];
 
 const committeeListRoute = createRoute({
   method: "get",
@@ -32,6 +56,7 @@ const committeeListRoute = createRoute({
           example: "25",
           description: "Number of items per page",
         }),
+      format: z.enum(["json", "csv"]).optional().openapi(csvFormatQuery),
     }),
   },
   responses: {
@@ -40,8 +65,15 @@ const committeeListRoute = createRoute({
         "application/json": {
           schema: PaginatedCommitteesSchema,
         },
+        "text/csv": {
+          schema: z.string().openapi({
+            example:
+              "id,committeeId,name,phone,jurisdiction,location,type\r\n1,0501,ACCOUNTS,(02) 8-9314465,...,Standing Committees\r\n",
+          }),
+        },
       },
-      description: "List of committees",
+      description:
+        "List of committees. As CSV, the pagination is sent in the X-Total-Count and X-Total-Pages headers.",
     },
     500: {
       content: {
@@ -53,10 +85,12 @@ const committeeListRoute = createRoute({
       },
       description: "Internal server error",
     },
+    ...rateLimitResponses,
   },
   tags: ["Committees"],
   summary: "Get all committees",
-  description: "Returns a paginated list of all committees from the cache.",
+  description:
+    "Returns a paginated list of all committees from the cache. Send Accept: text/csv or ?format=csv for CSV.",
 });
 
 const committeeByIdRoute = createRoute({
@@ -103,6 +137,7 @@ const committeeByIdRoute = createRoute({
       },
       description: "Internal server error",
     },
+    ...rateLimitResponses,
   },
   tags: ["Committees"],
   summary: "Get committee by ID",
@@ -112,7 +147,7 @@ const committeeByIdRoute = createRoute({
 export const committeesRouter = new OpenAPIHono();
 
 committeesRouter.openapi(committeeListRoute, async (c) => {
-  const { page = "0", limit = "25" } = c.req.valid("query");
+  const { page = "0", limit = "25", format } = c.req.valid("query");
   const pageNum = parseInt(page, 10);
   const limitNum = parseInt(limit, 10);
 
@@ -162,6 +197,15 @@ committeesRouter.openapi(committeeListRoute, async (c) => {
       documents: [], // Empty array for list view to match schema
     }));
 
+    if (wantsCsv(c, format)) {
+      return csvResponse(
+        c,
+        toCsv(data, COMMITTEES_CSV_COLUMNS),
+        "committees",
+        { page: pageNum, total, totalPages },
+      );
+    }
+
     return c.json({
       page: pageNum,
       limit: limitNum,
@@ -200,25 +244,46 @@ committeesRouter.openapi(committeeByIdRoute, async (c) => {
 
     // Fetch all documents associated with this committee from cache
     // Cache key pattern: ["congresses", congress, documentKey, "committees", committeeId]
-    const documents: Array<{ congress: number; documentKey: string }> = [];
+    const documents: CommitteeDocument[] = [];
+
+    // Referral types, cache key pattern:
+    // ["congresses", congress, documentKey, "referrals", committeeId]
+    const referralTypes = new Map<string, CommitteeDocument["referralType"]>();
 
     // List all entries under congresses prefix
     const congressEntries = kv.list({ prefix: ["congresses"] });
 
     for await (const congressEntry of congressEntries) {
+      if (
+        congressEntry.key.length !== 5 ||
+        congressEntry.key[4] !== committeeId
+      ) {
+        continue;
+      }
+
+      const congress = congressEntry.key[1] as number;
+      const documentKey = congressEntry.key[2] as string;
+
       // Key format: ["congresses", congress, documentKey, "committees", committeeId]
       if (
-        congressEntry.key.length === 5 &&
         congressEntry.key[3] === "committees" &&
-        congressEntry.key[4] === committeeId &&
         congressEntry.value === true
       ) {
-        const congress = congressEntry.key[1] as number;
-        const documentKey = congressEntry.key[2] as string;
-        documents.push({ congress, documentKey });
+        documents.push({ congress, documentKey, referralType: null });
+      } else if (congressEntry.key[3] === "referrals") {
+        referralTypes.set(
+          `${congress}/${documentKey}`,
+          congressEntry.value as CommitteeDocument["referralType"],
+        );
       }
     }
 
+    for (const document of documents) {
+      document.referralType =
+        referralTypes.get(`${document.congress}/${document.documentKey}`) ??
+          null;
+    }
+
     await kv.close();
 
     // Sort documents by congress (descending) then by documentKey
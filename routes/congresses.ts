@@ -5,15 +5,94 @@ import {
   fetchCongressReference,
 } from "../lib/api-client.ts";
 import { mapCongressId, mapToApiId } from "../lib/congress-mapper.ts";
+import {
+  UpstreamError,
+  upstreamErrorResponse,
+  upstreamErrorResponses,
+} from "../lib/upstream-errors.ts";
 import { openKv } from "../lib/kv.ts";
+import {
+  type CsvColumn,
+  csvFormatQuery,
+  csvReferral,
+  csvResponse,
+  toCsv,
+  wantsCsv,
+} from "../lib/csv.ts";
+import {
+  transformCommittee,
+  transformReadings,
+  transformReferrals,
+} from "../lib/bill-normalizer.ts";
 import {
   type Congress,
   CongressListSchema,
   type DocumentInfo,
   DocumentInfoSchema,
   PaginatedDocumentsSchema,
+  ReadingListSchema,
+  ReferralListSchema,
 } from "../types/api.ts";
 import type { BillListItem, CongressReferenceItem } from "../types/source.ts";
+import { rateLimitResponses } from "../lib/rate-limit.ts";
+
+/**
+ * Columns of the CSV list of documents
+ * Authors are written as "LASTNAME, Firstname" and referrals as
+ * "committeeId:type", like in the CSV exports.
+ */
+const DOCUMENTS_CSV_COLUMNS: CsvColumn<DocumentInfo>[] = [
+  { header: "id", value: (document) => document.id },
+  { header: "congress", value: (document) => document.congress },
+  { header: "documentKey", value: (document) => document.documentKey },
+  { header: "sessionNumber", value: (document) => document.sessionNumber },
+  { header: "titleShort", value: (document) => document.titleShort },
+  { header: "titleFull", value: (document) => document.titleFull },
+  { header: "abstract", value: (document) => document.abstract },
+  { header: "dateFiled", value: (document) => document.dateFiled },
+  { header: "status", value: (document) => document.status },
+  { header: "billType", value: (document) => document.billType },
+  { header: "significance", value: (document) => document.significance },
+  {
+    header: "authors",
+    value: (document) =>
+      document.authors.map((author) =>
+        `${author.lastName}, ${author.firstName}`
+      ),
+  },
+  {
+    header: "authorIds",
+    value: (document) => document.authors.map((author) => author.personId),
+  },
+  {
+    header: "coAuthors",
+    value: (document) =>
+      document.coAuthors.map((author) =>
+        `${author.lastName}, ${author.firstName}`
+      ),
+  },
+  {
+    header: "coAuthorIds",
+    value: (document) => document.coAuthors.map((author) => author.personId),
+  },
+  {
+    header: "committees",
+    value: (document) => document.committees.map((committee) => committee.name),
+  },
+  {
+    header: "referrals",
+    value: (document) =>
+      document.referrals.flatMap((referral) => {
+        const committeeId = referral.committeeId ?? referral.referral;
+        return committeeId ? [csvReferral(committeeId, referral.type)] : [];
+      }),
+  },
+  {
+    header: "readings",
+    value: (document) => document.readings.map((reading) => reading.stage),
+  },
+  { header: "downloadUrl", value: (document) => document.downloadUrl },
+];
 
 const congressesRoute = createRoute({
   method: "get",
@@ -37,6 +116,8 @@ const congressesRoute = createRoute({
       },
       description: "Internal server error",
     },
+    ...upstreamErrorResponses,
+    ...rateLimitResponses,
   },
   tags: ["Congresses"],
   summary: "Get all congresses",
@@ -92,6 +173,7 @@ const congressDocumentsRoute = createRoute({
         example: "",
         description: "Search filter",
       }),
+      format: z.enum(["json", "csv"]).optional().openapi(csvFormatQuery),
     }),
   },
   responses: {
@@ -100,8 +182,15 @@ const congressDocumentsRoute = createRoute({
         "application/json": {
           schema: PaginatedDocumentsSchema,
         },
+        "text/csv": {
+          schema: z.string().openapi({
+            example:
+              'id,congress,documentKey,...,authors,authorIds,...\r\n82865,20,HB00001,...,"ROMUALDEZ, FERDINAND MARTIN",F061,...\r\n',
+          }),
+        },
       },
-      description: "Paginated list of documents for the congress",
+      description:
+        "Paginated list of documents for the congress. As CSV, lists are joined with semicolons and the pagination is sent in the X-Total-Count and X-Total-Pages headers.",
     },
     500: {
       content: {
@@ -113,11 +202,13 @@ const congressDocumentsRoute = createRoute({
       },
       description: "Internal server error",
     },
+    ...upstreamErrorResponses,
+    ...rateLimitResponses,
   },
   tags: ["Congresses"],
   summary: "Get documents for a specific congress",
   description:
-    "Returns a paginated list of bills/documents for a specific congress. Fetches from the source API and validates author names against the people cache.",
+    "Returns a paginated list of bills/documents for a specific congress. Fetches from the source API and validates author names against the people cache. Send Accept: text/csv or ?format=csv for a flattened CSV.",
 });
 
 /**
@@ -175,6 +266,8 @@ const congressDocumentByKeyRoute = createRoute({
       },
       description: "Internal server error",
     },
+    ...upstreamErrorResponses,
+    ...rateLimitResponses,
   },
   tags: ["Congresses"],
   summary: "Get a specific document by key",
@@ -182,6 +275,134 @@ const congressDocumentByKeyRoute = createRoute({
     "Returns details for a specific bill/document using the /bills/search endpoint from the source API.",
 });
 
+/**
+ * Route definition for GET /congresses/{congressNumber}/documents/{documentKey}/readings
+ */
+const congressDocumentReadingsRoute = createRoute({
+  method: "get",
+  path: "/congresses/{congressNumber}/documents/{documentKey}/readings",
+  request: {
+    params: z.object({
+      congressNumber: z.string().openapi({
+        param: {
+          name: "congressNumber",
+          in: "path",
+        },
+        example: "20",
+        description: "Congress number (e.g., 20 for 20th Congress)",
+      }),
+      documentKey: z.string().openapi({
+        param: {
+          name: "documentKey",
+          in: "path",
+        },
+        example: "HB00001",
+        description: "Document key (e.g., HB00001)",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: ReadingListSchema,
+        },
+      },
+      description: "Readings of the document, in order",
+    },
+    404: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Document not found",
+    },
+    500: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Internal server error",
+    },
+    ...upstreamErrorResponses,
+    ...rateLimitResponses,
+  },
+  tags: ["Congresses"],
+  summary: "Get the readings of a document",
+  description:
+    "Returns the first, second and third readings of a bill/document with ISO dates and the committee it was referred to resolved to a committee ID. Readings that have not happened yet are omitted.",
+});
+
+/**
+ * Route definition for GET /congresses/{congressNumber}/documents/{documentKey}/referrals
+ */
+const congressDocumentReferralsRoute = createRoute({
+  method: "get",
+  path: "/congresses/{congressNumber}/documents/{documentKey}/referrals",
+  request: {
+    params: z.object({
+      congressNumber: z.string().openapi({
+        param: {
+          name: "congressNumber",
+          in: "path",
+        },
+        example: "20",
+        description: "Congress number (e.g., 20 for 20th Congress)",
+      }),
+      documentKey: z.string().openapi({
+        param: {
+          name: "documentKey",
+          in: "path",
+        },
+        example: "HB00001",
+        description: "Document key (e.g., HB00001)",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: ReferralListSchema,
+        },
+      },
+      description: "Committee referrals of the document",
+    },
+    404: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Document not found",
+    },
+    500: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Internal server error",
+    },
+    ...upstreamErrorResponses,
+    ...rateLimitResponses,
+  },
+  tags: ["Congresses"],
+  summary: "Get the committee referrals of a document",
+  description:
+    "Returns the committees a bill/document was referred to: principal and secondary referrals, and previous referrals that were replaced, with sequence, journal number and committee details. Committee details are null if the committee has not been indexed.",
+});
+
 /**
  * Helper function to transform author/coauthor data with person information
  * Looks up person by personId directly
@@ -218,7 +439,12 @@ async function transformAuthor(
 
     return {
       personId,
-      ...personInfo,
+      id: personInfo.id,
+      lastName: personInfo.lastName,
+      firstName: personInfo.firstName,
+      middleName: personInfo.middleName,
+      suffix: personInfo.suffix,
+      nickName: personInfo.nickName,
       congresses: membership,
     };
   }
@@ -227,47 +453,6 @@ async function transformAuthor(
   return null;
 }
 
-/**
- * Helper function to transform committee data with committee information
- * Looks up committee by committeeId directly
- */
-async function transformCommittee(
-  kv: Deno.Kv,
-  committeeId: string,
-) {
-  const committeeInfoResult = await kv.get([
-    "committees",
-    "byCommitteeId",
-    committeeId,
-    "information",
-  ]);
-
-  if (committeeInfoResult.value) {
-    const committeeInfo = committeeInfoResult.value as {
-      id: number;
-      code: string;
-      name: string;
-      phone: string | null;
-      jurisdiction: string | null;
-      location: string | null;
-      type_desc: string;
-    };
-
-    return {
-      committeeId: committeeInfo.code,
-      id: committeeInfo.id,
-      name: committeeInfo.name,
-      phone: committeeInfo.phone,
-      jurisdiction: committeeInfo.jurisdiction,
-      location: committeeInfo.location,
-      type_desc: committeeInfo.type_desc,
-    };
-  }
-
-  // If committeeId lookup fails, return null (will be filtered out)
-  return null;
-}
-
 /**
  * Transform source BillListItem to DocumentInfo
  * Note: Uses KV cache for consistent author/coauthor/committee data
@@ -296,6 +481,9 @@ async function transformBillToDocument(
     committeeIds.map((committeeId) => transformCommittee(kv, committeeId)),
   );
 
+  const readings = await transformReadings(kv, bill);
+  const referrals = await transformReferrals(kv, bill);
+
   return {
     id: bill.id,
     congress: normalizedCongress,
@@ -312,6 +500,8 @@ async function transformBillToDocument(
     committees: committees.filter((c): c is NonNullable<typeof c> =>
       c !== null
     ),
+    readings,
+    referrals,
     billType: bill.bill_type,
     significance: bill.significance_desc,
   };
@@ -323,7 +513,7 @@ congressesRouter.openapi(congressesRoute, async (c) => {
   try {
     const response = await fetchCongressReference();
 
-    if (!response.success || !response.data) {
+    if (!response.data) {
       return c.json({ error: "Failed to fetch congress data" }, 500);
     }
 
@@ -335,6 +525,9 @@ congressesRouter.openapi(congressesRoute, async (c) => {
     return c.json(congressList, 200);
   } catch (error) {
     console.error("Error fetching congress data:", error);
+    if (error instanceof UpstreamError) {
+      return upstreamErrorResponse(c, error);
+    }
     return c.json(
       { error: error instanceof Error ? error.message : "Unknown error" },
       500,
@@ -345,7 +538,9 @@ congressesRouter.openapi(congressesRoute, async (c) => {
 congressesRouter.openapi(congressDocumentsRoute, async (c) => {
   try {
     const { congressNumber } = c.req.valid("param");
-    const { page = "0", limit = "10", filter = "" } = c.req.valid("query");
+    const { page = "0", limit = "10", filter = "", format } = c.req.valid(
+      "query",
+    );
 
     const congressNum = parseInt(congressNumber, 10);
     const pageNum = parseInt(page, 10);
@@ -362,7 +557,7 @@ congressesRouter.openapi(congressDocumentsRoute, async (c) => {
       filter,
     );
 
-    if (!response.success || !response.data) {
+    if (!response.data) {
       return c.json({ error: "Failed to fetch bills from source API" }, 500);
     }
 
@@ -430,6 +625,15 @@ congressesRouter.openapi(congressDocumentsRoute, async (c) => {
     const total = response.data.count;
     const totalPages = Math.ceil(total / limitNum);
 
+    if (wantsCsv(c, format)) {
+      return csvResponse(
+        c,
+        toCsv(documents, DOCUMENTS_CSV_COLUMNS),
+        `congress-${congressNum}-documents`,
+        { page: pageNum, total, totalPages },
+      );
+    }
+
     return c.json(
       {
         page: pageNum,
@@ -442,6 +646,9 @@ congressesRouter.openapi(congressDocumentsRoute, async (c) => {
     );
   } catch (error) {
     console.error("Error fetching congress documents:", error);
+    if (error instanceof UpstreamError) {
+      return upstreamErrorResponse(c, error);
+    }
     return c.json(
       { error: error instanceof Error ? error.message : "Unknown error" },
       500,
@@ -461,7 +668,7 @@ congressesRouter.openapi(congressDocumentByKeyRoute, async (c) => {
     // Fetch from the source API using /bills/search
     const response = await fetchBillByDocumentKey(apiCongressId, documentKey);
 
-    if (!response.success || !response.data) {
+    if (!response.data) {
       return c.json({ error: "Failed to fetch bill from source API" }, 500);
     }
 
@@ -527,6 +734,81 @@ congressesRouter.openapi(congressDocumentByKeyRoute, async (c) => {
     return c.json(document, 200);
   } catch (error) {
     console.error("Error fetching congress document by key:", error);
+    if (error instanceof UpstreamError) {
+      return upstreamErrorResponse(c, error);
+    }
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
+
+congressesRouter.openapi(congressDocumentReadingsRoute, async (c) => {
+  try {
+    const { congressNumber, documentKey } = c.req.valid("param");
+
+    const congressNum = parseInt(congressNumber, 10);
+
+    // Convert congress number to API ID (20 → 103)
+    const apiCongressId = mapToApiId(congressNum);
+
+    const response = await fetchBillByDocumentKey(apiCongressId, documentKey);
+
+    if (!response.data) {
+      return c.json({ error: "Failed to fetch bill from source API" }, 500);
+    }
+
+    if (response.data.rows.length === 0) {
+      return c.json({ error: "Document not found" }, 404);
+    }
+
+    const kv = await openKv();
+    const readings = await transformReadings(kv, response.data.rows[0]);
+    await kv.close();
+
+    return c.json(readings, 200);
+  } catch (error) {
+    console.error("Error fetching document readings:", error);
+    if (error instanceof UpstreamError) {
+      return upstreamErrorResponse(c, error);
+    }
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
+
+congressesRouter.openapi(congressDocumentReferralsRoute, async (c) => {
+  try {
+    const { congressNumber, documentKey } = c.req.valid("param");
+
+    const congressNum = parseInt(congressNumber, 10);
+
+    // Convert congress number to API ID (20 → 103)
+    const apiCongressId = mapToApiId(congressNum);
+
+    const response = await fetchBillByDocumentKey(apiCongressId, documentKey);
+
+    if (!response.data) {
+      return c.json({ error: "Failed to fetch bill from source API" }, 500);
+    }
+
+    if (response.data.rows.length === 0) {
+      return c.json({ error: "Document not found" }, 404);
+    }
+
+    const kv = await openKv();
+    const referrals = await transformReferrals(kv, response.data.rows[0]);
+    await kv.close();
+
+    return c.json(referrals, 200);
+  } catch (error) {
+    console.error("Error fetching document referrals:", error);
+    if (error instanceof UpstreamError) {
+      return upstreamErrorResponse(c, error);
+    }
     return c.json(
       { error: error instanceof Error ? error.message : "Unknown error" },
       500,
@@ -0,0 +1,339 @@
+import { createRoute, OpenAPIHono, z } from "@hono/zod-openapi";
+import {
+  type District,
+  DistrictListSchema,
+  type Region,
+  RegionListSchema,
+  RegionPeopleSchema,
+  type RegionPerson,
+} from "../types/api.ts";
+import { openKv } from "../lib/kv.ts";
+import {
+  type CachedMember,
+  countAuthoredDocuments,
+  getCachedMembers,
+} from "../lib/member-cache.ts";
+import type { DistrictInformation } from "../lib/district-normalizer.ts";
+import {
+  getRegion,
+  listRegions,
+  type RegionInformation,
+} from "../lib/regions.ts";
+import { rateLimitResponses } from "../lib/rate-limit.ts";
+
+const RegionParamsSchema = z.object({
+  regionId: z.string().openapi({
+    param: {
+      name: "regionId",
+      in: "path",
+    },
+    example: "region-7",
+    description: "Region identifier (e.g., ncr, car, region-7, barmm)",
+  }),
+});
+
+/**
+ * Route definition for GET /districts
+ */
+const districtsRoute = createRoute({
+  method: "get",
+  path: "/districts",
+  request: {
+    query: z.object({
+      regionId: z.string().optional().openapi({
+        example: "region-7",
+        description: "Only return districts in this region",
+      }),
+      kind: z.enum(["district", "lone", "party-list"]).optional().openapi({
+        example: "district",
+        description: "Only return districts of this kind",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: DistrictListSchema,
+        },
+      },
+      description: "List of districts",
+    },
+    500: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Internal server error",
+    },
+    ...rateLimitResponses,
+  },
+  tags: ["Districts"],
+  summary: "Get all districts",
+  description:
+    "Returns the legislative districts and party-lists of indexed people, grouped by region, with their representation and authored document counts. Districts are parsed from the free-text district of each house member. Populated by POST /api/index/people/information; authored document counts require POST /api/index/documents/authors.",
+});
+
+/**
+ * Route definition for GET /regions
+ */
+const regionsRoute = createRoute({
+  method: "get",
+  path: "/regions",
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: RegionListSchema,
+        },
+      },
+      description: "List of regions",
+    },
+    500: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Internal server error",
+    },
+    ...rateLimitResponses,
+  },
+  tags: ["Districts"],
+  summary: "Get all regions",
+  description:
+    "Returns all administrative regions, in the official order, with the representation and authored document counts of their districts. Party-list representatives are not part of any region.",
+});
+
+/**
+ * Route definition for GET /regions/{regionId}/people
+ */
+const regionPeopleRoute = createRoute({
+  method: "get",
+  path: "/regions/{regionId}/people",
+  request: {
+    params: RegionParamsSchema,
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: RegionPeopleSchema,
+        },
+      },
+      description: "Region with its districts and representatives",
+    },
+    404: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Region not found",
+    },
+    500: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Internal server error",
+    },
+    ...rateLimitResponses,
+  },
+  tags: ["Districts"],
+  summary: "Get the people of a region",
+  description:
+    "Returns a region with its districts and the people representing them.",
+});
+
+/**
+ * District as cached in KV, with its representatives
+ */
+interface CachedDistrict {
+  information: DistrictInformation;
+  members: CachedMember[];
+}
+
+/**
+ * Reads districts and their representatives from the cache
+ * Keys: ["districts", "byDistrictId", districtId, "information" | "members", ...]
+ * Districts whose representatives all moved to another district are skipped.
+ */
+async function getCachedDistricts(kv: Deno.Kv): Promise<CachedDistrict[]> {
+  const informations = new Map<string, DistrictInformation>();
+  const personIds = new Map<string, string[]>();
+
+  for await (
+    const entry of kv.list({ prefix: ["districts", "byDistrictId"] })
+  ) {
+    const districtId = entry.key[2] as string;
+    if (entry.key[3] === "information") {
+      informations.set(districtId, entry.value as DistrictInformation);
+    } else if (entry.key[3] === "members") {
+      personIds.set(districtId, [
+        ...(personIds.get(districtId) ?? []),
+        entry.key[4] as string,
+      ]);
+    }
+  }
+
+  const districts: CachedDistrict[] = [];
+  for (const [districtId, information] of informations) {
+    const members = await getCachedMembers(
+      kv,
+      personIds.get(districtId) ?? [],
+    );
+    if (members.length > 0) {
+      districts.push({ information, members });
+    }
+  }
+
+  // Region order first, then by name; party-lists and unknown regions last
+  const regionOrder = listRegions().map((region) => region.regionId);
+  const regionIndex = (regionId: string | null) =>
+    regionId ? regionOrder.indexOf(regionId) : regionOrder.length;
+
+  return districts.sort((a, b) =>
+    regionIndex(a.information.regionId) -
+      regionIndex(b.information.regionId) ||
+    (a.information.province ?? a.information.city ?? "").localeCompare(
+      b.information.province ?? b.information.city ?? "",
+    ) ||
+    (a.information.number ?? 0) - (b.information.number ?? 0) ||
+    a.information.name.localeCompare(b.information.name)
+  );
+}
+
+function transformDistrict(district: CachedDistrict): District {
+  return {
+    ...district.information,
+    memberCount: district.members.length,
+    currentMemberCount: district.members.filter((member) => member.current)
+      .length,
+    authoredDocumentCount: countAuthoredDocuments(district.members),
+  };
+}
+
+function transformRegion(
+  region: RegionInformation,
+  districts: CachedDistrict[],
+): Region {
+  const members = districts.flatMap((district) => district.members);
+  return {
+    ...region,
+    districtCount: districts.length,
+    memberCount: members.length,
+    currentMemberCount: members.filter((member) => member.current).length,
+    authoredDocumentCount: countAuthoredDocuments(members),
+  };
+}
+
+export const districtsRouter = new OpenAPIHono();
+
+districtsRouter.openapi(districtsRoute, async (c) => {
+  try {
+    const { regionId, kind } = c.req.valid("query");
+
+    const kv = await openKv();
+    const districts = await getCachedDistricts(kv);
+    kv.close();
+
+    return c.json(
+      districts
+        .filter((district) =>
+          (!regionId || district.information.regionId === regionId) &&
+          (!kind || district.information.kind === kind)
+        )
+        .map(transformDistrict),
+      200,
+    );
+  } catch (error) {
+    console.error("Error fetching districts:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
+
+districtsRouter.openapi(regionsRoute, async (c) => {
+  try {
+    const kv = await openKv();
+    const districts = await getCachedDistricts(kv);
+    kv.close();
+
+    return c.json(
+      listRegions().map((region) =>
+        transformRegion(
+          region,
+          districts.filter((district) =>
+            district.information.regionId === region.regionId
+          ),
+        )
+      ),
+      200,
+    );
+  } catch (error) {
+    console.error("Error fetching regions:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
+
+districtsRouter.openapi(regionPeopleRoute, async (c) => {
+  try {
+    const { regionId } = c.req.valid("param");
+
+    const region = getRegion(regionId);
+    if (!region) {
+      return c.json({ error: "Region not found" }, 404);
+    }
+
+    const kv = await openKv();
+    const districts = (await getCachedDistricts(kv)).filter((district) =>
+      district.information.regionId === regionId
+    );
+    kv.close();
+
+    const people: RegionPerson[] = districts
+      .flatMap((district) =>
+        district.members.map((member) => ({
+          ...member.author,
+          districtId: district.information.districtId,
+          district: district.information.name,
+          current: member.current,
+        }))
+      )
+      .sort((a, b) =>
+        a.lastName.localeCompare(b.lastName) ||
+        a.firstName.localeCompare(b.firstName)
+      );
+
+    return c.json(
+      {
+        ...transformRegion(region, districts),
+        districts: districts.map(transformDistrict),
+        people,
+      },
+      200,
+    );
+  } catch (error) {
+    console.error("Error fetching region people:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
@@ -0,0 +1,148 @@
+import { createRoute, OpenAPIHono, z } from "@hono/zod-openapi";
+import { type Export, ExportManifestSchema } from "../types/api.ts";
+import { openKv } from "../lib/kv.ts";
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_DATASETS,
+  EXPORT_FORMATS,
+  type ExportDataset,
+  type ExportFormat,
+  getExportManifest,
+  streamExport,
+} from "../lib/exports.ts";
+import { rateLimitResponses } from "../lib/rate-limit.ts";
+import {
+  validationErrorHook,
+  validationErrorResponses,
+} from "../lib/validation.ts";
+
+const EXPORT_FILES = EXPORT_DATASETS.flatMap((dataset) =>
+  EXPORT_FORMATS.map((format) => `${dataset}.${format}`)
+) as [string, ...string[]];
+
+/**
+ * Route definition for GET /exports
+ */
+const exportManifestRoute = createRoute({
+  method: "get",
+  path: "/exports",
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: ExportManifestSchema,
+        },
+      },
+      description: "Manifest of generated exports",
+    },
+    500: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Internal server error",
+    },
+    ...rateLimitResponses,
+  },
+  tags: ["Exports"],
+  summary: "Get the bulk export manifest",
+  description:
+    "Lists the generated bulk exports, newest congress first, with their row counts, when they were generated and their download paths. The manifest is updated by POST /api/index/exports and whenever an export is downloaded in full.",
+});
+
+/**
+ * Route definition for GET /exports/congresses/{congressNumber}/{file}
+ */
+const congressExportRoute = createRoute({
+  method: "get",
+  path: "/exports/congresses/{congressNumber}/{file}",
+  request: {
+    params: z.object({
+      congressNumber: z.string().regex(
+        /^[1-9]\d*$/,
+        "Congress number must be a positive integer",
+      ).openapi({
+        param: {
+          name: "congressNumber",
+          in: "path",
+        },
+        example: "20",
+        description: "Congress number",
+      }),
+      file: z.enum(EXPORT_FILES).openapi({
+        param: {
+          name: "file",
+          in: "path",
+        },
+        example: "documents.ndjson",
+        description: "Dataset (documents, people, committees) and format",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/x-ndjson": {
+          schema: z.string(),
+        },
+        "text/csv": {
+          schema: z.string(),
+        },
+      },
+      description: "Bulk export, streamed row by row",
+    },
+    ...validationErrorResponses,
+    ...rateLimitResponses,
+  },
+  tags: ["Exports"],
+  summary: "Download a bulk export of a congress",
+  description:
+    "Streams a whole congress from the KV cache as NDJSON (one JSON object per line) or CSV. documents has one row per document with its authors, co-authors and committee referrals; people has one row per member of the congress; committees has one row per committee that documents were referred to. In CSV, lists are separated by semicolons and referrals are written as committeeId:type.",
+});
+
+export const exportsRouter = new OpenAPIHono();
+
+exportsRouter.openapi(exportManifestRoute, async (c) => {
+  try {
+    const kv = await openKv();
+    const records = await getExportManifest(kv);
+    kv.close();
+
+    const data: Export[] = records.map((record) => {
+      const path =
+        `/api/exports/congresses/${record.congress}/${record.dataset}`;
+      return {
+        ...record,
+        files: { ndjson: `${path}.ndjson`, csv: `${path}.csv` },
+      };
+    });
+
+    return c.json({ total: data.length, data }, 200);
+  } catch (error) {
+    console.error("Error fetching export manifest:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
+
+exportsRouter.openapi(
+  congressExportRoute,
+  (c) => {
+    const { congressNumber, file } = c.req.valid("param");
+    const [dataset, format] = file.split(".") as [ExportDataset, ExportFormat];
+    const congressNum = parseInt(congressNumber, 10);
+
+    // Rows are read from KV while the response is sent; errors abort the stream
+    return c.body(streamExport(dataset, congressNum, format), 200, {
+      "Content-Type": `${EXPORT_CONTENT_TYPES[format]}; charset=utf-8`,
+      "Content-Disposition":
+        `attachment; filename="congress-${congressNum}-${file}"`,
+    });
+  },
+  validationErrorHook,
+);
@@ -0,0 +1,122 @@
+import { Context, Hono } from "hono";
+import { openKv } from "../lib/kv.ts";
+import {
+  committeeFeedItems,
+  congressFeedItems,
+  type Feed,
+  FEED_CONTENT_TYPES,
+  type FeedFormat,
+  personFeedItems,
+  toAtom,
+  toRss,
+} from "../lib/feeds.ts";
+import type { PersonInformation } from "../lib/person-normalizer.ts";
+
+const feeds = new Hono();
+
+/**
+ * Splits a feed file name such as "E001.atom" into its ID and format
+ */
+function parseFeedFile(
+  file: string,
+): { id: string; format: FeedFormat } | null {
+  const match = file.match(/^(.+)\.(rss|atom)$/);
+  return match ? { id: match[1], format: match[2] as FeedFormat } : null;
+}
+
+function feedResponse(c: Context, feed: Feed, format: FeedFormat) {
+  const url = new URL(c.req.url);
+  const baseUrl = `${url.protocol}//${url.host}`;
+  return c.body(
+    format === "rss" ? toRss(feed, baseUrl) : toAtom(feed, baseUrl),
+    200,
+    { "Content-Type": `${FEED_CONTENT_TYPES[format]}; charset=utf-8` },
+  );
+}
+
+// Newly filed documents of a congress, e.g. /feeds/congresses/20.atom
+feeds.get("/feeds/congresses/:file", async (c) => {
+  const file = parseFeedFile(c.req.param("file"));
+  const congress = file ? parseInt(file.id, 10) : NaN;
+  if (!file || isNaN(congress)) {
+    return c.text("Feed not found", 404);
+  }
+
+  const kv = await openKv();
+  const items = await congressFeedItems(kv, congress);
+  kv.close();
+
+  return feedResponse(c, {
+    title: `${congress}th Congress - Newly Filed Bills`,
+    description:
+      `Most recently filed bills of the ${congress}th Congress of the Philippine House of Representatives`,
+    pagePath: `/congresses/${congress}`,
+    feedPath: `/feeds/congresses/${congress}`,
+    items,
+  }, file.format);
+});
+
+// Documents authored or co-authored by a person, e.g. /feeds/people/E001.rss
+feeds.get("/feeds/people/:file", async (c) => {
+  const file = parseFeedFile(c.req.param("file"));
+  if (!file) {
+    return c.text("Feed not found", 404);
+  }
+
+  const kv = await openKv();
+  const info = await kv.get<PersonInformation>([
+    "people",
+    "byPersonId",
+    file.id,
+    "information",
+  ]);
+  if (!info.value) {
+    kv.close();
+    return c.text("Person not found", 404);
+  }
+  const items = await personFeedItems(kv, file.id);
+  kv.close();
+
+  const name = [info.value.firstName, info.value.lastName, info.value.suffix]
+    .filter(Boolean).join(" ");
+  return feedResponse(c, {
+    title: `${name} - Bills`,
+    description: `Most recently filed bills authored or co-authored by ${name}`,
+    pagePath: `/people/${file.id}`,
+    feedPath: `/feeds/people/${file.id}`,
+    items,
+  }, file.format);
+});
+
+// Documents referred to a committee, e.g. /feeds/committees/0543.atom
+feeds.get("/feeds/committees/:file", async (c) => {
+  const file = parseFeedFile(c.req.param("file"));
+  if (!file) {
+    return c.text("Feed not found", 404);
+  }
+
+  const kv = await openKv();
+  const info = await kv.get<{ name: string }>([
+    "committees",
+    "byCommitteeId",
+    file.id,
+    "information",
+  ]);
+  if (!info.value) {
+    kv.close();
+    return c.text("Committee not found", 404);
+  }
+  const items = await committeeFeedItems(kv, file.id);
+  kv.close();
+
+  return feedResponse(c, {
+    title: `${info.value.name} - Referred Bills`,
+    description:
+      `Most recently filed bills referred to the Committee on ${info.value.name}`,
+    pagePath: `/committees/${file.id}`,
+    feedPath: `/feeds/committees/${file.id}`,
+    items,
+  }, file.format);
+});
+
+export { feeds };
@@ -0,0 +1,99 @@
+import { createRoute, OpenAPIHono, z } from "@hono/zod-openapi";
+import { DocumentHistorySchema } from "../types/api.ts";
+import { openKv } from "../lib/kv.ts";
+import { getDocumentHistory } from "../lib/document-history.ts";
+import { rateLimitResponses } from "../lib/rate-limit.ts";
+
+/**
+ * Route definition for GET /congresses/{congressNumber}/documents/{documentKey}/history
+ */
+const documentHistoryRoute = createRoute({
+  method: "get",
+  path: "/congresses/{congressNumber}/documents/{documentKey}/history",
+  request: {
+    params: z.object({
+      congressNumber: z.string().openapi({
+        param: {
+          name: "congressNumber",
+          in: "path",
+        },
+        example: "20",
+        description: "Congress number (e.g., 20 for 20th Congress)",
+      }),
+      documentKey: z.string().openapi({
+        param: {
+          name: "documentKey",
+          in: "path",
+        },
+        example: "HB00001",
+        description: "Document key (e.g., HB00001)",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: DocumentHistorySchema,
+        },
+      },
+      description: "History of the document",
+    },
+    404: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Document not indexed",
+    },
+    500: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Internal server error",
+    },
+    ...rateLimitResponses,
+  },
+  tags: ["Congresses"],
+  summary: "Get the history of a document",
+  description:
+    "Returns the changes to the status, readings, committee referrals, authors and co-authors of a bill/document, oldest first. Changes are recorded by POST /api/index/documents/information, which compares the bill with the previously indexed information, so the history starts when the document was first indexed. Documents indexed before history tracking have no entries until they change.",
+});
+
+export const historyRouter = new OpenAPIHono();
+
+historyRouter.openapi(documentHistoryRoute, async (c) => {
+  try {
+    const { congressNumber, documentKey } = c.req.valid("param");
+    const congress = parseInt(congressNumber, 10);
+
+    const kv = await openKv();
+    const [information, history] = await Promise.all([
+      kv.get(["congresses", congress, documentKey, "information"]),
+      getDocumentHistory(kv, congress, documentKey),
+    ]);
+    kv.close();
+
+    if (!information.value && history.length === 0) {
+      return c.json({ error: "Document not indexed" }, 404);
+    }
+
+    return c.json(
+      { congress, documentKey, total: history.length, data: history },
+      200,
+    );
+  } catch (error) {
+    console.error("Error fetching document history:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
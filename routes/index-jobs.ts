@@ -0,0 +1,235 @@
+import { createRoute, OpenAPIHono, z } from "@hono/zod-openapi";
+import {
+  type IndexJobError,
+  IndexJobErrorSchema,
+  IndexJobSchema,
+} from "../types/api.ts";
+import { openKv } from "../lib/kv.ts";
+import {
+  deadLetterUndeliveredTasks,
+  getIndexJob,
+  INDEX_TASK_KINDS,
+  type IndexJob,
+  type IndexTaskRecord,
+  listIndexJobErrors,
+  listIndexJobs,
+} from "../lib/index-jobs.ts";
+import {
+  authErrorResponses,
+  bearerAuthSecurity,
+  requireScope,
+} from "../lib/api-keys.ts";
+import { rateLimitResponses } from "../lib/rate-limit.ts";
+
+/**
+ * Route definition for GET /index/jobs
+ */
+const indexJobsRoute = createRoute({
+  method: "get",
+  path: "/index/jobs",
+  middleware: [requireScope("index:write")] as const,
+  security: bearerAuthSecurity,
+  request: {
+    query: z.object({
+      congress: z.string().optional().openapi({
+        example: "20",
+        description: "Only return jobs indexing this congress",
+      }),
+      status: z.enum(["queued", "running", "done", "failed"]).optional()
+        .openapi({
+          example: "running",
+          description: "Only return jobs with this status",
+        }),
+      limit: z.string().optional().openapi({
+        example: "20",
+        description: "Maximum number of jobs. Default: 20",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            total: z.number(),
+            data: z.array(IndexJobSchema),
+          }),
+        },
+      },
+      description: "List of index jobs",
+    },
+    ...authErrorResponses,
+    500: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Internal server error",
+    },
+    ...rateLimitResponses,
+  },
+  tags: ["Index"],
+  summary: "Get index jobs",
+  description:
+    "Returns the jobs enqueued by POST /api/index/congresses, newest first, with their status, how many chunks are done out of the total, and their timings. Requires an API key with the index:write scope.",
+});
+
+/**
+ * Route definition for GET /index/jobs/{jobId}
+ */
+const indexJobRoute = createRoute({
+  method: "get",
+  path: "/index/jobs/{jobId}",
+  middleware: [requireScope("index:write")] as const,
+  security: bearerAuthSecurity,
+  request: {
+    params: z.object({
+      jobId: z.string().openapi({
+        param: {
+          name: "jobId",
+          in: "path",
+        },
+        example: "9d4c2a4e-6a0f-4f57-8f6e-2b8f9c3e1d7a",
+        description: "Index job ID",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: IndexJobSchema.extend({
+            errors: z.array(IndexJobErrorSchema).openapi({
+              description:
+                "Tasks whose last attempt failed, in the order they were attempted",
+            }),
+          }),
+        },
+      },
+      description: "Index job with its errors",
+    },
+    ...authErrorResponses,
+    404: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Index job not found",
+    },
+    500: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Internal server error",
+    },
+    ...rateLimitResponses,
+  },
+  tags: ["Index"],
+  summary: "Get an index job",
+  description:
+    "Returns the status of an index job (queued, running, done or failed), how many chunks are done out of the total, overall and per kind of task, its timings, and the tasks whose last attempt failed: dead-lettered tasks and tasks waiting for a retry, with the people, committees or documents that failed. The total number of chunks of a kind is known once its first chunk or page ran. Requires an API key with the index:write scope.",
+});
+
+/**
+ * Adds the overall progress and duration of a job
+ */
+function toIndexJobResponse(job: IndexJob) {
+  const chunks = INDEX_TASK_KINDS.reduce(
+    (sum, kind) => ({
+      done: sum.done + job.progress[kind].done,
+      total: sum.total + job.progress[kind].total,
+    }),
+    { done: 0, total: 0 },
+  );
+  const durationMs = job.startedAt
+    ? new Date(job.finishedAt ?? Date.now()).getTime() -
+      new Date(job.startedAt).getTime()
+    : null;
+
+  return { ...job, chunks, durationMs };
+}
+
+function toIndexJobError(record: IndexTaskRecord): IndexJobError {
+  return {
+    taskId: record.taskId,
+    kind: record.task.kind,
+    startIndex: "startIndex" in record.task ? record.task.startIndex : null,
+    page: "page" in record.task ? record.task.page : null,
+    status: record.status === "dead_lettered" ? "dead_lettered" : "pending",
+    attempts: record.attempts,
+    error: record.error ?? "",
+    failedItems: record.failedItems,
+    updatedAt: record.updatedAt,
+  };
+}
+
+export const indexJobsRouter = new OpenAPIHono();
+
+indexJobsRouter.openapi(indexJobsRoute, async (c) => {
+  try {
+    const { congress, status, limit } = c.req.valid("query");
+    const congressNum = congress ? parseInt(congress, 10) : undefined;
+    const limitNum = limit ? parseInt(limit, 10) : 20;
+
+    const kv = await openKv();
+    await deadLetterUndeliveredTasks(kv);
+    const jobs = (await listIndexJobs(kv)).filter((job) =>
+      (congressNum === undefined || job.congress === congressNum) &&
+      (status === undefined || job.status === status)
+    );
+    kv.close();
+
+    return c.json(
+      {
+        total: jobs.length,
+        data: jobs.slice(0, limitNum).map(toIndexJobResponse),
+      },
+      200,
+    );
+  } catch (error) {
+    console.error("Error fetching index jobs:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
+
+indexJobsRouter.openapi(indexJobRoute, async (c) => {
+  try {
+    const { jobId } = c.req.valid("param");
+
+    const kv = await openKv();
+    await deadLetterUndeliveredTasks(kv);
+    const [job, errors] = await Promise.all([
+      getIndexJob(kv, jobId),
+      listIndexJobErrors(kv, jobId),
+    ]);
+    kv.close();
+
+    if (!job) {
+      return c.json({ error: "Index job not found" }, 404);
+    }
+
+    return c.json(
+      { ...toIndexJobResponse(job), errors: errors.map(toIndexJobError) },
+      200,
+    );
+  } catch (error) {
+    console.error("Error fetching index job:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
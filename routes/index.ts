@@ -8,26 +8,59 @@ import {
   fetchHouseMembersDDL,
 } from "../lib/api-client.ts";
 import { mapCongressId, mapToApiId } from "../lib/congress-mapper.ts";
-import { openKv } from "../lib/kv.ts";
-
-const INDEXER_KEY = Deno.env.get("INDEXER_KEY")!;
-
-if (!INDEXER_KEY) {
-  throw new Error("INDEXER_KEY environment variable must be set");
-}
-
-const IndexRequestSchema = z.object({
-  key: z.string().openapi({
-    example: "your-indexer-key",
-    description: "Indexer authentication key",
-  }),
-});
+import {
+  UpstreamError,
+  upstreamErrorResponse,
+  upstreamErrorResponses,
+} from "../lib/upstream-errors.ts";
+import { getManyEntries, openKv } from "../lib/kv.ts";
+import { indexDocumentForSearch } from "../lib/search-index.ts";
+import {
+  authorNames,
+  normalizeCommitteeName,
+  readingStages,
+  referralNames,
+  transformReadings,
+  transformReferrals,
+} from "../lib/bill-normalizer.ts";
+import {
+  type PersonInformation,
+  transformPersonProfile,
+} from "../lib/person-normalizer.ts";
+import {
+  normalizeParty,
+  type PartyInformation,
+} from "../lib/party-normalizer.ts";
+import {
+  type DistrictInformation,
+  parseDistrict,
+} from "../lib/district-normalizer.ts";
+import {
+  type DocumentInformation,
+  markCongressStatsStale,
+  refreshCongressStats,
+} from "../lib/congress-stats.ts";
+import { refreshExports } from "../lib/exports.ts";
+import { indexCollaborations } from "../lib/network.ts";
+import { dispatchWebhooks, documentChanges } from "../lib/webhooks.ts";
+import {
+  documentHistoryChanges,
+  recordDocumentHistory,
+} from "../lib/document-history.ts";
+import {
+  contentHash,
+  getContentHashes,
+  setContentHashes,
+} from "../lib/content-hash.ts";
+import { createIndexJob, INDEX_JOB_SCOPES } from "../lib/index-jobs.ts";
+import {
+  authErrorResponses,
+  bearerAuthSecurity,
+  requireScope,
+} from "../lib/api-keys.ts";
+import { rateLimitResponses } from "../lib/rate-limit.ts";
 
 const IndexCoAuthorsRequestSchema = z.object({
-  key: z.string().openapi({
-    example: "your-indexer-key",
-    description: "Indexer authentication key",
-  }),
   congress: z.number().openapi({
     example: 20,
     description: "Congress number to index (normalized ID, e.g., 8-20)",
@@ -47,10 +80,6 @@ const IndexCoAuthorsRequestSchema = z.object({
 });
 
 const IndexAuthorsRequestSchema = z.object({
-  key: z.string().openapi({
-    example: "your-indexer-key",
-    description: "Indexer authentication key",
-  }),
   congress: z.number().openapi({
     example: 20,
     description: "Congress number to index (normalized ID, e.g., 8-20)",
@@ -70,10 +99,6 @@ const IndexAuthorsRequestSchema = z.object({
 });
 
 const IndexCommitteesRequestSchema = z.object({
-  key: z.string().openapi({
-    example: "your-indexer-key",
-    description: "Indexer authentication key",
-  }),
   congress: z.number().openapi({
     example: 20,
     description: "Congress number to index (normalized ID, e.g., 8-20)",
@@ -84,11 +109,40 @@ const IndexCommitteesRequestSchema = z.object({
   }),
 });
 
-const IndexDocumentsInformationRequestSchema = z.object({
-  key: z.string().openapi({
-    example: "your-indexer-key",
-    description: "Indexer authentication key",
+const IndexCongressStatsRequestSchema = z.object({
+  congress: z.number().openapi({
+    example: 20,
+    description: "Congress number to compute statistics for",
+  }),
+});
+
+const IndexCollaboratorsRequestSchema = z.object({
+  congress: z.number().openapi({
+    example: 20,
+    description: "Congress number to compute collaborators for",
+  }),
+});
+
+const IndexExportsRequestSchema = z.object({
+  congress: z.number().openapi({
+    example: 20,
+    description: "Congress number to generate the export manifest for",
   }),
+});
+
+const IndexCongressRequestSchema = z.object({
+  congress: z.number().openapi({
+    example: 20,
+    description: "Congress number to index",
+  }),
+  scopes: z.array(z.enum(INDEX_JOB_SCOPES)).min(1).optional().openapi({
+    example: ["documents"],
+    description:
+      "Only index these (coauthors, authors, committees, documents). Default: all",
+  }),
+});
+
+const IndexDocumentsInformationRequestSchema = z.object({
   congress: z.number().openapi({
     example: 20,
     description: "Congress number (normalized ID, e.g., 8-20)",
@@ -97,20 +151,18 @@ const IndexDocumentsInformationRequestSchema = z.object({
     example: "HB00001",
     description: "Document key to index (e.g., HB00001)",
   }),
+  listingHash: z.string().optional().openapi({
+    example: "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08",
+    description:
+      "Content hash of the document as listed by GET /api/congresses/{congressNumber}/documents. If it matches the hash sent when the document was last indexed, the document is not fetched from the source API.",
+  }),
 });
 
 const indexPeopleMembershipRoute = createRoute({
   method: "post",
   path: "/index/people/membership",
-  request: {
-    body: {
-      content: {
-        "application/json": {
-          schema: IndexRequestSchema,
-        },
-      },
-    },
-  },
+  middleware: [requireScope("index:write")] as const,
+  security: bearerAuthSecurity,
   responses: {
     200: {
       content: {
@@ -123,16 +175,7 @@ const indexPeopleMembershipRoute = createRoute({
       },
       description: "Successfully indexed membership data",
     },
-    401: {
-      content: {
-        "application/json": {
-          schema: z.object({
-            error: z.string(),
-          }),
-        },
-      },
-      description: "Unauthorized - Invalid indexer key",
-    },
+    ...authErrorResponses,
     500: {
       content: {
         "application/json": {
@@ -143,25 +186,20 @@ const indexPeopleMembershipRoute = createRoute({
       },
       description: "Internal server error",
     },
+    ...upstreamErrorResponses,
+    ...rateLimitResponses,
   },
   tags: ["Index"],
   summary: "Index people membership data to KV cache",
   description:
-    "Fetches membership data from /house-members/ddl-reference and caches it to Deno KV. This improves performance for /people endpoints by avoiding full pagination. Requires valid indexer key.",
+    "Fetches membership data from /house-members/ddl-reference and caches it to Deno KV. This improves performance for /people endpoints by avoiding full pagination. Requires an API key with the index:write scope.",
 });
 
 const indexPeopleInformationRoute = createRoute({
   method: "post",
   path: "/index/people/information",
-  request: {
-    body: {
-      content: {
-        "application/json": {
-          schema: IndexRequestSchema,
-        },
-      },
-    },
-  },
+  middleware: [requireScope("index:write")] as const,
+  security: bearerAuthSecurity,
   responses: {
     200: {
       content: {
@@ -169,12 +207,17 @@ const indexPeopleInformationRoute = createRoute({
           schema: z.object({
             message: z.string(),
             indexed: z.number(),
+            changed: z.number().openapi({
+              description:
+                "Number of people whose information changed since the last run",
+            }),
           }),
         },
       },
       description: "Successfully indexed information data",
     },
-    401: {
+    ...authErrorResponses,
+    500: {
       content: {
         "application/json": {
           schema: z.object({
@@ -182,8 +225,39 @@ const indexPeopleInformationRoute = createRoute({
           }),
         },
       },
-      description: "Unauthorized - Invalid indexer key",
+      description: "Internal server error",
+    },
+    ...upstreamErrorResponses,
+    ...rateLimitResponses,
+  },
+  tags: ["Index"],
+  summary: "Index people information (names and profile) to KV cache",
+  description:
+    "Fetches all house members from /house-members/list and caches their name and profile information (district, party, contact details, photo) to Deno KV, and groups members by normalized party and district for /parties and /districts endpoints. This improves performance for /people endpoints by avoiding full pagination. Members whose information has the same content hash as in the last run are skipped. Requires an API key with the index:write scope.",
+});
+
+const indexCommitteesInformationRoute = createRoute({
+  method: "post",
+  path: "/index/committees/information",
+  middleware: [requireScope("index:write")] as const,
+  security: bearerAuthSecurity,
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            message: z.string(),
+            indexed: z.number(),
+            changed: z.number().openapi({
+              description:
+                "Number of committees whose information changed since the last run",
+            }),
+          }),
+        },
+      },
+      description: "Successfully indexed committee information",
     },
+    ...authErrorResponses,
     500: {
       content: {
         "application/json": {
@@ -194,21 +268,25 @@ const indexPeopleInformationRoute = createRoute({
       },
       description: "Internal server error",
     },
+    ...upstreamErrorResponses,
+    ...rateLimitResponses,
   },
   tags: ["Index"],
-  summary: "Index people information (names) to KV cache",
+  summary: "Index committees information to KV cache",
   description:
-    "Fetches all house members from /house-members/list and caches their name information to Deno KV. This improves performance for /people endpoints by avoiding full pagination. Requires valid indexer key.",
+    "Fetches all committees from /committee/list and caches their information to Deno KV. Committees whose information has the same content hash as in the last run are skipped. Requires an API key with the index:write scope.",
 });
 
-const indexCommitteesInformationRoute = createRoute({
+const indexCoAuthorsRoute = createRoute({
   method: "post",
-  path: "/index/committees/information",
+  path: "/index/documents/coauthors",
+  middleware: [requireScope("index:write")] as const,
+  security: bearerAuthSecurity,
   request: {
     body: {
       content: {
         "application/json": {
-          schema: IndexRequestSchema,
+          schema: IndexCoAuthorsRequestSchema,
         },
       },
     },
@@ -220,12 +298,20 @@ const indexCommitteesInformationRoute = createRoute({
           schema: z.object({
             message: z.string(),
             indexed: z.number(),
+            changed: z.number().openapi({
+              description:
+                "Number of people whose documents changed since the last run",
+            }),
+            peopleProcessed: z.number(),
+            totalPeople: z.number(),
+            nextStartIndex: z.number().optional(),
           }),
         },
       },
-      description: "Successfully indexed committee information",
+      description: "Successfully indexed co-authors data",
     },
-    401: {
+    ...authErrorResponses,
+    404: {
       content: {
         "application/json": {
           schema: z.object({
@@ -233,7 +319,7 @@ const indexCommitteesInformationRoute = createRoute({
           }),
         },
       },
-      description: "Unauthorized - Invalid indexer key",
+      description: "Person not found in cache",
     },
     500: {
       content: {
@@ -245,21 +331,25 @@ const indexCommitteesInformationRoute = createRoute({
       },
       description: "Internal server error",
     },
+    ...upstreamErrorResponses,
+    ...rateLimitResponses,
   },
   tags: ["Index"],
-  summary: "Index committees information to KV cache",
+  summary: "Index document co-authors data using /bills/search",
   description:
-    "Fetches all committees from /committee/list and caches their information to Deno KV. Requires valid indexer key.",
+    "Fetches co-authored bills for a specific congress using POST /bills/search. Caches co-author relationships for each document. Supports processing specific person or chunking all people. A person's documents are only rewritten if their content hash changed since the last run. Requires an API key with the index:write scope.",
 });
 
-const indexCoAuthorsRoute = createRoute({
+const indexAuthorsRoute = createRoute({
   method: "post",
-  path: "/index/documents/coauthors",
+  path: "/index/documents/authors",
+  middleware: [requireScope("index:write")] as const,
+  security: bearerAuthSecurity,
   request: {
     body: {
       content: {
         "application/json": {
-          schema: IndexCoAuthorsRequestSchema,
+          schema: IndexAuthorsRequestSchema,
         },
       },
     },
@@ -271,24 +361,19 @@ const indexCoAuthorsRoute = createRoute({
           schema: z.object({
             message: z.string(),
             indexed: z.number(),
+            changed: z.number().openapi({
+              description:
+                "Number of people whose documents changed since the last run",
+            }),
             peopleProcessed: z.number(),
             totalPeople: z.number(),
             nextStartIndex: z.number().optional(),
           }),
         },
       },
-      description: "Successfully indexed co-authors data",
-    },
-    401: {
-      content: {
-        "application/json": {
-          schema: z.object({
-            error: z.string(),
-          }),
-        },
-      },
-      description: "Unauthorized - Invalid indexer key",
+      description: "Successfully indexed authors data",
     },
+    ...authErrorResponses,
     404: {
       content: {
         "application/json": {
@@ -309,21 +394,25 @@ const indexCoAuthorsRoute = createRoute({
       },
       description: "Internal server error",
     },
+    ...upstreamErrorResponses,
+    ...rateLimitResponses,
   },
   tags: ["Index"],
-  summary: "Index document co-authors data using /bills/search",
+  summary: "Index document authors data using /bills/search",
   description:
-    "Fetches co-authored bills for a specific congress using POST /bills/search. Caches co-author relationships for each document. Supports processing specific person or chunking all people. Requires valid indexer key.",
+    "Fetches authored bills for a specific congress using POST /bills/search. Caches primary author relationships for each document. Supports processing specific person or chunking all people. A person's documents are only rewritten if their content hash changed since the last run. Requires an API key with the index:write scope.",
 });
 
-const indexAuthorsRoute = createRoute({
+const indexCommitteesRoute = createRoute({
   method: "post",
-  path: "/index/documents/authors",
+  path: "/index/documents/committees",
+  middleware: [requireScope("index:write")] as const,
+  security: bearerAuthSecurity,
   request: {
     body: {
       content: {
         "application/json": {
-          schema: IndexAuthorsRequestSchema,
+          schema: IndexCommitteesRequestSchema,
         },
       },
     },
@@ -335,15 +424,13 @@ const indexAuthorsRoute = createRoute({
           schema: z.object({
             message: z.string(),
             indexed: z.number(),
-            peopleProcessed: z.number(),
-            totalPeople: z.number(),
-            nextStartIndex: z.number().optional(),
           }),
         },
       },
-      description: "Successfully indexed authors data",
+      description: "Successfully indexed committee documents data",
     },
-    401: {
+    ...authErrorResponses,
+    500: {
       content: {
         "application/json": {
           schema: z.object({
@@ -351,8 +438,48 @@ const indexAuthorsRoute = createRoute({
           }),
         },
       },
-      description: "Unauthorized - Invalid indexer key",
+      description: "Internal server error",
+    },
+    ...upstreamErrorResponses,
+    ...rateLimitResponses,
+  },
+  tags: ["Index"],
+  summary: "Index committee documents data using /bills/search",
+  description:
+    "Fetches bills for a specific committee and congress using POST /bills/search with field='Committees'. Caches committee-document relationships and the referral type (principal, secondary, previous) of each document. Requires an API key with the index:write scope.",
+});
+
+const indexDocumentsInformationRoute = createRoute({
+  method: "post",
+  path: "/index/documents/information",
+  middleware: [requireScope("index:write")] as const,
+  security: bearerAuthSecurity,
+  request: {
+    body: {
+      content: {
+        "application/json": {
+          schema: IndexDocumentsInformationRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            message: z.string(),
+            indexed: z.number(),
+            changed: z.number().openapi({
+              description:
+                "1 if the document changed since the last run, 0 if the writes were skipped",
+            }),
+          }),
+        },
+      },
+      description: "Successfully indexed document information",
     },
+    ...authErrorResponses,
     404: {
       content: {
         "application/json": {
@@ -361,7 +488,7 @@ const indexAuthorsRoute = createRoute({
           }),
         },
       },
-      description: "Person not found in cache",
+      description: "Document not found",
     },
     500: {
       content: {
@@ -373,21 +500,25 @@ const indexAuthorsRoute = createRoute({
       },
       description: "Internal server error",
     },
+    ...upstreamErrorResponses,
+    ...rateLimitResponses,
   },
   tags: ["Index"],
-  summary: "Index document authors data using /bills/search",
+  summary: "Index document information (title, dateFiled) to KV cache",
   description:
-    "Fetches authored bills for a specific congress using POST /bills/search. Caches primary author relationships for each document. Supports processing specific person or chunking all people. Requires valid indexer key.",
+    "Fetches bill information for a specific document and congress, then caches title, dateFiled, bill type, significance, reading stages, status, referrals and authors to Deno KV and adds the document to the full-text search index. Changes since the last indexing are appended to the document history (GET /api/congresses/{congressNumber}/documents/{documentKey}/history). Webhook subscribers are notified when the status changed or a new reading was recorded since the last indexing. This enables displaying document titles on person pages without fetching full document details. If the content hash of the document matches the last run, nothing is written. If the listingHash of the document matches the one sent at its last indexing, the document is not fetched from the source API either. Requires an API key with the index:write scope.",
 });
 
-const indexCommitteesRoute = createRoute({
+const indexCongressStatsRoute = createRoute({
   method: "post",
-  path: "/index/documents/committees",
+  path: "/index/congresses/stats",
+  middleware: [requireScope("index:write")] as const,
+  security: bearerAuthSecurity,
   request: {
     body: {
       content: {
         "application/json": {
-          schema: IndexCommitteesRequestSchema,
+          schema: IndexCongressStatsRequestSchema,
         },
       },
     },
@@ -402,9 +533,10 @@ const indexCommitteesRoute = createRoute({
           }),
         },
       },
-      description: "Successfully indexed committee documents data",
+      description: "Successfully computed congress statistics",
     },
-    401: {
+    ...authErrorResponses,
+    500: {
       content: {
         "application/json": {
           schema: z.object({
@@ -412,8 +544,43 @@ const indexCommitteesRoute = createRoute({
           }),
         },
       },
-      description: "Unauthorized - Invalid indexer key",
+      description: "Internal server error",
+    },
+    ...rateLimitResponses,
+  },
+  tags: ["Index"],
+  summary: "Compute congress statistics from the KV cache",
+  description:
+    "Recomputes the aggregate statistics served by GET /api/congresses/{congressNumber}/stats from the cached documents, authors and committee referrals of a congress. The indexing endpoints mark the statistics as stale and enqueue a recompute a minute later; this endpoint recomputes them immediately. Requires an API key with the index:write scope.",
+});
+
+const indexCollaboratorsRoute = createRoute({
+  method: "post",
+  path: "/index/congresses/collaborators",
+  middleware: [requireScope("index:write")] as const,
+  security: bearerAuthSecurity,
+  request: {
+    body: {
+      content: {
+        "application/json": {
+          schema: IndexCollaboratorsRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            message: z.string(),
+            indexed: z.number(),
+          }),
+        },
+      },
+      description: "Successfully computed collaborators",
     },
+    ...authErrorResponses,
     500: {
       content: {
         "application/json": {
@@ -424,21 +591,24 @@ const indexCommitteesRoute = createRoute({
       },
       description: "Internal server error",
     },
+    ...rateLimitResponses,
   },
   tags: ["Index"],
-  summary: "Index committee documents data using /bills/search",
+  summary: "Compute the collaborators of each person in a congress",
   description:
-    "Fetches bills for a specific committee and congress using POST /bills/search with field='Committees'. Caches committee-document relationships. Requires valid indexer key.",
+    "Counts, for every person of a congress, the documents they authored or co-authored with each other person, from the authorship cache populated by POST /api/index/documents/authors and POST /api/index/documents/coauthors. The counts are served by GET /api/people/{personId}/collaborators. Run it after indexing the authors and co-authors of a congress. Requires an API key with the index:write scope.",
 });
 
-const indexDocumentsInformationRoute = createRoute({
+const indexExportsRoute = createRoute({
   method: "post",
-  path: "/index/documents/information",
+  path: "/index/exports",
+  middleware: [requireScope("index:write")] as const,
+  security: bearerAuthSecurity,
   request: {
     body: {
       content: {
         "application/json": {
-          schema: IndexDocumentsInformationRequestSchema,
+          schema: IndexExportsRequestSchema,
         },
       },
     },
@@ -453,9 +623,10 @@ const indexDocumentsInformationRoute = createRoute({
           }),
         },
       },
-      description: "Successfully indexed document information",
+      description: "Successfully generated the export manifest",
     },
-    401: {
+    ...authErrorResponses,
+    500: {
       content: {
         "application/json": {
           schema: z.object({
@@ -463,18 +634,46 @@ const indexDocumentsInformationRoute = createRoute({
           }),
         },
       },
-      description: "Unauthorized - Invalid indexer key",
+      description: "Internal server error",
     },
-    404: {
+    ...rateLimitResponses,
+  },
+  tags: ["Index"],
+  summary: "Generate the bulk export manifest of a congress",
+  description:
+    "Counts the rows of the documents, people and committees exports of a congress and records them in the manifest served by GET /api/exports. Downloading an export also updates its manifest entry. Requires an API key with the index:write scope.",
+});
+
+const indexCongressRoute = createRoute({
+  method: "post",
+  path: "/index/congresses",
+  middleware: [requireScope("index:write")] as const,
+  security: bearerAuthSecurity,
+  request: {
+    body: {
+      content: {
+        "application/json": {
+          schema: IndexCongressRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    202: {
       content: {
         "application/json": {
           schema: z.object({
-            error: z.string(),
+            message: z.string(),
+            jobId: z.string().openapi({
+              example: "9d4c2a4e-6a0f-4f57-8f6e-2b8f9c3e1d7a",
+              description: "ID of the enqueued index job",
+            }),
           }),
         },
       },
-      description: "Document not found",
+      description: "Index job enqueued",
     },
+    ...authErrorResponses,
     500: {
       content: {
         "application/json": {
@@ -485,28 +684,77 @@ const indexDocumentsInformationRoute = createRoute({
       },
       description: "Internal server error",
     },
+    ...rateLimitResponses,
   },
   tags: ["Index"],
-  summary: "Index document information (title, dateFiled) to KV cache",
+  summary: "Index a whole congress in the background",
   description:
-    "Fetches bill information for a specific document and congress, then caches title and dateFiled to Deno KV. This enables displaying document titles on person pages without fetching full document details. Requires valid indexer key.",
+    "Enqueues a job on the Deno KV queue that indexes the co-authors, authors and committee referrals of a congress in chunks, then the information of each document, and finally recomputes the statistics, collaborators and exports. Each chunk calls the corresponding /api/index endpoint and enqueues the next one. Failed chunks are retried 3 times with backoff (30 seconds, 2 minutes, 10 minutes), then dead-lettered while the rest of the job continues. scopes limits the job to some of these steps. Committees must be indexed first with POST /api/index/committees/information. Requires an API key with the index:write scope.",
 });
 
+/**
+ * Caches the documents a person authored or co-authored in a congress, both
+ * document-centric (["congresses", congress, documentKey, field, personId])
+ * and person-centric (["people", "byPersonId", personId, "authoredDocuments"
+ * or "coAuthoredDocuments"], merged with the documents of other congresses).
+ * Nothing is written if the documents have the same content hash as in the
+ * last run.
+ *
+ * @returns Whether the documents changed since the last run
+ */
+async function cacheAuthoredDocuments(
+  kv: Deno.Kv,
+  personId: string,
+  congress: number,
+  field: "authors" | "coAuthors",
+  documents: Array<{ congress: number; documentKey: string }>,
+): Promise<boolean> {
+  const listKey = [
+    "people",
+    "byPersonId",
+    personId,
+    field === "authors" ? "authoredDocuments" : "coAuthoredDocuments",
+  ];
+  const hashKey = [...listKey, congress];
+
+  const [previousHash] = await getContentHashes(kv, [hashKey]);
+  const hash = await contentHash(documents);
+  if (hash === previousHash) {
+    return false;
+  }
+
+  // Document-centric cache (at most 500 mutations per atomic commit)
+  for (let i = 0; i < documents.length; i += 500) {
+    const atomic = kv.atomic();
+    for (const document of documents.slice(i, i + 500)) {
+      atomic.set(
+        ["congresses", congress, document.documentKey, field, personId],
+        true,
+      );
+    }
+    await atomic.commit();
+  }
+
+  // Person-centric cache
+  const existingEntry = await kv.get<
+    Array<{ congress: number; documentKey: string }>
+  >(listKey);
+  const existingDocs = existingEntry.value || [];
+  const filteredDocs = existingDocs.filter((doc) => doc.congress !== congress);
+  await kv.set(listKey, [...filteredDocs, ...documents]);
+
+  await setContentHashes(kv, [{ key: hashKey, hash }]);
+  return true;
+}
+
 export const indexRouter = new OpenAPIHono();
 
 indexRouter.openapi(indexPeopleMembershipRoute, async (c) => {
   try {
-    const { key } = c.req.valid("json");
-
-    // Verify indexer key
-    if (key !== INDEXER_KEY) {
-      return c.json({ error: "Unauthorized - Invalid indexer key" }, 401);
-    }
-
     const kv = await openKv();
     const response = await fetchHouseMembersDDL();
 
-    if (!response.success || !response.data) {
+    if (!response.data) {
       return c.json(
         { error: "Failed to fetch house members DDL reference" },
         500,
@@ -561,6 +809,9 @@ indexRouter.openapi(indexPeopleMembershipRoute, async (c) => {
     );
   } catch (error) {
     console.error("Error indexing membership data:", error);
+    if (error instanceof UpstreamError) {
+      return upstreamErrorResponse(c, error);
+    }
     return c.json(
       { error: error instanceof Error ? error.message : "Unknown error" },
       500,
@@ -570,15 +821,9 @@ indexRouter.openapi(indexPeopleMembershipRoute, async (c) => {
 
 indexRouter.openapi(indexPeopleInformationRoute, async (c) => {
   try {
-    const { key } = c.req.valid("json");
-
-    // Verify indexer key
-    if (key !== INDEXER_KEY) {
-      return c.json({ error: "Unauthorized - Invalid indexer key" }, 401);
-    }
-
     const kv = await openKv();
     let indexed = 0;
+    let changed = 0;
     let page = 0;
     const limit = 100;
 
@@ -586,7 +831,7 @@ indexRouter.openapi(indexPeopleInformationRoute, async (c) => {
     while (true) {
       const response = await fetchHouseMembers(page, limit);
 
-      if (!response.success || !response.data) {
+      if (!response.data) {
         kv.close();
         return c.json({ error: "Failed to fetch house members" }, 500);
       }
@@ -599,7 +844,7 @@ indexRouter.openapi(indexPeopleInformationRoute, async (c) => {
             const coAuthorResponse = await fetchCoAuthoredBills(
               member.author_id,
             );
-            if (coAuthorResponse.success && coAuthorResponse.data?.rows) {
+            if (coAuthorResponse.data?.rows) {
               coAuthoredDocuments = coAuthorResponse.data.rows.map((bill) => ({
                 congress: mapCongressId(bill.congress),
                 documentKey: bill.bill_no,
@@ -615,17 +860,57 @@ indexRouter.openapi(indexPeopleInformationRoute, async (c) => {
         }),
       );
 
+      // Look up the content hashes of the last run, to skip unchanged members
+      const previousHashes = await getContentHashes(
+        kv,
+        response.data.rows.map((member) => [
+          "people",
+          "byPersonId",
+          member.author_id,
+          "information",
+        ]),
+      );
+      const hashes: Array<{ key: Deno.KvKey; hash: string }> = [];
+
+      // Look up previously indexed information, so members who changed party
+      // or district are removed from the old one
+      const previousInformation = new Map<string, PersonInformation>();
+      const previousEntries = await getManyEntries<PersonInformation>(
+        kv,
+        response.data.rows.map((member) => [
+          "people",
+          "byPersonId",
+          member.author_id,
+          "information",
+        ]),
+      );
+      previousEntries.forEach((entry, index) => {
+        if (entry.value) {
+          previousInformation.set(
+            response.data.rows[index].author_id,
+            entry.value,
+          );
+        }
+      });
+
       // Use atomic operation to batch all KV writes
       const atomic = kv.atomic();
-
-      for (const { member, coAuthoredDocuments } of membersWithCoAuthored) {
-        const info = {
+      const parties = new Map<string, PartyInformation>();
+      const partyVariants = new Map<string, Set<string>>();
+      const districts = new Map<string, DistrictInformation>();
+
+      for (
+        const [index, { member, coAuthoredDocuments }] of membersWithCoAuthored
+          .entries()
+      ) {
+        const info: PersonInformation = {
           id: member.id,
           lastName: member.last_name,
           firstName: member.first_name,
           middleName: member.middle_name,
           suffix: member.suffix,
           nickName: member.nick_name,
+          ...transformPersonProfile(member),
         };
 
         const primaryKey = [
@@ -634,23 +919,28 @@ indexRouter.openapi(indexPeopleInformationRoute, async (c) => {
           member.author_id,
           "information",
         ];
+        const nameCode = member.principal_authored_bills?.[0]?.name_code;
+
+        // Skip members whose information did not change since the last run
+        indexed++;
+        const hash = await contentHash({ info, nameCode, coAuthoredDocuments });
+        const previous = previousInformation.get(member.author_id);
+        if (hash === previousHashes[index] && previous) {
+          continue;
+        }
+        hashes.push({ key: primaryKey, hash });
+        changed++;
 
         // Store to KV with key: ["people", "byPersonId", authorId, "information"]
         atomic.set(primaryKey, info);
 
         // If member has principal_authored_bills, create secondary index by name_code
-        if (
-          member.principal_authored_bills &&
-          member.principal_authored_bills.length > 0
-        ) {
-          const nameCode = member.principal_authored_bills[0].name_code;
-          if (nameCode) {
-            // Create secondary index: ["people", "byNameCode", nameCode, "information"] -> primaryKey
-            atomic.set(
-              ["people", "byNameCode", nameCode, "information"],
-              primaryKey,
-            );
-          }
+        if (nameCode) {
+          // Create secondary index: ["people", "byNameCode", nameCode, "information"] -> primaryKey
+          atomic.set(
+            ["people", "byNameCode", nameCode, "information"],
+            primaryKey,
+          );
         }
 
         // Cache co-authored documents if available
@@ -661,11 +951,84 @@ indexRouter.openapi(indexPeopleInformationRoute, async (c) => {
           );
         }
 
-        indexed++;
+        // Cache party membership: ["parties", "byPartyId", partyId, "members", personId]
+        const party = normalizeParty(member.party_affilation_desc);
+        const previousPartyId = normalizeParty(previous?.partyAffiliation)
+          ?.partyId;
+        if (previousPartyId && previousPartyId !== party?.partyId) {
+          atomic.delete([
+            "parties",
+            "byPartyId",
+            previousPartyId,
+            "members",
+            member.author_id,
+          ]);
+        }
+        if (party) {
+          parties.set(party.partyId, party);
+          const variants = partyVariants.get(party.partyId) ?? new Set();
+          variants.add(info.partyAffiliation!);
+          partyVariants.set(party.partyId, variants);
+          atomic.set(
+            [
+              "parties",
+              "byPartyId",
+              party.partyId,
+              "members",
+              member.author_id,
+            ],
+            true,
+          );
+        }
+
+        // Cache district representation: ["districts", "byDistrictId", districtId, "members", personId]
+        const district = parseDistrict(member.district);
+        const previousDistrictId = parseDistrict(previous?.district)
+          ?.districtId;
+        if (previousDistrictId && previousDistrictId !== district?.districtId) {
+          atomic.delete([
+            "districts",
+            "byDistrictId",
+            previousDistrictId,
+            "members",
+            member.author_id,
+          ]);
+        }
+        if (district) {
+          districts.set(district.districtId, district);
+          atomic.set(
+            [
+              "districts",
+              "byDistrictId",
+              district.districtId,
+              "members",
+              member.author_id,
+            ],
+            true,
+          );
+        }
+      }
+
+      for (const [partyId, party] of parties) {
+        atomic.set(["parties", "byPartyId", partyId, "information"], party);
+        for (const variant of partyVariants.get(partyId)!) {
+          atomic.set(
+            ["parties", "byPartyId", partyId, "variants", variant],
+            true,
+          );
+        }
+      }
+
+      for (const [districtId, district] of districts) {
+        atomic.set(
+          ["districts", "byDistrictId", districtId, "information"],
+          district,
+        );
       }
 
       // Commit all writes in a single operation
       await atomic.commit();
+      await setContentHashes(kv, hashes);
 
       // Check if we've processed all pages
       const totalPages = Math.ceil(response.data.count / limit);
@@ -680,13 +1043,18 @@ indexRouter.openapi(indexPeopleInformationRoute, async (c) => {
 
     return c.json(
       {
-        message: `Successfully indexed information data for ${indexed} people`,
+        message:
+          `Successfully indexed information data for ${indexed} people (${changed} changed)`,
         indexed,
+        changed,
       },
       200,
     );
   } catch (error) {
     console.error("Error indexing information data:", error);
+    if (error instanceof UpstreamError) {
+      return upstreamErrorResponse(c, error);
+    }
     return c.json(
       { error: error instanceof Error ? error.message : "Unknown error" },
       500,
@@ -696,15 +1064,9 @@ indexRouter.openapi(indexPeopleInformationRoute, async (c) => {
 
 indexRouter.openapi(indexCommitteesInformationRoute, async (c) => {
   try {
-    const { key } = c.req.valid("json");
-
-    // Verify indexer key
-    if (key !== INDEXER_KEY) {
-      return c.json({ error: "Unauthorized - Invalid indexer key" }, 401);
-    }
-
     const kv = await openKv();
     let indexed = 0;
+    let changed = 0;
     let page = 0;
     const limit = 100;
 
@@ -712,15 +1074,27 @@ indexRouter.openapi(indexCommitteesInformationRoute, async (c) => {
     while (true) {
       const response = await fetchCommitteeList(page, limit);
 
-      if (!response.success || !response.data) {
+      if (!response.data) {
         kv.close();
         return c.json({ error: "Failed to fetch committees" }, 500);
       }
 
+      // Look up the content hashes of the last run, to skip unchanged committees
+      const previousHashes = await getContentHashes(
+        kv,
+        response.data.rows.map((committee) => [
+          "committees",
+          "byCommitteeId",
+          committee.code,
+          "information",
+        ]),
+      );
+      const hashes: Array<{ key: Deno.KvKey; hash: string }> = [];
+
       // Use atomic operation to batch all KV writes
       const atomic = kv.atomic();
 
-      for (const committee of response.data.rows) {
+      for (const [index, committee] of response.data.rows.entries()) {
         // Skip committees without a code
         if (!committee.code) {
           console.warn("Skipping committee without code:", committee.name);
@@ -737,17 +1111,41 @@ indexRouter.openapi(indexCommitteesInformationRoute, async (c) => {
           type_desc: committee.type_desc.trim(),
         };
 
+        const primaryKey = [
+          "committees",
+          "byCommitteeId",
+          committee.code,
+          "information",
+        ];
+
+        // Skip committees whose information did not change since the last run
+        indexed++;
+        const hash = await contentHash(info);
+        if (hash === previousHashes[index]) {
+          continue;
+        }
+        hashes.push({ key: primaryKey, hash });
+        changed++;
+
         // Store to KV with key: ["committees", "byCommitteeId", code, "information"]
+        atomic.set(primaryKey, info);
+
+        // Secondary index by normalized name - stores the primary key
+        // Bill readings and referrals sometimes only name the committee
         atomic.set(
-          ["committees", "byCommitteeId", committee.code, "information"],
-          info,
+          [
+            "committees",
+            "byName",
+            normalizeCommitteeName(info.name),
+            "information",
+          ],
+          primaryKey,
         );
-
-        indexed++;
       }
 
       // Commit all writes in a single operation
       await atomic.commit();
+      await setContentHashes(kv, hashes);
 
       // Check if we've processed all pages
       const totalPages = Math.ceil(response.data.count / limit);
@@ -763,13 +1161,17 @@ indexRouter.openapi(indexCommitteesInformationRoute, async (c) => {
     return c.json(
       {
         message:
-          `Successfully indexed committee information for ${indexed} committees`,
+          `Successfully indexed committee information for ${indexed} committees (${changed} changed)`,
         indexed,
+        changed,
       },
       200,
     );
   } catch (error) {
     console.error("Error indexing committee information:", error);
+    if (error instanceof UpstreamError) {
+      return upstreamErrorResponse(c, error);
+    }
     return c.json(
       { error: error instanceof Error ? error.message : "Unknown error" },
       500,
@@ -779,16 +1181,12 @@ indexRouter.openapi(indexCommitteesInformationRoute, async (c) => {
 
 indexRouter.openapi(indexCoAuthorsRoute, async (c) => {
   try {
-    const { key, congress, personId, startIndex = 0, chunkSize = 10 } = c.req
+    const { congress, personId, startIndex = 0, chunkSize = 10 } = c.req
       .valid("json");
 
-    // Verify indexer key
-    if (key !== INDEXER_KEY) {
-      return c.json({ error: "Unauthorized - Invalid indexer key" }, 401);
-    }
-
     const kv = await openKv();
     let indexed = 0;
+    let changed = 0;
 
     try {
       // If personId is specified, only process that person
@@ -825,7 +1223,7 @@ indexRouter.openapi(indexCoAuthorsRoute, async (c) => {
           });
 
           if (
-            !response.success || !response.data?.rows ||
+            !response.data?.rows ||
             response.data.rows.length === 0
           ) {
             break;
@@ -846,45 +1244,34 @@ indexRouter.openapi(indexCoAuthorsRoute, async (c) => {
             `    Page ${page}: Found ${newBillsCount} new co-authored bills (${response.data.rows.length} total in response)`,
           );
 
-          // Cache each co-authored document (document-centric)
-          const atomic = kv.atomic();
+          // Collect each co-authored document; they are cached once all
+          // pages are fetched
           for (const bill of response.data.rows) {
             if (!seenBills.has(bill.bill_no)) {
-              atomic.set(
-                ["congresses", congress, bill.bill_no, "coAuthors", personId],
-                true,
-              );
               indexed++;
               totalBills++;
               seenBills.add(bill.bill_no);
               newDocuments.push({ congress, documentKey: bill.bill_no });
             }
           }
-          await atomic.commit();
 
           page++;
         }
 
         console.log(`    Total: ${totalBills} co-authored bills indexed`);
 
-        // Write person-centric cache
-        const existingEntry = await kv.get<
-          Array<{ congress: number; documentKey: string }>
-        >(
-          ["people", "byPersonId", personId, "coAuthoredDocuments"],
-        );
-        const existingDocs = existingEntry.value || [];
-        const filteredDocs = existingDocs.filter((doc) =>
-          doc.congress !== congress
-        );
-        const mergedDocs = [...filteredDocs, ...newDocuments];
-
-        await kv.set(
-          ["people", "byPersonId", personId, "coAuthoredDocuments"],
-          mergedDocs,
+        // Cache the documents, unless they did not change since the last run
+        const documentsChanged = await cacheAuthoredDocuments(
+          kv,
+          personId,
+          congress,
+          "coAuthors",
+          newDocuments,
         );
         console.log(
-          `    Updated person-centric cache: ${mergedDocs.length} total co-authored documents`,
+          documentsChanged
+            ? "    Updated co-authored documents cache"
+            : "    Unchanged since the last run, skipped cache writes",
         );
 
         return c.json(
@@ -892,6 +1279,7 @@ indexRouter.openapi(indexCoAuthorsRoute, async (c) => {
             message:
               `Successfully indexed co-authors for person ${personId} in congress ${congress}`,
             indexed,
+            changed: documentsChanged ? 1 : 0,
             peopleProcessed: 1,
             totalPeople: 1,
           },
@@ -902,7 +1290,7 @@ indexRouter.openapi(indexCoAuthorsRoute, async (c) => {
       // Otherwise, process a chunk of people
       const allPeopleResponse = await fetchHouseMembersDDL();
 
-      if (!allPeopleResponse.success || !allPeopleResponse.data) {
+      if (!allPeopleResponse.data) {
         return c.json(
           { error: "Failed to fetch house members DDL reference" },
           500,
@@ -956,7 +1344,7 @@ indexRouter.openapi(indexCoAuthorsRoute, async (c) => {
           });
 
           if (
-            !response.success || !response.data?.rows ||
+            !response.data?.rows ||
             response.data.rows.length === 0
           ) {
             break;
@@ -977,54 +1365,44 @@ indexRouter.openapi(indexCoAuthorsRoute, async (c) => {
             `      Page ${page}: Found ${newBillsCount} new co-authored bills (${response.data.rows.length} total in response)`,
           );
 
-          // Cache each co-authored document (document-centric)
-          const atomic = kv.atomic();
+          // Collect each co-authored document; they are cached once all
+          // pages are fetched
           for (const bill of response.data.rows) {
             if (!seenBills.has(bill.bill_no)) {
-              atomic.set(
-                [
-                  "congresses",
-                  congress,
-                  bill.bill_no,
-                  "coAuthors",
-                  member.author_id,
-                ],
-                true,
-              );
               indexed++;
               totalBills++;
               seenBills.add(bill.bill_no);
               newDocuments.push({ congress, documentKey: bill.bill_no });
             }
           }
-          await atomic.commit();
 
           page++;
         }
 
         console.log(`      Total: ${totalBills} co-authored bills indexed`);
 
-        // Write person-centric cache
-        const existingEntry = await kv.get<
-          Array<{ congress: number; documentKey: string }>
-        >(
-          ["people", "byPersonId", member.author_id, "coAuthoredDocuments"],
-        );
-        const existingDocs = existingEntry.value || [];
-        const filteredDocs = existingDocs.filter((doc) =>
-          doc.congress !== congress
-        );
-        const mergedDocs = [...filteredDocs, ...newDocuments];
-
-        await kv.set(
-          ["people", "byPersonId", member.author_id, "coAuthoredDocuments"],
-          mergedDocs,
+        // Cache the documents, unless they did not change since the last run
+        const documentsChanged = await cacheAuthoredDocuments(
+          kv,
+          member.author_id,
+          congress,
+          "coAuthors",
+          newDocuments,
         );
+        if (documentsChanged) {
+          changed++;
+        }
         console.log(
-          `      Updated person-centric cache: ${mergedDocs.length} total co-authored documents`,
+          documentsChanged
+            ? "      Updated co-authored documents cache"
+            : "      Unchanged since the last run, skipped cache writes",
         );
       }
 
+      if (changed > 0) {
+        await markCongressStatsStale(kv, congress);
+      }
+
       const nextStartIndex = endIndex < totalPeople ? endIndex : undefined;
 
       return c.json(
@@ -1034,6 +1412,7 @@ indexRouter.openapi(indexCoAuthorsRoute, async (c) => {
               endIndex - 1
             } of ${totalPeople})`,
           indexed,
+          changed,
           peopleProcessed: chunk.length,
           totalPeople,
           nextStartIndex,
@@ -1046,6 +1425,9 @@ indexRouter.openapi(indexCoAuthorsRoute, async (c) => {
     }
   } catch (error) {
     console.error("Error indexing co-authors:", error);
+    if (error instanceof UpstreamError) {
+      return upstreamErrorResponse(c, error);
+    }
     return c.json(
       { error: error instanceof Error ? error.message : "Unknown error" },
       500,
@@ -1055,16 +1437,12 @@ indexRouter.openapi(indexCoAuthorsRoute, async (c) => {
 
 indexRouter.openapi(indexAuthorsRoute, async (c) => {
   try {
-    const { key, congress, personId, startIndex = 0, chunkSize = 10 } = c.req
+    const { congress, personId, startIndex = 0, chunkSize = 10 } = c.req
       .valid("json");
 
-    // Verify indexer key
-    if (key !== INDEXER_KEY) {
-      return c.json({ error: "Unauthorized - Invalid indexer key" }, 401);
-    }
-
     const kv = await openKv();
     let indexed = 0;
+    let changed = 0;
 
     try {
       // If personId is specified, only process that person
@@ -1101,7 +1479,7 @@ indexRouter.openapi(indexAuthorsRoute, async (c) => {
           });
 
           if (
-            !response.success || !response.data?.rows ||
+            !response.data?.rows ||
             response.data.rows.length === 0
           ) {
             break;
@@ -1122,45 +1500,34 @@ indexRouter.openapi(indexAuthorsRoute, async (c) => {
             `    Page ${page}: Found ${newBillsCount} new authored bills (${response.data.rows.length} total in response)`,
           );
 
-          // Cache each authored document (document-centric)
-          const atomic = kv.atomic();
+          // Collect each authored document; they are cached once all
+          // pages are fetched
           for (const bill of response.data.rows) {
             if (!seenBills.has(bill.bill_no)) {
-              atomic.set(
-                ["congresses", congress, bill.bill_no, "authors", personId],
-                true,
-              );
               indexed++;
               totalBills++;
               seenBills.add(bill.bill_no);
               newDocuments.push({ congress, documentKey: bill.bill_no });
             }
           }
-          await atomic.commit();
 
           page++;
         }
 
         console.log(`    Total: ${totalBills} authored bills indexed`);
 
-        // Write person-centric cache
-        const existingEntry = await kv.get<
-          Array<{ congress: number; documentKey: string }>
-        >(
-          ["people", "byPersonId", personId, "authoredDocuments"],
-        );
-        const existingDocs = existingEntry.value || [];
-        const filteredDocs = existingDocs.filter((doc) =>
-          doc.congress !== congress
-        );
-        const mergedDocs = [...filteredDocs, ...newDocuments];
-
-        await kv.set(
-          ["people", "byPersonId", personId, "authoredDocuments"],
-          mergedDocs,
+        // Cache the documents, unless they did not change since the last run
+        const documentsChanged = await cacheAuthoredDocuments(
+          kv,
+          personId,
+          congress,
+          "authors",
+          newDocuments,
         );
         console.log(
-          `    Updated person-centric cache: ${mergedDocs.length} total authored documents`,
+          documentsChanged
+            ? "    Updated authored documents cache"
+            : "    Unchanged since the last run, skipped cache writes",
         );
 
         return c.json(
@@ -1168,6 +1535,7 @@ indexRouter.openapi(indexAuthorsRoute, async (c) => {
             message:
               `Successfully indexed authors for person ${personId} in congress ${congress}`,
             indexed,
+            changed: documentsChanged ? 1 : 0,
             peopleProcessed: 1,
             totalPeople: 1,
           },
@@ -1178,7 +1546,7 @@ indexRouter.openapi(indexAuthorsRoute, async (c) => {
       // Otherwise, process a chunk of people
       const allPeopleResponse = await fetchHouseMembersDDL();
 
-      if (!allPeopleResponse.success || !allPeopleResponse.data) {
+      if (!allPeopleResponse.data) {
         return c.json(
           { error: "Failed to fetch house members DDL reference" },
           500,
@@ -1232,7 +1600,7 @@ indexRouter.openapi(indexAuthorsRoute, async (c) => {
           });
 
           if (
-            !response.success || !response.data?.rows ||
+            !response.data?.rows ||
             response.data.rows.length === 0
           ) {
             break;
@@ -1253,54 +1621,44 @@ indexRouter.openapi(indexAuthorsRoute, async (c) => {
             `      Page ${page}: Found ${newBillsCount} new authored bills (${response.data.rows.length} total in response)`,
           );
 
-          // Cache each authored document (document-centric)
-          const atomic = kv.atomic();
+          // Collect each authored document; they are cached once all
+          // pages are fetched
           for (const bill of response.data.rows) {
             if (!seenBills.has(bill.bill_no)) {
-              atomic.set(
-                [
-                  "congresses",
-                  congress,
-                  bill.bill_no,
-                  "authors",
-                  member.author_id,
-                ],
-                true,
-              );
               indexed++;
               totalBills++;
               seenBills.add(bill.bill_no);
               newDocuments.push({ congress, documentKey: bill.bill_no });
             }
           }
-          await atomic.commit();
 
           page++;
         }
 
         console.log(`      Total: ${totalBills} authored bills indexed`);
 
-        // Write person-centric cache
-        const existingEntry = await kv.get<
-          Array<{ congress: number; documentKey: string }>
-        >(
-          ["people", "byPersonId", member.author_id, "authoredDocuments"],
-        );
-        const existingDocs = existingEntry.value || [];
-        const filteredDocs = existingDocs.filter((doc) =>
-          doc.congress !== congress
-        );
-        const mergedDocs = [...filteredDocs, ...newDocuments];
-
-        await kv.set(
-          ["people", "byPersonId", member.author_id, "authoredDocuments"],
-          mergedDocs,
+        // Cache the documents, unless they did not change since the last run
+        const documentsChanged = await cacheAuthoredDocuments(
+          kv,
+          member.author_id,
+          congress,
+          "authors",
+          newDocuments,
         );
+        if (documentsChanged) {
+          changed++;
+        }
         console.log(
-          `      Updated person-centric cache: ${mergedDocs.length} total authored documents`,
+          documentsChanged
+            ? "      Updated authored documents cache"
+            : "      Unchanged since the last run, skipped cache writes",
         );
       }
 
+      if (changed > 0) {
+        await markCongressStatsStale(kv, congress);
+      }
+
       const nextStartIndex = endIndex < totalPeople ? endIndex : undefined;
 
       return c.json(
@@ -1310,6 +1668,7 @@ indexRouter.openapi(indexAuthorsRoute, async (c) => {
               endIndex - 1
             } of ${totalPeople})`,
           indexed,
+          changed,
           peopleProcessed: chunk.length,
           totalPeople,
           nextStartIndex,
@@ -1322,6 +1681,9 @@ indexRouter.openapi(indexAuthorsRoute, async (c) => {
     }
   } catch (error) {
     console.error("Error indexing authors:", error);
+    if (error instanceof UpstreamError) {
+      return upstreamErrorResponse(c, error);
+    }
     return c.json(
       { error: error instanceof Error ? error.message : "Unknown error" },
       500,
@@ -1331,12 +1693,7 @@ indexRouter.openapi(indexAuthorsRoute, async (c) => {
 
 indexRouter.openapi(indexCommitteesRoute, async (c) => {
   try {
-    const { key, congress, committeeId } = c.req.valid("json");
-
-    // Verify indexer key
-    if (key !== INDEXER_KEY) {
-      return c.json({ error: "Unauthorized - Invalid indexer key" }, 401);
-    }
+    const { congress, committeeId } = c.req.valid("json");
 
     const kv = await openKv();
     let indexed = 0;
@@ -1372,7 +1729,7 @@ indexRouter.openapi(indexCommitteesRoute, async (c) => {
         });
 
         if (
-          !response.success || !response.data?.rows ||
+          !response.data?.rows ||
           response.data.rows.length === 0
         ) {
           break;
@@ -1401,6 +1758,24 @@ indexRouter.openapi(indexCommitteesRoute, async (c) => {
               ["congresses", congress, bill.bill_no, "committees", committeeId],
               true,
             );
+
+            // Cache how the document was referred to this committee
+            // (principal, secondary, previous), first match wins
+            const referral = (await transformReferrals(kv, bill)).find((r) =>
+              r.committeeId === committeeId
+            );
+            if (referral) {
+              atomic.set(
+                [
+                  "congresses",
+                  congress,
+                  bill.bill_no,
+                  "referrals",
+                  committeeId,
+                ],
+                referral.type,
+              );
+            }
             indexed++;
             totalBills++;
             seenBills.add(bill.bill_no);
@@ -1415,6 +1790,7 @@ indexRouter.openapi(indexCommitteesRoute, async (c) => {
         `    Total: ${totalBills} bills indexed for committee ${committeeId}`,
       );
 
+      await markCongressStatsStale(kv, congress);
       kv.close();
 
       return c.json(
@@ -1432,6 +1808,9 @@ indexRouter.openapi(indexCommitteesRoute, async (c) => {
     }
   } catch (error) {
     console.error("Error indexing committees:", error);
+    if (error instanceof UpstreamError) {
+      return upstreamErrorResponse(c, error);
+    }
     return c.json(
       { error: error instanceof Error ? error.message : "Unknown error" },
       500,
@@ -1441,25 +1820,42 @@ indexRouter.openapi(indexCommitteesRoute, async (c) => {
 
 indexRouter.openapi(indexDocumentsInformationRoute, async (c) => {
   try {
-    const { key, congress, documentKey } = c.req.valid("json");
-
-    // Verify indexer key
-    if (key !== INDEXER_KEY) {
-      return c.json({ error: "Unauthorized - Invalid indexer key" }, 401);
-    }
+    const { congress, documentKey, listingHash } = c.req.valid("json");
 
     const kv = await openKv();
     console.log(
       `Indexing document information: ${documentKey} for congress ${congress}`,
     );
 
+    // Skip the source API call if the listed document did not change since
+    // it was last indexed
+    const listingKey = ["congresses", congress, documentKey, "listing"];
+    if (listingHash) {
+      const [previousListingHash] = await getContentHashes(kv, [listingKey]);
+      if (listingHash === previousListingHash) {
+        await kv.close();
+        console.log(
+          `  ✓ Listed document ${documentKey} in congress ${congress} unchanged`,
+        );
+        return c.json(
+          {
+            message:
+              `Document information for ${documentKey} in congress ${congress} is unchanged`,
+            indexed: 1,
+            changed: 0,
+          },
+          200,
+        );
+      }
+    }
+
     // Convert congress number to API ID (20 → 103)
     const apiCongressId = mapToApiId(congress);
 
     // Fetch document data from source API
     const response = await fetchBillByDocumentKey(apiCongressId, documentKey);
 
-    if (!response.success || !response.data) {
+    if (!response.data) {
       await kv.close();
       return c.json({ error: "Failed to fetch bill from source API" }, 500);
     }
@@ -1471,14 +1867,95 @@ indexRouter.openapi(indexDocumentsInformationRoute, async (c) => {
     }
 
     const bill = response.data.rows[0];
+    const informationKey = ["congresses", congress, documentKey, "information"];
+    const previous = await kv.get<DocumentInformation>(informationKey);
+
+    // Cache document information: title, dateFiled, the fields used for
+    // statistics, and the fields compared to record the document history
+    // and notify webhook subscribers
+    const information: DocumentInformation = {
+      titleFull: bill.title_full,
+      titleShort: bill.title_short,
+      dateFiled: bill.date_filed,
+      billType: bill.bill_type,
+      significance: bill.significance_desc,
+      readingStages: readingStages(bill),
+      status: bill.status,
+      referrals: referralNames(bill),
+      authors: authorNames(bill.authors),
+      coAuthors: authorNames(bill.coauthors),
+    };
+
+    // Skip the writes if the document did not change since the last run
+    const [previousHash] = await getContentHashes(kv, [informationKey]);
+    const hash = await contentHash({ ...information, abstract: bill.abstract });
+    if (hash === previousHash && previous.value) {
+      if (listingHash) {
+        await setContentHashes(kv, [{ key: listingKey, hash: listingHash }]);
+      }
+      await kv.close();
+      console.log(
+        `  ✓ Document information for ${documentKey} in congress ${congress} unchanged`,
+      );
+      return c.json(
+        {
+          message:
+            `Document information for ${documentKey} in congress ${congress} is unchanged`,
+          indexed: 1,
+          changed: 0,
+        },
+        200,
+      );
+    }
 
-    // Cache document information: title and dateFiled
-    await kv.set(["congresses", congress, documentKey, "information"], {
+    // Replace the cached information, append the changes since the last
+    // indexing to the document history and enqueue the webhook deliveries for
+    // status changes and new readings in one atomic operation, so a failure
+    // leaves none of them written and the next run detects the changes again
+    const historyEntries = documentHistoryChanges(previous.value, information);
+    const atomic = kv.atomic()
+      .check(previous)
+      .set(informationKey, information);
+    recordDocumentHistory(atomic, congress, documentKey, historyEntries);
+    const deliveries = await dispatchWebhooks(
+      kv,
+      atomic,
+      documentChanges(
+        { congress, documentKey },
+        information,
+        historyEntries,
+        await transformReadings(kv, bill),
+      ),
+    );
+    const result = await atomic.commit();
+    if (!result.ok) {
+      throw new Error(
+        `Document information for ${documentKey} in congress ${congress} was changed by another indexing run`,
+      );
+    }
+    if (deliveries > 0) {
+      console.log(
+        `  Enqueued ${deliveries} webhook deliveries for ${documentKey}`,
+      );
+    }
+
+    // Add the document to the full-text search index
+    await indexDocumentForSearch(kv, {
+      congress,
+      documentKey,
       titleFull: bill.title_full,
       titleShort: bill.title_short,
+      abstract: bill.abstract,
       dateFiled: bill.date_filed,
+      billType: bill.bill_type,
+      significance: bill.significance_desc,
     });
 
+    await markCongressStatsStale(kv, congress);
+    await setContentHashes(kv, [
+      { key: informationKey, hash },
+      ...(listingHash ? [{ key: listingKey, hash: listingHash }] : []),
+    ]);
     await kv.close();
 
     console.log(
@@ -1490,11 +1967,117 @@ indexRouter.openapi(indexDocumentsInformationRoute, async (c) => {
         message:
           `Successfully indexed document information for ${documentKey} in congress ${congress}`,
         indexed: 1,
+        changed: 1,
       },
       200,
     );
   } catch (error) {
     console.error("Error indexing document information:", error);
+    if (error instanceof UpstreamError) {
+      return upstreamErrorResponse(c, error);
+    }
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
+
+indexRouter.openapi(indexCongressStatsRoute, async (c) => {
+  try {
+    const { congress } = c.req.valid("json");
+
+    const kv = await openKv();
+    const stats = await refreshCongressStats(kv, congress);
+    kv.close();
+
+    return c.json(
+      {
+        message:
+          `Successfully computed statistics for ${stats.documentCount} documents in congress ${congress}`,
+        indexed: stats.documentCount,
+      },
+      200,
+    );
+  } catch (error) {
+    console.error("Error computing congress statistics:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
+
+indexRouter.openapi(indexCollaboratorsRoute, async (c) => {
+  try {
+    const { congress } = c.req.valid("json");
+
+    const kv = await openKv();
+    const indexed = await indexCollaborations(kv, congress);
+    kv.close();
+
+    return c.json(
+      {
+        message:
+          `Successfully computed collaborators for ${indexed} people in congress ${congress}`,
+        indexed,
+      },
+      200,
+    );
+  } catch (error) {
+    console.error("Error computing collaborators:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
+
+indexRouter.openapi(indexCongressRoute, async (c) => {
+  try {
+    const { congress, scopes } = c.req.valid("json");
+
+    const kv = await openKv();
+    const job = await createIndexJob(kv, congress, scopes);
+    kv.close();
+
+    console.log(`Enqueued index job ${job.jobId} for congress ${congress}`);
+
+    return c.json(
+      {
+        message: `Enqueued index job for congress ${congress}`,
+        jobId: job.jobId,
+      },
+      202,
+    );
+  } catch (error) {
+    console.error("Error enqueueing index job:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
+
+indexRouter.openapi(indexExportsRoute, async (c) => {
+  try {
+    const { congress } = c.req.valid("json");
+
+    const kv = await openKv();
+    const records = await refreshExports(kv, congress);
+    kv.close();
+
+    const rowCount = records.reduce((sum, record) => sum + record.rowCount, 0);
+    return c.json(
+      {
+        message:
+          `Successfully generated ${records.length} exports with ${rowCount} rows for congress ${congress}`,
+        indexed: rowCount,
+      },
+      200,
+    );
+  } catch (error) {
+    console.error("Error generating exports:", error);
     return c.json(
       { error: error instanceof Error ? error.message : "Unknown error" },
       500,
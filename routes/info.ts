@@ -1,6 +1,12 @@
 import { createRoute, OpenAPIHono, z } from "@hono/zod-openapi";
 import { fetchHouseMembersDDL } from "../lib/api-client.ts";
 import { mapCongressId } from "../lib/congress-mapper.ts";
+import {
+  UpstreamError,
+  upstreamErrorResponse,
+  upstreamErrorResponses,
+} from "../lib/upstream-errors.ts";
+import { rateLimitResponses } from "../lib/rate-limit.ts";
 
 const InfoResponseSchema = z.object({
   status: z.number(),
@@ -30,6 +36,8 @@ const infoRoute = createRoute({
       },
       description: "Internal server error",
     },
+    ...upstreamErrorResponses,
+    ...rateLimitResponses,
   },
   tags: ["Info"],
   summary: "Get congress membership information",
@@ -44,7 +52,7 @@ infoRouter.openapi(infoRoute, async (c) => {
     // Fetch from HREP API (server-side, so authentication works)
     const response = await fetchHouseMembersDDL();
 
-    if (!response.success || !response.data) {
+    if (!response.data) {
       return c.json(
         { error: "Failed to fetch house members DDL reference" },
         500,
@@ -87,6 +95,9 @@ infoRouter.openapi(infoRoute, async (c) => {
     );
   } catch (error) {
     console.error("Error fetching info:", error);
+    if (error instanceof UpstreamError) {
+      return upstreamErrorResponse(c, error);
+    }
     return c.json(
       { error: error instanceof Error ? error.message : "Unknown error" },
       500,
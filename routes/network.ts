@@ -0,0 +1,109 @@
+import { createRoute, OpenAPIHono, z } from "@hono/zod-openapi";
+import { NetworkGraphSchema } from "../types/api.ts";
+import { openKv } from "../lib/kv.ts";
+import {
+  buildCoAuthorshipNetwork,
+  NETWORK_CONTENT_TYPES,
+  toGexf,
+  toGraphML,
+  toJsonGraph,
+} from "../lib/network.ts";
+import { rateLimitResponses } from "../lib/rate-limit.ts";
+
+/**
+ * Route definition for GET /congresses/{congressNumber}/network
+ */
+const congressNetworkRoute = createRoute({
+  method: "get",
+  path: "/congresses/{congressNumber}/network",
+  request: {
+    params: z.object({
+      congressNumber: z.string().openapi({
+        param: {
+          name: "congressNumber",
+          in: "path",
+        },
+        example: "20",
+        description: "Congress number",
+      }),
+    }),
+    query: z.object({
+      format: z.enum(["json", "graphml", "gexf"]).optional().openapi({
+        example: "gexf",
+        description:
+          "Output format: JSON Graph (default), GraphML or GEXF (native Gephi format)",
+      }),
+      minWeight: z.string().optional().openapi({
+        example: "2",
+        description:
+          "Only include edges between people who share at least this many documents. Default: 1",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: NetworkGraphSchema,
+        },
+        "application/graphml+xml": {
+          schema: z.string(),
+        },
+        "application/gexf+xml": {
+          schema: z.string(),
+        },
+      },
+      description: "Co-authorship network",
+    },
+    500: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Internal server error",
+    },
+    ...rateLimitResponses,
+  },
+  tags: ["Congresses"],
+  summary: "Get the co-authorship network of a congress",
+  description:
+    "Returns a weighted, undirected person-to-person graph: people are connected when they authored or co-authored the same document of the congress, weighted by the number of shared documents. Built from the authorship cache populated by POST /api/index/documents/authors and POST /api/index/documents/coauthors. GraphML and GEXF responses are sent as attachments and can be opened directly in Gephi.",
+});
+
+export const networkRouter = new OpenAPIHono();
+
+networkRouter.openapi(congressNetworkRoute, async (c) => {
+  try {
+    const { congressNumber } = c.req.valid("param");
+    const { format = "json", minWeight = "1" } = c.req.valid("query");
+    const congressNum = parseInt(congressNumber, 10);
+
+    const kv = await openKv();
+    const network = await buildCoAuthorshipNetwork(
+      kv,
+      congressNum,
+      Math.max(1, parseInt(minWeight, 10) || 1),
+    );
+    kv.close();
+
+    if (format === "json") {
+      return c.json(toJsonGraph(network), 200);
+    }
+
+    const body = format === "graphml" ? toGraphML(network) : toGexf(network);
+    return c.body(body, 200, {
+      "Content-Type": `${NETWORK_CONTENT_TYPES[format]}; charset=utf-8`,
+      "Content-Disposition":
+        `attachment; filename="congress-${congressNum}-network.${format}"`,
+    });
+  } catch (error) {
+    console.error("Error building co-authorship network:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
@@ -1,17 +1,22 @@
-import { Context, Hono } from "hono";
+import { type Context, Hono } from "hono";
+import { HTTPException } from "hono/http-exception";
 import { trimTrailingSlash } from "hono/trailing-slash";
 import { Layout } from "../components/Layout.tsx";
 import { PersonCard } from "../components/PersonCard.tsx";
 import { CongressBadges } from "../components/CongressBadges.tsx";
 import { Pagination } from "../components/Pagination.tsx";
+import { FeedLinks } from "../components/FeedLinks.tsx";
 import type {
+  CommitteeDocument,
   CommitteeInfo,
   Congress,
+  CongressStats,
   DocumentInfo,
   PaginatedCommittees,
   PaginatedDocuments,
   PaginatedPeople,
   Person,
+  PersonCollaborators,
 } from "../types/api.ts";
 
 const pages = new Hono();
@@ -19,16 +24,42 @@ const pages = new Hono();
 // Remove trailing slashes and redirect
 pages.use("*", trimTrailingSlash());
 
-// Helper function to get base URL
-function getBaseUrl(c: Context): string {
-  const url = new URL(c.req.url);
-  return `${url.protocol}//${url.host}`;
+/**
+ * Sends a request to the API app in-process with the connection info of the
+ * visitor, e.g. apiApp.request
+ */
+export type PagesApiRequest = (
+  path: string,
+  init: RequestInit,
+  info: Deno.ServeHandlerInfo | undefined,
+) => Response | Promise<Response>;
+
+// Sends requests to the API app in-process, set by main.ts
+let apiRequest: PagesApiRequest | null = null;
+
+/**
+ * Sets how pages request the API. Pages make in-process requests without an
+ * API key, passing on the connection info of the visitor, so page views are
+ * rate limited per IP address like anonymous API requests.
+ */
+export function setPagesApiRequest(request: PagesApiRequest) {
+  apiRequest = request;
 }
 
 // Helper function to fetch from API
 async function fetchAPI<T>(c: Context, path: string): Promise<T> {
-  const baseUrl = getBaseUrl(c);
-  const response = await fetch(`${baseUrl}/api${path}`);
+  if (!apiRequest) {
+    throw new Error("The API request of the pages is not set");
+  }
+  const response = await apiRequest(
+    path,
+    {},
+    c.env as Deno.ServeHandlerInfo | undefined,
+  );
+  if (response.status === 429) {
+    // Pass the rate limit response of the API on to the visitor
+    throw new HTTPException(429, { res: response });
+  }
   if (!response.ok) {
     throw new Error(`API request failed: ${response.status}`);
   }
@@ -155,16 +186,152 @@ pages.get("/congresses/:congressNumber", async (c) => {
 
   const documents = await fetchAPI<PaginatedDocuments>(
     c,
-    `/congresses/${congressNumber}/documents?page=${page}&limit=${limit}`,
+    `/congresses/${encodeURIComponent(congressNumber)}/documents?page=${
+      encodeURIComponent(page)
+    }&limit=${encodeURIComponent(limit)}`,
+  );
+  // Statistics are only shown on the first page
+  const stats = page === "0"
+    ? await fetchAPI<CongressStats>(
+      c,
+      `/congresses/${encodeURIComponent(congressNumber)}/stats`,
+    ).catch(() => null)
+    : null;
+  const busiestMonth = Math.max(
+    1,
+    ...(stats?.filedByMonth.map((month) => month.count) ?? []),
   );
 
   return c.html(
-    <Layout title={congressNumber + "th Congress - Better HREP API"}>
+    <Layout
+      title={congressNumber + "th Congress - Better HREP API"}
+      feed={{
+        title: `${congressNumber}th Congress - Newly Filed Bills`,
+        path: `/feeds/congresses/${congressNumber}`,
+      }}
+    >
       <h1>{congressNumber}th Congress</h1>
       <p class="meta">
         Showing {documents.data.length} of {documents.total} bills (Page{" "}
         {documents.page + 1} of {documents.totalPages})
       </p>
+      <FeedLinks path={`/feeds/congresses/${congressNumber}`} />
+
+      {stats && stats.documentCount > 0 && (
+        <details class="congress-stats" open>
+          <summary>
+            <strong>Statistics</strong>
+          </summary>
+          <div class="stats-summary">
+            <div class="stats-summary-item">
+              <strong>{stats.documentCount}</strong> documents
+            </div>
+            <div class="stats-summary-item">
+              <strong>{stats.readings.first}</strong> first reading
+            </div>
+            <div class="stats-summary-item">
+              <strong>{stats.readings.second}</strong> second reading
+            </div>
+            <div class="stats-summary-item">
+              <strong>{stats.readings.third}</strong> third reading
+            </div>
+          </div>
+
+          <div class="list-grid">
+            <div>
+              <h3>By Bill Type</h3>
+              <table>
+                <tbody>
+                  {stats.byBillType.map((row) => (
+                    <tr>
+                      <td>{row.value}</td>
+                      <td>{row.count}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div>
+              <h3>By Significance</h3>
+              <table>
+                <tbody>
+                  {stats.bySignificance.map((row) => (
+                    <tr>
+                      <td>{row.value}</td>
+                      <td>{row.count}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div class="list-grid">
+            {stats.topAuthors.length > 0 && (
+              <div>
+                <h3>Most Prolific Authors</h3>
+                <table>
+                  <tbody>
+                    {stats.topAuthors.map((author) => (
+                      <tr>
+                        <td>
+                          <a href={`/people/${author.personId}`}>
+                            {author.firstName} {author.lastName}
+                          </a>
+                        </td>
+                        <td>{author.authoredDocuments}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {stats.topCommittees.length > 0 && (
+              <div>
+                <h3>Busiest Committees</h3>
+                <table>
+                  <tbody>
+                    {stats.topCommittees.map((committee) => (
+                      <tr>
+                        <td>
+                          <a href={`/committees/${committee.committeeId}`}>
+                            {committee.name ?? committee.committeeId}
+                          </a>
+                        </td>
+                        <td>{committee.referredDocuments}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {stats.filedByMonth.length > 0 && (
+            <>
+              <h3>Filed per Month</h3>
+              <table>
+                <tbody>
+                  {stats.filedByMonth.map((month) => (
+                    <tr>
+                      <td>{month.month}</td>
+                      <td>{month.count}</td>
+                      <td>
+                        <span
+                          class="stats-bar"
+                          style={`width: ${
+                            Math.round(month.count / busiestMonth * 100)
+                          }%`}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </details>
+      )}
 
       <div class="bills-list">
         {documents.data.map((doc) => (
@@ -233,7 +400,9 @@ pages.get("/congresses/:congressNumber/documents/:documentKey", async (c) => {
   try {
     const bill = await fetchAPI<DocumentInfo>(
       c,
-      `/congresses/${congressNumber}/documents/${documentKey}`,
+      `/congresses/${encodeURIComponent(congressNumber)}/documents/${
+        encodeURIComponent(documentKey)
+      }`,
     );
 
     return c.html(
@@ -282,6 +451,82 @@ pages.get("/congresses/:congressNumber/documents/:documentKey", async (c) => {
           </li>
         </ul>
 
+        {bill.readings.length > 0 && (
+          <>
+            <h2>Readings</h2>
+            <table>
+              <thead>
+                <tr>
+                  <th>Reading</th>
+                  <th>Date</th>
+                  <th>Committee</th>
+                  <th>Report</th>
+                </tr>
+              </thead>
+              <tbody>
+                {bill.readings.map((reading) => (
+                  <tr>
+                    <td>
+                      {reading.stage.charAt(0).toUpperCase() +
+                        reading.stage.slice(1)}
+                    </td>
+                    <td>{reading.dateRead ?? "—"}</td>
+                    <td>
+                      {reading.committeeId
+                        ? (
+                          <a href={`/committees/${reading.committeeId}`}>
+                            {reading.refName ?? reading.committeeId}
+                          </a>
+                        )
+                        : reading.refName ?? "—"}
+                    </td>
+                    <td>{reading.report ?? "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        {bill.referrals.length > 0 && (
+          <>
+            <h2>Committee Referrals</h2>
+            <table>
+              <thead>
+                <tr>
+                  <th>Type</th>
+                  <th>Committee</th>
+                  <th>Sequence</th>
+                  <th>Journal</th>
+                </tr>
+              </thead>
+              <tbody>
+                {bill.referrals.map((referral) => (
+                  <tr>
+                    <td>
+                      {referral.type.charAt(0).toUpperCase() +
+                        referral.type.slice(1)}
+                    </td>
+                    <td>
+                      {referral.committee
+                        ? (
+                          <a
+                            href={`/committees/${referral.committee.committeeId}`}
+                          >
+                            {referral.committee.name}
+                          </a>
+                        )
+                        : referral.committeeName ?? "—"}
+                    </td>
+                    <td>{referral.sequence ?? "—"}</td>
+                    <td>{referral.journalNo ?? "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+
         <h2>Authors ({bill.authors.length})</h2>
         <div class="people-grid">
           {bill.authors.map((author) => (
@@ -301,7 +546,10 @@ pages.get("/congresses/:congressNumber/documents/:documentKey", async (c) => {
         )}
       </Layout>,
     );
-  } catch (_error) {
+  } catch (error) {
+    if (error instanceof HTTPException) {
+      throw error;
+    }
     return c.html(
       <Layout title="Document Not Found - Better HREP API">
         <h1>Document Not Found</h1>
@@ -326,7 +574,9 @@ pages.get("/people", async (c) => {
 
   const people = await fetchAPI<PaginatedPeople>(
     c,
-    `/people?page=${page}&limit=${limit}`,
+    `/people?page=${encodeURIComponent(page)}&limit=${
+      encodeURIComponent(limit)
+    }`,
   );
 
   return c.html(
@@ -358,11 +608,22 @@ pages.get("/people", async (c) => {
 pages.get("/people/:personId", async (c) => {
   const personId = c.req.param("personId");
 
-  const person = await fetchAPI<Person>(c, `/people/${personId}`);
+  const person = await fetchAPI<Person>(
+    c,
+    `/people/${encodeURIComponent(personId)}`,
+  );
+  const collaborators = await fetchAPI<PersonCollaborators>(
+    c,
+    `/people/${encodeURIComponent(personId)}/collaborators?limit=10`,
+  ).catch(() => null);
 
   return c.html(
     <Layout
       title={person.firstName + " " + person.lastName + " - Better HREP API"}
+      feed={{
+        title: `${person.firstName} ${person.lastName} - Bills`,
+        path: `/feeds/people/${personId}`,
+      }}
     >
       <nav>
         <a href="/people">← Back to Representatives</a>
@@ -372,8 +633,72 @@ pages.get("/people/:personId", async (c) => {
         {person.firstName} {person.middleName} {person.lastName}
         {person.suffix ? ` ${person.suffix}` : ""}
       </h1>
-      <p class="meta">Person ID: {person.personId}</p>
+      <p class="meta">
+        Person ID: {person.personId}
+        {person.current && " | Current Member"}
+      </p>
       <CongressBadges congresses={person.congresses} />
+      <FeedLinks path={`/feeds/people/${personId}`} />
+
+      <div class="person-profile">
+        {person.photo && (
+          <img
+            class="person-photo"
+            src={person.photo}
+            alt={`${person.firstName} ${person.lastName}`}
+          />
+        )}
+        <ul>
+          {person.type && (
+            <li>
+              <strong>Type:</strong> {person.type}
+            </li>
+          )}
+          {person.district && (
+            <li>
+              <strong>District:</strong> {person.district}
+            </li>
+          )}
+          {person.partyAffiliation && (
+            <li>
+              <strong>Party:</strong> {person.partyAffiliation}
+            </li>
+          )}
+          {person.email && (
+            <li>
+              <strong>Email:</strong>{" "}
+              <a href={`mailto:${person.email}`}>{person.email}</a>
+            </li>
+          )}
+          {person.website && (
+            <li>
+              <strong>Website:</strong>{" "}
+              <a
+                href={person.website}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                {person.website}
+              </a>
+            </li>
+          )}
+          {person.room && (
+            <li>
+              <strong>Office:</strong> {person.room}
+            </li>
+          )}
+          {person.directLine && (
+            <li>
+              <strong>Direct Line:</strong> {person.directLine}
+            </li>
+          )}
+          {person.chiefOfStaff && (
+            <li>
+              <strong>Chief of Staff:</strong> {person.chiefOfStaff}
+            </li>
+          )}
+        </ul>
+      </div>
 
       <h2>Authored ({person.authoredDocuments.length})</h2>
       {person.authoredDocuments.length > 0
@@ -491,6 +816,49 @@ pages.get("/people/:personId", async (c) => {
         )
         : <p>No co-authored documents found.</p>}
 
+      {collaborators && collaborators.data.length > 0 && (
+        <>
+          <h2>Top Collaborators</h2>
+          <p class="meta">
+            People who most often authored or co-authored documents with{" "}
+            {person.firstName} {person.lastName} ({collaborators.total}{" "}
+            collaborators in total)
+          </p>
+          <table>
+            <thead>
+              <tr>
+                <th>Collaborator</th>
+                <th>Shared Documents</th>
+                <th>Co-Authored {person.lastName}'s Bills</th>
+                <th>{person.lastName} Co-Authored Theirs</th>
+                <th>Per Congress</th>
+              </tr>
+            </thead>
+            <tbody>
+              {collaborators.data.map((collaborator) => (
+                <tr>
+                  <td>
+                    <a href={`/people/${collaborator.personId}`}>
+                      {collaborator.firstName} {collaborator.lastName}
+                    </a>
+                  </td>
+                  <td>{collaborator.sharedDocuments}</td>
+                  <td>{collaborator.coAuthoredByCollaborator}</td>
+                  <td>{collaborator.coAuthoredByPerson}</td>
+                  <td>
+                    {collaborator.byCongress
+                      .map((counts) =>
+                        `${counts.congress}th: ${counts.sharedDocuments}`
+                      )
+                      .join(", ")}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
       {person.committees.length > 0 && (
         <>
           <h2>Committee Memberships ({person.committees.length})</h2>
@@ -518,7 +886,9 @@ pages.get("/committees", async (c) => {
 
   const committees = await fetchAPI<PaginatedCommittees>(
     c,
-    `/committees?page=${page}&limit=${limit}`,
+    `/committees?page=${encodeURIComponent(page)}&limit=${
+      encodeURIComponent(limit)
+    }`,
   );
 
   return c.html(
@@ -556,6 +926,16 @@ pages.get("/committees", async (c) => {
   );
 });
 
+// Committee documents are listed by how they were referred to the committee
+const REFERRAL_GROUPS: Array<{
+  label: string;
+  types: Array<CommitteeDocument["referralType"]>;
+}> = [
+  { label: "Principal Referrals", types: ["principal"] },
+  { label: "Secondary Referrals", types: ["secondary"] },
+  { label: "Other Referrals", types: ["previous", "other", null] },
+];
+
 // Single committee detail
 pages.get("/committees/:committeeId", async (c) => {
   const committeeId = c.req.param("committeeId");
@@ -563,14 +943,11 @@ pages.get("/committees/:committeeId", async (c) => {
   try {
     const committee = await fetchAPI<CommitteeInfo>(
       c,
-      `/committees/${committeeId}`,
+      `/committees/${encodeURIComponent(committeeId)}`,
     );
 
     // Group documents by congress
-    const documentsByCongress: Record<
-      number,
-      Array<{ congress: number; documentKey: string }>
-    > = {};
+    const documentsByCongress: Record<number, CommitteeDocument[]> = {};
 
     if (committee.documents) {
       for (const doc of committee.documents) {
@@ -587,7 +964,13 @@ pages.get("/committees/:committeeId", async (c) => {
       .sort((a, b) => b - a);
 
     return c.html(
-      <Layout title={committee.name + " - Better HREP API"}>
+      <Layout
+        title={committee.name + " - Better HREP API"}
+        feed={{
+          title: `${committee.name} - Referred Bills`,
+          path: `/feeds/committees/${committeeId}`,
+        }}
+      >
         <nav>
           <a href="/committees">← Back to Committees</a>
         </nav>
@@ -595,6 +978,7 @@ pages.get("/committees/:committeeId", async (c) => {
         <h1>{committee.name}</h1>
         <p class="meta">Committee ID: {committee.committeeId}</p>
         <p class="meta">{committee.type}</p>
+        <FeedLinks path={`/feeds/committees/${committeeId}`} />
 
         {committee.jurisdiction && (
           <>
@@ -625,24 +1009,40 @@ pages.get("/committees/:committeeId", async (c) => {
                 <h3>
                   Congress {congress} ({documentsByCongress[congress].length})
                 </h3>
-                <ul>
-                  {documentsByCongress[congress].map((doc) => (
-                    <li key={doc.documentKey}>
-                      <a
-                        href={`/congresses/${doc.congress}/documents/${doc.documentKey}`}
-                      >
-                        {doc.documentKey}
-                      </a>
-                    </li>
-                  ))}
-                </ul>
+                {REFERRAL_GROUPS.map(({ label, types }) => {
+                  const docs = documentsByCongress[congress].filter((doc) =>
+                    types.includes(doc.referralType)
+                  );
+                  return docs.length > 0 && (
+                    <>
+                      <h4>{label} ({docs.length})</h4>
+                      <ul>
+                        {docs.map((doc) => (
+                          <li key={doc.documentKey}>
+                            <a
+                              href={`/congresses/${doc.congress}/documents/${doc.documentKey}`}
+                            >
+                              {doc.documentKey}
+                            </a>
+                            {doc.referralType === "previous" && (
+                              <small>(previously referred)</small>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  );
+                })}
               </div>
             ))}
           </>
         )}
       </Layout>,
     );
-  } catch (_error) {
+  } catch (error) {
+    if (error instanceof HTTPException) {
+      throw error;
+    }
     return c.html(
       <Layout title="Committee Not Found - Better HREP API">
         <h1>Committee Not Found</h1>
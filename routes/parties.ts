@@ -0,0 +1,252 @@
+import { createRoute, OpenAPIHono, z } from "@hono/zod-openapi";
+import {
+  type Party,
+  type PartyCongress,
+  PartyInfoSchema,
+  PartyListSchema,
+} from "../types/api.ts";
+import { openKv } from "../lib/kv.ts";
+import {
+  type CachedMember,
+  countAuthoredDocuments,
+  getCachedMembers,
+} from "../lib/member-cache.ts";
+import type { PartyInformation } from "../lib/party-normalizer.ts";
+import { rateLimitResponses } from "../lib/rate-limit.ts";
+
+const ParamsSchema = z.object({
+  partyId: z.string().openapi({
+    param: {
+      name: "partyId",
+      in: "path",
+    },
+    example: "lakas-cmd",
+    description: "Normalized party identifier",
+  }),
+});
+
+/**
+ * Route definition for GET /parties
+ */
+const partiesRoute = createRoute({
+  method: "get",
+  path: "/parties",
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: PartyListSchema,
+        },
+      },
+      description: "List of parties",
+    },
+    500: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Internal server error",
+    },
+    ...rateLimitResponses,
+  },
+  tags: ["Parties"],
+  summary: "Get all parties",
+  description:
+    "Returns all parties of indexed people, largest first. Spelling variants of a party affiliation in the source API (e.g. 'LAKAS-CMD' and 'LAKAS CHRISTIAN MUSLIM DEMOCRATS') are merged into one party. Populated by POST /api/index/people/information; authored document counts require POST /api/index/documents/authors.",
+});
+
+/**
+ * Route definition for GET /parties/{partyId}
+ */
+const partyByIdRoute = createRoute({
+  method: "get",
+  path: "/parties/{partyId}",
+  request: {
+    params: ParamsSchema,
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: PartyInfoSchema,
+        },
+      },
+      description: "Party details with members per congress",
+    },
+    404: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Party not found",
+    },
+    500: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Internal server error",
+    },
+    ...rateLimitResponses,
+  },
+  tags: ["Parties"],
+  summary: "Get a specific party by ID",
+  description:
+    "Returns a party with its members and the number of documents they principally authored, per congress. The source API only provides the current party affiliation of each person, so it is applied to every congress they served in.",
+});
+
+/**
+ * Party as cached in KV: information, merged variants and member person IDs
+ */
+interface CachedParty {
+  information: PartyInformation;
+  variants: string[];
+  personIds: string[];
+}
+
+/**
+ * Reads parties from the cache
+ * Keys: ["parties", "byPartyId", partyId, "information" | "variants" | "members", ...]
+ */
+async function getCachedParties(
+  kv: Deno.Kv,
+  partyId?: string,
+): Promise<CachedParty[]> {
+  const parties = new Map<string, CachedParty>();
+  const prefix = partyId
+    ? ["parties", "byPartyId", partyId]
+    : ["parties", "byPartyId"];
+
+  for await (const entry of kv.list({ prefix })) {
+    const id = entry.key[2] as string;
+    const party = parties.get(id) ?? {
+      information: { partyId: id, name: id, abbreviation: null },
+      variants: [],
+      personIds: [],
+    };
+
+    switch (entry.key[3]) {
+      case "information":
+        party.information = entry.value as PartyInformation;
+        break;
+      case "variants":
+        party.variants.push(entry.key[4] as string);
+        break;
+      case "members":
+        party.personIds.push(entry.key[4] as string);
+        break;
+    }
+    parties.set(id, party);
+  }
+
+  return [...parties.values()];
+}
+
+function transformParty(party: CachedParty, members: CachedMember[]): Party {
+  return {
+    partyId: party.information.partyId,
+    name: party.information.name,
+    abbreviation: party.information.abbreviation,
+    variants: party.variants.sort(),
+    memberCount: members.length,
+    currentMemberCount: members.filter((member) => member.current).length,
+    authoredDocumentCount: countAuthoredDocuments(members),
+  };
+}
+
+export const partiesRouter = new OpenAPIHono();
+
+partiesRouter.openapi(partiesRoute, async (c) => {
+  try {
+    const kv = await openKv();
+    const parties = await getCachedParties(kv);
+
+    const data: Party[] = [];
+    for (const party of parties) {
+      const members = await getCachedMembers(kv, party.personIds);
+      // Parties whose members all changed party are kept in the cache, but not listed
+      if (members.length > 0) {
+        data.push(transformParty(party, members));
+      }
+    }
+    kv.close();
+
+    data.sort((a, b) =>
+      b.memberCount - a.memberCount || a.name.localeCompare(b.name)
+    );
+
+    return c.json(data, 200);
+  } catch (error) {
+    console.error("Error fetching parties:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
+
+partiesRouter.openapi(partyByIdRoute, async (c) => {
+  try {
+    const { partyId } = c.req.valid("param");
+
+    const kv = await openKv();
+    const [party] = await getCachedParties(kv, partyId);
+
+    if (!party) {
+      kv.close();
+      return c.json({ error: "Party not found" }, 404);
+    }
+
+    const members = await getCachedMembers(kv, party.personIds);
+    kv.close();
+
+    // Group members by the congresses they served in, including congresses
+    // where members authored documents without a cached membership
+    const congressNumbers = new Set<number>();
+    for (const member of members) {
+      member.author.congresses.forEach((congress) =>
+        congressNumbers.add(congress)
+      );
+      member.authoredDocuments.forEach((document) =>
+        congressNumbers.add(document.congress)
+      );
+    }
+
+    const congresses: PartyCongress[] = [...congressNumbers]
+      .sort((a, b) => b - a)
+      .map((congress) => {
+        const congressMembers = members.filter((member) =>
+          member.author.congresses.includes(congress)
+        );
+        return {
+          congress,
+          memberCount: congressMembers.length,
+          authoredDocumentCount: countAuthoredDocuments(members, congress),
+          members: congressMembers.map((member) => member.author),
+        };
+      });
+
+    return c.json(
+      {
+        ...transformParty(party, members),
+        congresses,
+      },
+      200,
+    );
+  } catch (error) {
+    console.error("Error fetching party:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
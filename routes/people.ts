@@ -6,15 +6,36 @@ import {
   fetchHouseMembers,
 } from "../lib/api-client.ts";
 import { mapCongressId, mapToApiId } from "../lib/congress-mapper.ts";
+import {
+  UpstreamError,
+  upstreamErrorResponse,
+  upstreamErrorResponses,
+} from "../lib/upstream-errors.ts";
 import { openKv } from "../lib/kv.ts";
+import {
+  type CsvColumn,
+  csvFormatQuery,
+  csvResponse,
+  toCsv,
+  wantsCsv,
+} from "../lib/csv.ts";
+import { getCachedMembers } from "../lib/member-cache.ts";
+import { findCollaborators } from "../lib/network.ts";
+import {
+  type PersonInformation,
+  profileFromInformation,
+  transformPersonProfile,
+} from "../lib/person-normalizer.ts";
 import {
   type Committee,
   type Document,
   PaginatedPeopleSchema,
   type Person,
+  PersonCollaboratorsSchema,
   PersonSchema,
 } from "../types/api.ts";
 import type { HouseMemberItem } from "../types/source.ts";
+import { rateLimitResponses } from "../lib/rate-limit.ts";
 
 const QuerySchema = z.object({
   page: z.string().optional().openapi({
@@ -33,8 +54,54 @@ const QuerySchema = z.object({
     example: "25",
     description: "Number of items per page",
   }),
+  format: z.enum(["json", "csv"]).optional().openapi(csvFormatQuery),
 });
 
+/**
+ * Columns of the CSV list of people
+ */
+const PEOPLE_CSV_COLUMNS: CsvColumn<Person>[] = [
+  { header: "personId", value: (person) => person.personId },
+  { header: "id", value: (person) => person.id },
+  { header: "lastName", value: (person) => person.lastName },
+  { header: "firstName", value: (person) => person.firstName },
+  { header: "middleName", value: (person) => person.middleName },
+  { header: "suffix", value: (person) => person.suffix },
+  { header: "nickName", value: (person) => person.nickName },
+  { header: "district", value: (person) => person.district },
+  { header: "type", value: (person) => person.type },
+  { header: "partyAffiliation", value: (person) => person.partyAffiliation },
+  { header: "email", value: (person) => person.email },
+  { header: "website", value: (person) => person.website },
+  { header: "room", value: (person) => person.room },
+  { header: "directLine", value: (person) => person.directLine },
+  { header: "chiefOfStaff", value: (person) => person.chiefOfStaff },
+  { header: "photo", value: (person) => person.photo },
+  { header: "current", value: (person) => person.current },
+  { header: "congresses", value: (person) => person.congresses },
+  {
+    header: "authoredDocuments",
+    value: (person) =>
+      person.authoredDocuments.map((document) =>
+        `${document.congress}:${document.documentKey}`
+      ),
+  },
+  {
+    header: "coAuthoredDocuments",
+    value: (person) =>
+      person.coAuthoredDocuments.map((document) =>
+        `${document.congress}:${document.documentKey}`
+      ),
+  },
+  {
+    header: "committees",
+    value: (person) =>
+      person.committees.map((committee) =>
+        `${committee.name} (${committee.position})`
+      ),
+  },
+];
+
 const ParamsSchema = z.object({
   personId: z.string().openapi({
     param: {
@@ -58,8 +125,15 @@ const peopleRoute = createRoute({
         "application/json": {
           schema: PaginatedPeopleSchema,
         },
+        "text/csv": {
+          schema: z.string().openapi({
+            example:
+              "personId,id,lastName,firstName,...,authoredDocuments,coAuthoredDocuments,committees\r\nE001,536,Abad,Henedina,...,17:HB02385;17:HB02386,19:HB01234,ACCOUNTS (Member for the Majority)\r\n",
+          }),
+        },
       },
-      description: "Paginated list of people",
+      description:
+        "Paginated list of people. As CSV, lists are joined with semicolons and the pagination is sent in the X-Total-Count and X-Total-Pages headers.",
     },
     500: {
       content: {
@@ -71,11 +145,13 @@ const peopleRoute = createRoute({
       },
       description: "Internal server error",
     },
+    ...upstreamErrorResponses,
+    ...rateLimitResponses,
   },
   tags: ["People"],
   summary: "Get all house members",
   description:
-    "Returns a paginated list of house members with their principal authored bills",
+    "Returns a paginated list of house members with their principal authored bills. Send Accept: text/csv or ?format=csv for a flattened CSV.",
 });
 
 const personByIdRoute = createRoute({
@@ -113,6 +189,8 @@ const personByIdRoute = createRoute({
       },
       description: "Internal server error",
     },
+    ...upstreamErrorResponses,
+    ...rateLimitResponses,
   },
   tags: ["People"],
   summary: "Get a specific person by ID",
@@ -120,6 +198,59 @@ const personByIdRoute = createRoute({
     "Returns details for a specific house member by their person ID. Uses cached data when available for fast responses.",
 });
 
+const personCollaboratorsRoute = createRoute({
+  method: "get",
+  path: "/people/{personId}/collaborators",
+  request: {
+    params: ParamsSchema,
+    query: z.object({
+      congress: z.string().optional().openapi({
+        example: "20",
+        description: "Only count documents of this congress",
+      }),
+      limit: z.string().optional().openapi({
+        example: "10",
+        description: "Number of collaborators to return. Default: 10",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: PersonCollaboratorsSchema,
+        },
+      },
+      description: "Top collaborators of the person",
+    },
+    404: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Person not found",
+    },
+    500: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Internal server error",
+    },
+    ...rateLimitResponses,
+  },
+  tags: ["People"],
+  summary: "Get the top collaborators of a person",
+  description:
+    "Ranks the people who most often authored or co-authored documents with this person, with a breakdown of who co-authored whose documents, per congress. Uses the collaborators computed by POST /api/index/congresses/collaborators.",
+});
+
 /**
  * Transform source API data to cleaned API format
  * Reads from cache populated by indexing endpoints
@@ -214,6 +345,7 @@ async function transformHouseMember(
       middleName: member.middle_name,
       suffix: member.suffix,
       nickName: member.nick_name,
+      ...transformPersonProfile(member),
       congresses,
       authoredDocuments: enrichedAuthoredDocs,
       coAuthoredDocuments: enrichedCoAuthoredDocs,
@@ -229,13 +361,13 @@ export const peopleRouter = new OpenAPIHono();
 
 peopleRouter.openapi(peopleRoute, async (c) => {
   try {
-    const { page: pageStr, limit: limitStr } = c.req.valid("query");
+    const { page: pageStr, limit: limitStr, format } = c.req.valid("query");
     const page = pageStr ? parseInt(pageStr, 10) : 0;
     const limit = limitStr ? parseInt(limitStr, 10) : 10;
 
     // Get latest congress number
     const congressResponse = await fetchCongressReference();
-    if (!congressResponse.success || !congressResponse.data) {
+    if (!congressResponse.data) {
       return c.json({ error: "Failed to fetch congress reference" }, 500);
     }
     const latestCongress = Math.max(
@@ -246,7 +378,7 @@ peopleRouter.openapi(peopleRoute, async (c) => {
 
     const response = await fetchHouseMembers(page, limit);
 
-    if (!response.success || !response.data) {
+    if (!response.data) {
       return c.json({ error: "Failed to fetch house members" }, 500);
     }
 
@@ -270,6 +402,14 @@ peopleRouter.openapi(peopleRoute, async (c) => {
       }
       const totalPages = Math.ceil(response.data.count / limit);
 
+      if (wantsCsv(c, format)) {
+        return csvResponse(c, toCsv(people, PEOPLE_CSV_COLUMNS), "people", {
+          page,
+          total: response.data.count,
+          totalPages,
+        });
+      }
+
       return c.json(
         {
           page,
@@ -286,6 +426,9 @@ peopleRouter.openapi(peopleRoute, async (c) => {
     }
   } catch (error) {
     console.error("Error fetching house members:", error);
+    if (error instanceof UpstreamError) {
+      return upstreamErrorResponse(c, error);
+    }
     return c.json(
       { error: error instanceof Error ? error.message : "Unknown error" },
       500,
@@ -299,7 +442,7 @@ peopleRouter.openapi(personByIdRoute, async (c) => {
 
     // Get latest congress number
     const congressResponse = await fetchCongressReference();
-    if (!congressResponse.success || !congressResponse.data) {
+    if (!congressResponse.data) {
       return c.json({ error: "Failed to fetch congress reference" }, 500);
     }
     const latestCongress = Math.max(
@@ -311,14 +454,12 @@ peopleRouter.openapi(personByIdRoute, async (c) => {
     const kv = await openKv();
 
     // Try to get cached data first
-    const infoEntry = await kv.get<{
-      id: number;
-      lastName: string;
-      firstName: string;
-      middleName: string;
-      suffix: string | null;
-      nickName: string;
-    }>(["people", "byPersonId", personId, "information"]);
+    const infoEntry = await kv.get<PersonInformation>([
+      "people",
+      "byPersonId",
+      personId,
+      "information",
+    ]);
 
     await kv.close();
 
@@ -415,6 +556,7 @@ peopleRouter.openapi(personByIdRoute, async (c) => {
           middleName: info.middleName,
           suffix: info.suffix,
           nickName: info.nickName,
+          ...profileFromInformation(info),
           congresses: membershipCongresses,
           authoredDocuments: enrichedAuthored,
           coAuthoredDocuments: enrichedCoAuthored,
@@ -434,7 +576,7 @@ peopleRouter.openapi(personByIdRoute, async (c) => {
                     author_id: personId,
                     author_type: "authorship",
                   });
-                  if (response.success && response.data?.rows) {
+                  if (response.data?.rows) {
                     return response.data.rows.map((bill) => ({
                       congress: mapCongressId(bill.congress),
                       documentKey: bill.bill_no,
@@ -462,7 +604,7 @@ peopleRouter.openapi(personByIdRoute, async (c) => {
                       author_id: personId,
                       author_type: "coauthorship",
                     });
-                    if (response.success && response.data?.rows) {
+                    if (response.data?.rows) {
                       return response.data.rows.map((bill) => ({
                         congress: mapCongressId(bill.congress),
                         documentKey: bill.bill_no,
@@ -503,7 +645,7 @@ peopleRouter.openapi(personByIdRoute, async (c) => {
         const unenrichedCoAuthored = cachedCoAuthored ??
           coAuthoredResults.flat();
         const committees: Committee[] = cachedCommittees ?? (
-          committeeResponse.success && committeeResponse.data?.rows
+          committeeResponse.data?.rows
             ? committeeResponse.data.rows.map((committee) => ({
               congress: mapCongressId(committee.congress),
               committeeId: committee.committee_code,
@@ -567,6 +709,7 @@ peopleRouter.openapi(personByIdRoute, async (c) => {
           middleName: info.middleName,
           suffix: info.suffix,
           nickName: info.nickName,
+          ...profileFromInformation(info),
           congresses: membershipCongresses,
           authoredDocuments,
           coAuthoredDocuments,
@@ -582,7 +725,7 @@ peopleRouter.openapi(personByIdRoute, async (c) => {
       while (true) {
         const response = await fetchHouseMembers(page, limit);
 
-        if (!response.success || !response.data) {
+        if (!response.data) {
           return c.json({ error: "Failed to fetch house members" }, 500);
         }
 
@@ -610,6 +753,63 @@ peopleRouter.openapi(personByIdRoute, async (c) => {
     return c.json(person, 200);
   } catch (error) {
     console.error("Error fetching person:", error);
+    if (error instanceof UpstreamError) {
+      return upstreamErrorResponse(c, error);
+    }
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
+
+peopleRouter.openapi(personCollaboratorsRoute, async (c) => {
+  try {
+    const { personId } = c.req.valid("param");
+    const { congress, limit = "10" } = c.req.valid("query");
+    const limitNum = parseInt(limit, 10);
+
+    const kv = await openKv();
+    const personEntry = await kv.get([
+      "people",
+      "byPersonId",
+      personId,
+      "information",
+    ]);
+    if (!personEntry.value) {
+      kv.close();
+      return c.json({ error: `Person with ID ${personId} not found` }, 404);
+    }
+
+    const collaborations = await findCollaborators(
+      kv,
+      personId,
+      congress ? parseInt(congress, 10) : undefined,
+    );
+
+    // Collaborators without cached information are filtered out
+    const top = collaborations.slice(0, limitNum);
+    const members = new Map(
+      (await getCachedMembers(
+        kv,
+        top.map((collaboration) => collaboration.personId),
+      )).map((member) => [member.author.personId, member.author]),
+    );
+    kv.close();
+
+    return c.json(
+      {
+        personId,
+        total: collaborations.length,
+        data: top.flatMap(({ personId, ...counts }) => {
+          const author = members.get(personId);
+          return author ? [{ ...author, ...counts }] : [];
+        }),
+      },
+      200,
+    );
+  } catch (error) {
+    console.error("Error fetching collaborators:", error);
     return c.json(
       { error: error instanceof Error ? error.message : "Unknown error" },
       500,
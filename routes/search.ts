@@ -0,0 +1,141 @@
+import { createRoute, OpenAPIHono, z } from "@hono/zod-openapi";
+import { PaginatedSearchResultsSchema } from "../types/api.ts";
+import { openKv } from "../lib/kv.ts";
+import { searchDocuments, tokenize } from "../lib/search-index.ts";
+import { rateLimitResponses } from "../lib/rate-limit.ts";
+
+/**
+ * Route definition for GET /search/documents
+ */
+const searchDocumentsRoute = createRoute({
+  method: "get",
+  path: "/search/documents",
+  request: {
+    query: z.object({
+      q: z.string().openapi({
+        example: "agricultural tariffication",
+        description:
+          "Search query. Every word must appear in the short title, full title or abstract.",
+      }),
+      congress: z.string().optional().openapi({
+        example: "20",
+        description: "Only return documents from this congress",
+      }),
+      billType: z.string().optional().openapi({
+        example: "House Bill",
+        description: "Only return documents of this type",
+      }),
+      significance: z.string().optional().openapi({
+        example: "National",
+        description: "Only return documents with this significance",
+      }),
+      page: z.string().optional().openapi({
+        example: "0",
+        description: "Page number (0-indexed)",
+      }),
+      limit: z.string().optional().openapi({
+        example: "10",
+        description: "Number of items per page",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: PaginatedSearchResultsSchema,
+        },
+      },
+      description: "Ranked search results",
+    },
+    400: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Query has no searchable words",
+    },
+    500: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Internal server error",
+    },
+    ...rateLimitResponses,
+  },
+  tags: ["Search"],
+  summary: "Search documents",
+  description:
+    "Full-text search across the titles and abstracts of all indexed documents, in all congresses. Results are ranked by relevance (short title matches weigh more than full title matches, which weigh more than abstract matches) and include highlighted fields. Only documents indexed by POST /api/index/documents/information are searchable.",
+});
+
+export const searchRouter = new OpenAPIHono();
+
+searchRouter.openapi(searchDocumentsRoute, async (c) => {
+  const {
+    q,
+    congress,
+    billType,
+    significance,
+    page = "0",
+    limit = "10",
+  } = c.req.valid("query");
+
+  if (tokenize(q).length === 0) {
+    return c.json(
+      { error: "Query must contain at least one searchable word" },
+      400,
+    );
+  }
+
+  const pageNum = parseInt(page, 10);
+  const limitNum = parseInt(limit, 10);
+
+  try {
+    const kv = await openKv();
+    const { total, hits } = await searchDocuments(kv, q, {
+      congress: congress ? parseInt(congress, 10) : undefined,
+      billType,
+      significance,
+      page: pageNum,
+      limit: limitNum,
+    });
+    kv.close();
+
+    return c.json(
+      {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+        data: hits.map(({ document, score, matchedFields, highlights }) => ({
+          congress: document.congress,
+          documentKey: document.documentKey,
+          titleFull: document.titleFull,
+          titleShort: document.titleShort,
+          abstract: document.abstract,
+          dateFiled: document.dateFiled,
+          billType: document.billType,
+          significance: document.significance,
+          score,
+          matchedFields,
+          highlights,
+        })),
+      },
+      200,
+    );
+  } catch (error) {
+    console.error("Error searching documents:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
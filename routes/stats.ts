@@ -0,0 +1,88 @@
+import { createRoute, OpenAPIHono, z } from "@hono/zod-openapi";
+import { CongressStatsSchema } from "../types/api.ts";
+import { openKv } from "../lib/kv.ts";
+import { getCongressStats } from "../lib/congress-stats.ts";
+import { rateLimitResponses } from "../lib/rate-limit.ts";
+
+/**
+ * Route definition for GET /congresses/{congressNumber}/stats
+ */
+const congressStatsRoute = createRoute({
+  method: "get",
+  path: "/congresses/{congressNumber}/stats",
+  request: {
+    params: z.object({
+      congressNumber: z.string().openapi({
+        param: {
+          name: "congressNumber",
+          in: "path",
+        },
+        example: "20",
+        description: "Congress number",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: CongressStatsSchema,
+        },
+      },
+      description: "Congress statistics",
+    },
+    404: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "No statistics were computed for the congress",
+    },
+    500: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+          }),
+        },
+      },
+      description: "Internal server error",
+    },
+    ...rateLimitResponses,
+  },
+  tags: ["Congresses"],
+  summary: "Get the statistics of a congress",
+  description:
+    "Returns aggregate statistics of a congress: documents filed per month, counts by bill type and significance, documents that reached each reading, the most prolific principal authors and the committees with the most referred documents. Precomputed from the KV cache populated by the document indexing endpoints, and recomputed in the background about a minute after indexing. Congresses without indexed documents return 404.",
+});
+
+export const statsRouter = new OpenAPIHono();
+
+statsRouter.openapi(congressStatsRoute, async (c) => {
+  try {
+    const { congressNumber } = c.req.valid("param");
+    const congress = Number(congressNumber);
+    if (!Number.isInteger(congress) || congress <= 0) {
+      return c.json({ error: "Congress not found" }, 404);
+    }
+
+    const kv = await openKv();
+    const stats = await getCongressStats(kv, congress);
+    kv.close();
+
+    if (!stats) {
+      return c.json({ error: "Congress not found" }, 404);
+    }
+
+    return c.json(stats, 200);
+  } catch (error) {
+    console.error("Error fetching congress statistics:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
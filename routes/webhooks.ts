@@ -0,0 +1,306 @@
+import { createRoute, OpenAPIHono, z } from "@hono/zod-openapi";
+import {
+  WebhookDeliverySchema,
+  WebhookEventSchema,
+  WebhookSubscriptionSchema,
+  WebhookTargetSchema,
+} from "../types/api.ts";
+import { openKv } from "../lib/kv.ts";
+import {
+  createSubscription,
+  deleteSubscription,
+  listDeliveries,
+  listSubscriptions,
+  type WebhookSubscription,
+} from "../lib/webhooks.ts";
+import {
+  authErrorResponses,
+  bearerAuthSecurity,
+  requireScope,
+} from "../lib/api-keys.ts";
+import { rateLimitResponses } from "../lib/rate-limit.ts";
+import {
+  validationErrorHook,
+  validationErrorResponses,
+} from "../lib/validation.ts";
+
+const SubscriptionIdParamsSchema = z.object({
+  subscriptionId: z.string().openapi({
+    param: {
+      name: "subscriptionId",
+      in: "path",
+    },
+    example: "4c0e3f7e-3f5b-4b8e-9d0a-2a8f6f1c9b21",
+    description: "Subscription ID",
+  }),
+});
+
+const ErrorSchema = z.object({
+  error: z.string(),
+});
+
+const internalErrorResponse = {
+  500: {
+    content: {
+      "application/json": {
+        schema: ErrorSchema,
+      },
+    },
+    description: "Internal server error",
+  },
+};
+
+const subscribeRoute = createRoute({
+  method: "post",
+  path: "/webhooks",
+  middleware: [requireScope("admin")] as const,
+  security: bearerAuthSecurity,
+  request: {
+    body: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            url: z.url().openapi({
+              example: "https://example.com/hooks/hrep",
+              description: "URL the deliveries are posted to",
+            }),
+            target: WebhookTargetSchema,
+            events: z.array(WebhookEventSchema).min(1).optional().openapi({
+              description: "Events to deliver. Default: all events",
+            }),
+            secret: z.string().min(16).optional().openapi({
+              description:
+                "Secret used to sign deliveries. Default: a generated secret",
+            }),
+          }),
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      content: {
+        "application/json": {
+          schema: WebhookSubscriptionSchema.extend({
+            secret: z.string().openapi({
+              description:
+                "Secret used to sign deliveries. Only returned when subscribing.",
+            }),
+          }),
+        },
+      },
+      description: "Subscription created",
+    },
+    ...authErrorResponses,
+    ...internalErrorResponse,
+    ...rateLimitResponses,
+  },
+  tags: ["Webhooks"],
+  summary: "Subscribe to document changes",
+  description:
+    'Creates a webhook subscription for a document, for every document authored or co-authored by a person, or for every document referred to a committee. When POST /api/index/documents/information detects that a document\'s status changed or that it reached a new reading, the payload is posted to the URL with X-Webhook-Event, X-Webhook-Delivery, X-Webhook-Timestamp and X-Webhook-Signature headers. The signature is sha256= followed by the hex HMAC-SHA256 of "<timestamp>.<body>" with the secret. Failed deliveries are retried up to 4 times over about 40 minutes. Requires an API key with the admin scope.',
+});
+
+const subscriptionsRoute = createRoute({
+  method: "get",
+  path: "/webhooks",
+  middleware: [requireScope("admin")] as const,
+  security: bearerAuthSecurity,
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            total: z.number(),
+            data: z.array(WebhookSubscriptionSchema),
+          }),
+        },
+      },
+      description: "List of webhook subscriptions",
+    },
+    ...authErrorResponses,
+    ...internalErrorResponse,
+    ...rateLimitResponses,
+  },
+  tags: ["Webhooks"],
+  summary: "Get webhook subscriptions",
+  description:
+    "Returns all webhook subscriptions, oldest first, without their secrets. Requires an API key with the admin scope.",
+});
+
+const unsubscribeRoute = createRoute({
+  method: "delete",
+  path: "/webhooks/{subscriptionId}",
+  middleware: [requireScope("admin")] as const,
+  security: bearerAuthSecurity,
+  request: {
+    params: SubscriptionIdParamsSchema,
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: z.object({ message: z.string() }),
+        },
+      },
+      description: "Subscription deleted",
+    },
+    404: {
+      content: {
+        "application/json": {
+          schema: ErrorSchema,
+        },
+      },
+      description: "Subscription not found",
+    },
+    ...authErrorResponses,
+    ...internalErrorResponse,
+    ...rateLimitResponses,
+  },
+  tags: ["Webhooks"],
+  summary: "Delete a webhook subscription",
+  description:
+    "Deletes a webhook subscription. Pending deliveries are dropped; the delivery log is kept for 30 days. Requires an API key with the admin scope.",
+});
+
+const deliveriesRoute = createRoute({
+  method: "get",
+  path: "/webhooks/{subscriptionId}/deliveries",
+  middleware: [requireScope("admin")] as const,
+  security: bearerAuthSecurity,
+  request: {
+    params: SubscriptionIdParamsSchema,
+    query: z.object({
+      limit: z.string().regex(/^[1-9]\d*$/, "Limit must be a positive integer")
+        .optional().openapi({
+          example: "50",
+          description: "Maximum number of deliveries. Default: 50",
+        }),
+    }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: z.object({
+            total: z.number(),
+            data: z.array(WebhookDeliverySchema),
+          }),
+        },
+      },
+      description: "Delivery log of the subscription",
+    },
+    ...validationErrorResponses,
+    ...authErrorResponses,
+    ...internalErrorResponse,
+    ...rateLimitResponses,
+  },
+  tags: ["Webhooks"],
+  summary: "Get the delivery log of a webhook subscription",
+  description:
+    "Returns the deliveries of the last 30 days, newest first, with their status, number of attempts, last response status or error, and payload. Requires an API key with the admin scope.",
+});
+
+/**
+ * Removes the secret, which is only returned when subscribing
+ */
+function publicSubscription(
+  { secret: _secret, ...subscription }: WebhookSubscription,
+) {
+  return subscription;
+}
+
+export const webhooksRouter = new OpenAPIHono();
+
+webhooksRouter.openapi(subscribeRoute, async (c) => {
+  try {
+    const { url, target, events, secret } = c.req.valid("json");
+
+    const kv = await openKv();
+    const subscription = await createSubscription(kv, {
+      url,
+      target,
+      events: events ?? WebhookEventSchema.options,
+      secret,
+    });
+    kv.close();
+
+    return c.json(subscription, 201);
+  } catch (error) {
+    console.error("Error creating webhook subscription:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
+
+webhooksRouter.openapi(subscriptionsRoute, async (c) => {
+  try {
+    const kv = await openKv();
+    const subscriptions = await listSubscriptions(kv);
+    kv.close();
+
+    return c.json(
+      {
+        total: subscriptions.length,
+        data: subscriptions.map(publicSubscription),
+      },
+      200,
+    );
+  } catch (error) {
+    console.error("Error fetching webhook subscriptions:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
+
+webhooksRouter.openapi(unsubscribeRoute, async (c) => {
+  try {
+    const { subscriptionId } = c.req.valid("param");
+
+    const kv = await openKv();
+    const deleted = await deleteSubscription(kv, subscriptionId);
+    kv.close();
+
+    if (!deleted) {
+      return c.json({ error: "Subscription not found" }, 404);
+    }
+
+    return c.json(
+      { message: `Successfully deleted subscription ${subscriptionId}` },
+      200,
+    );
+  } catch (error) {
+    console.error("Error deleting webhook subscription:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
+
+webhooksRouter.openapi(deliveriesRoute, async (c) => {
+  try {
+    const { subscriptionId } = c.req.valid("param");
+    const { limit } = c.req.valid("query");
+    const limitNum = limit ? parseInt(limit, 10) : 50;
+
+    const kv = await openKv();
+    const deliveries = await listDeliveries(kv, subscriptionId);
+    kv.close();
+
+    return c.json(
+      { total: deliveries.length, data: deliveries.slice(0, limitNum) },
+      200,
+    );
+  } catch (error) {
+    console.error("Error fetching webhook deliveries:", error);
+    return c.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+}, validationErrorHook);
@@ -0,0 +1,131 @@
+#!/usr/bin/env -S deno run --allow-net --allow-env --allow-read --allow-write --unstable-kv
+
+/**
+ * Manage the API keys of the protected endpoints
+ * Usage:
+ *   deno run --allow-net --allow-env --allow-read --allow-write --unstable-kv scripts/api-keys.ts <command>
+ *
+ * Commands:
+ *   create <name> <scope> [scope...] - Create a key with scopes index:write, cache:read and/or admin (e.g., create github-actions index:write)
+ *   list                             - List all keys, including revoked ones
+ *   revoke <keyId>                   - Revoke a key
+ *
+ * Works directly on the KV database of the server (KV_PATH), so it can create
+ * the first admin key. The token of a new key is printed once; only its hash
+ * is stored.
+ */
+
+import { openKv } from "../lib/kv.ts";
+import {
+  API_KEY_SCOPES,
+  type ApiKeyScope,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+} from "../lib/api-keys.ts";
+
+// Only load .env if running locally (file exists)
+try {
+  await import("@std/dotenv/load");
+} catch {
+  // Ignore if .env doesn't exist (e.g., in CI)
+}
+
+function isScope(scope: string): scope is ApiKeyScope {
+  return (API_KEY_SCOPES as readonly string[]).includes(scope);
+}
+
+function printUsage() {
+  console.error(
+    "\nUsage: deno run --allow-net --allow-env --allow-read --allow-write --unstable-kv scripts/api-keys.ts <command>",
+  );
+  console.error("\nAvailable commands:");
+  console.error(
+    "  create <name> <scope> [scope...] - Create a key (scopes: index:write, cache:read, admin)",
+  );
+  console.error(
+    "  list                             - List all keys, including revoked ones",
+  );
+  console.error("  revoke <keyId>                   - Revoke a key");
+}
+
+// Main execution
+const command = Deno.args[0];
+
+if (!command) {
+  console.error("Error: Command argument is required");
+  printUsage();
+  Deno.exit(1);
+}
+
+const kv = await openKv();
+
+switch (command) {
+  case "create": {
+    const [name, ...scopes] = Deno.args.slice(1);
+    const invalid = scopes.filter((scope) => !isScope(scope));
+    if (!name || scopes.length === 0 || invalid.length > 0) {
+      if (invalid.length > 0) {
+        console.error(`Error: Unknown scopes: ${invalid.join(", ")}`);
+      } else {
+        console.error("Error: A name and at least one scope are required");
+      }
+      printUsage();
+      Deno.exit(1);
+    }
+
+    const { apiKey, token } = await createApiKey(
+      kv,
+      name,
+      scopes as ApiKeyScope[],
+    );
+    console.log(`✓ Created API key ${apiKey.keyId}`);
+    console.log(`  Name: ${apiKey.name}`);
+    console.log(`  Scopes: ${apiKey.scopes.join(", ")}`);
+    console.log(`  Token: ${token}`);
+    console.log("  Store the token now: it cannot be shown again.");
+    break;
+  }
+
+  case "list": {
+    const apiKeys = await listApiKeys(kv);
+    if (apiKeys.length === 0) {
+      console.log("No API keys");
+    }
+    for (const apiKey of apiKeys) {
+      const status = apiKey.revokedAt
+        ? `revoked ${apiKey.revokedAt}`
+        : "active";
+      console.log(
+        `${apiKey.keyId}  ${apiKey.prefix}…  ${apiKey.name}  [${
+          apiKey.scopes.join(", ")
+        }]  created ${apiKey.createdAt}  ${status}`,
+      );
+    }
+    break;
+  }
+
+  case "revoke": {
+    const keyId = Deno.args[1];
+    if (!keyId) {
+      console.error("Error: Key ID is required for revoke command");
+      printUsage();
+      Deno.exit(1);
+    }
+
+    const apiKey = await revokeApiKey(kv, keyId);
+    if (!apiKey) {
+      console.error(`Error: API key ${keyId} not found`);
+      Deno.exit(1);
+    }
+    console.log(`✓ Revoked API key ${keyId} (${apiKey.name})`);
+    break;
+  }
+
+  default:
+    console.error(`Error: Unknown command "${command}"`);
+    printUsage();
+    Deno.exit(1);
+}
+
+kv.close();
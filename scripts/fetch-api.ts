@@ -21,7 +21,11 @@ if (payload) {
 }
 
 try {
-  const data = await fetchFromAPI(path, { method, body: payload });
+  const data = await fetchFromAPI(path, {
+    method,
+    body: payload,
+    cache: false,
+  });
 
   console.log("📥 Response:");
   console.log(JSON.stringify(data, null, 2));
@@ -0,0 +1,870 @@
+/**
+ * Mock HREP backend server for development and tests
+ * Usage:
+ *   deno run --allow-net --allow-env scripts/mock-server.ts
+ *
+ * Serves the source API endpoints used by lib/api-client.ts from a generated,
+ * deterministic dataset. Point the app at it with:
+ *   HREP_API_BASE_URL=http://localhost:8787
+ *   X_HREP_WEBSITE_BACKEND=mock-backend-key
+ *
+ * Reproduces the quirks of the real API:
+ * - The 20th Congress uses ID 103 (requests for congress 20 return nothing)
+ * - Requests without a matching X-Hrep-Website-Backend header are rejected with 401
+ * - Lists are paginated with 0-indexed `page` and `limit`
+ *
+ * Environment:
+ *   MOCK_PORT                 - Port to listen on (default: 8787)
+ *   MOCK_BACKEND_KEY          - Expected X-Hrep-Website-Backend value (default: mock-backend-key)
+ *   MOCK_SEED                 - Seed for the generated dataset (default: 20)
+ *   MOCK_PEOPLE               - Number of house members to generate (default: 400)
+ *   MOCK_BILLS_PER_CONGRESS   - Number of bills per congress (default: 150)
+ */
+
+import { Hono } from "hono";
+import { mapToApiId } from "../lib/congress-mapper.ts";
+import type {
+  BillAuthor,
+  BillListItem,
+  BillReading,
+  BillReferral,
+  CoAuthoredBillItem,
+  CommitteeListItem,
+  CommitteeMembershipItem,
+  CongressReferenceItem,
+  HouseMemberItem,
+} from "../types/source.ts";
+
+const MOCK_PORT = parseInt(Deno.env.get("MOCK_PORT") ?? "8787", 10);
+const MOCK_BACKEND_KEY = Deno.env.get("MOCK_BACKEND_KEY") ||
+  "mock-backend-key";
+const MOCK_SEED = parseInt(Deno.env.get("MOCK_SEED") ?? "20", 10);
+const MOCK_PEOPLE = parseInt(Deno.env.get("MOCK_PEOPLE") ?? "400", 10);
+const MOCK_BILLS_PER_CONGRESS = parseInt(
+  Deno.env.get("MOCK_BILLS_PER_CONGRESS") ?? "150",
+  10,
+);
+
+const FIRST_CONGRESS = 8;
+const LATEST_CONGRESS = 20;
+
+const LAST_NAMES = [
+  "Abad",
+  "Acidre",
+  "Aquino",
+  "Bautista",
+  "Castro",
+  "Cruz",
+  "De Venecia",
+  "Del Rosario",
+  "Dela Cruz",
+  "Estrada",
+  "Fernandez",
+  "Garcia",
+  "Gonzales",
+  "Lopez",
+  "Marcos",
+  "Mendoza",
+  "Navarro",
+  "Ocampo",
+  "Pascual",
+  "Ramos",
+  "Reyes",
+  "Rivera",
+  "Romualdez",
+  "Santos",
+  "Tan",
+  "Torres",
+  "Villanueva",
+  "Yap",
+];
+
+const FIRST_NAMES = [
+  "Ana",
+  "Antonio",
+  "Carmela",
+  "Eduardo",
+  "Elena",
+  "Ferdinand",
+  "Gloria",
+  "Henedina",
+  "Jose",
+  "Jude",
+  "Lorna",
+  "Manuel",
+  "Maria",
+  "Miguel",
+  "Noel",
+  "Ramon",
+  "Rosa",
+  "Teresita",
+  "Vicente",
+];
+
+const SUFFIXES = [null, null, null, null, null, null, "Jr.", "Sr.", "III"];
+
+/**
+ * Party names include the spelling variants seen in the real API
+ */
+const PARTIES = [
+  "LAKAS-CMD",
+  "Lakas-CMD",
+  "LAKAS CHRISTIAN MUSLIM DEMOCRATS",
+  "NATIONALIST PEOPLE'S COALITION",
+  "NPC",
+  "LIBERAL PARTY",
+  "Liberal Party",
+  "PDP-LABAN",
+  "PDP LABAN",
+  "NACIONALISTA PARTY",
+  "NATIONAL UNITY PARTY",
+  null,
+];
+
+const PROVINCES = [
+  "Abra",
+  "Albay",
+  "Batanes",
+  "Batangas",
+  "Bohol",
+  "Bulacan",
+  "Camarines Sur",
+  "Cavite",
+  "Cebu",
+  "Davao del Sur",
+  "Ilocos Norte",
+  "Iloilo",
+  "Laguna",
+  "Leyte",
+  "Maguindanao",
+  "Negros Occidental",
+  "Pampanga",
+  "Pangasinan",
+  "Quezon",
+  "Sulu",
+  "Tarlac",
+];
+
+const CITIES = [
+  "Quezon City",
+  "Manila",
+  "Caloocan City",
+  "Davao City",
+  "Cebu City",
+  "Taguig City",
+  "Makati City",
+];
+
+const PARTY_LISTS = [
+  "AKO BICOL",
+  "ACT TEACHERS",
+  "AGRI",
+  "BAYAN MUNA",
+  "GABRIELA",
+  "KABATAAN",
+  "SENIOR CITIZENS",
+  "TINGOG",
+];
+
+const COMMITTEES: Array<[string, string]> = [
+  ["ACCOUNTS", "Standing Committees"],
+  ["AGRARIAN REFORM", "Standing Committees"],
+  ["AGRICULTURE AND FOOD", "Standing Committees"],
+  ["APPROPRIATIONS", "Standing Committees"],
+  ["BANKS AND FINANCIAL INTERMEDIARIES", "Standing Committees"],
+  ["BASIC EDUCATION AND CULTURE", "Standing Committees"],
+  ["CIVIL SERVICE AND PROFESSIONAL REGULATION", "Standing Committees"],
+  ["CONSTITUTIONAL AMENDMENTS", "Standing Committees"],
+  ["ENERGY", "Standing Committees"],
+  ["GOOD GOVERNMENT AND PUBLIC ACCOUNTABILITY", "Standing Committees"],
+  ["HEALTH", "Standing Committees"],
+  ["HIGHER AND TECHNICAL EDUCATION", "Standing Committees"],
+  ["HOUSING AND URBAN DEVELOPMENT", "Standing Committees"],
+  ["JUSTICE", "Standing Committees"],
+  ["LABOR AND EMPLOYMENT", "Standing Committees"],
+  ["LOCAL GOVERNMENT", "Standing Committees"],
+  ["NATIONAL DEFENSE AND SECURITY", "Standing Committees"],
+  ["PUBLIC WORKS AND HIGHWAYS", "Standing Committees"],
+  ["RULES", "Standing Committees"],
+  ["TRANSPORTATION", "Standing Committees"],
+  ["WAYS AND MEANS", "Standing Committees"],
+  ["YOUTH AND SPORTS DEVELOPMENT", "Standing Committees"],
+  ["WEST PHILIPPINE SEA", "Special Committees"],
+  ["FOOD SECURITY", "Special Committees"],
+];
+
+const BILL_TOPICS = [
+  ["strengthening the regulatory powers of", "the Department of Agriculture"],
+  ["establishing a national program for", "free school meals"],
+  ["increasing the penalties for", "illegal fishing"],
+  ["providing for the modernization of", "public hospitals"],
+  ["declaring a national day of", "remembrance for overseas workers"],
+  ["converting the provincial road connecting", "two municipalities"],
+  ["creating additional positions for", "public school teachers"],
+  ["institutionalizing", "disaster risk reduction offices"],
+  ["granting tax relief to", "micro, small and medium enterprises"],
+  ["expanding the coverage of", "the universal health care program"],
+  ["protecting the rights of", "persons with disabilities"],
+  ["regulating the use of", "single-use plastics"],
+];
+
+const COMMITTEE_TITLES = [
+  "Chairperson",
+  "Vice Chairperson",
+  "Member for the Majority",
+  "Member for the Majority",
+  "Member for the Minority",
+];
+
+/**
+ * Deterministic pseudo-random number generator (mulberry32)
+ */
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min: number, max: number) =>
+      min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(items: readonly T[]): T =>
+      items[Math.floor(next() * items.length)],
+    chance: (probability: number) => next() < probability,
+  };
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13
+    ? "th"
+    : ({ 1: "st", 2: "nd", 3: "rd" } as Record<number, string>)[n % 10] ?? "th";
+  return `${n}${suffix}`;
+}
+
+function congressStartYear(congress: number): number {
+  // The 8th Congress ran 1987-1992, every congress after it lasts 3 years
+  return congress === FIRST_CONGRESS ? 1987 : 1992 + (congress - 9) * 3;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+interface MockPerson {
+  member: HouseMemberItem;
+  membership: number[];
+  nameCode: string;
+}
+
+interface MockDataset {
+  congresses: CongressReferenceItem[];
+  people: MockPerson[];
+  committees: CommitteeListItem[];
+  committeeMemberships: Map<string, CommitteeMembershipItem[]>;
+  bills: BillListItem[];
+}
+
+/**
+ * Generates the mock dataset. The same seed always produces the same data.
+ */
+export function generateDataset(seed: number = MOCK_SEED): MockDataset {
+  const random = createRandom(seed);
+
+  const congresses: CongressReferenceItem[] = [
+    { id: 0, key: "0", value: "[All Congress]", remarks: "" },
+  ];
+  for (let congress = FIRST_CONGRESS; congress <= LATEST_CONGRESS; congress++) {
+    const startYear = congressStartYear(congress);
+    congresses.push({
+      id: mapToApiId(congress),
+      key: mapToApiId(congress).toString(),
+      value: `${ordinal(congress)} Congress`,
+      remarks: "",
+      date_from: `${startYear}-07-01`,
+      date_to: congress === LATEST_CONGRESS
+        ? null
+        : `${congressStartYear(congress + 1)}-06-30`,
+    });
+  }
+
+  const committees: CommitteeListItem[] = COMMITTEES.map(
+    ([name, typeDesc], index) => ({
+      id: index + 1,
+      code: (501 + index).toString().padStart(4, "0"),
+      name,
+      jurisdiction:
+        `All matters directly and principally relating to ${name.toLowerCase()}.`,
+      location: `${
+        ordinal(random.int(1, 5))
+      } Floor, Ramon V. Mitra Bldg., House of Representatives, Quezon City`,
+      phone: `(02) 8-931${random.int(1000, 9999)}`,
+      committee_secretary: null,
+      members: null,
+      profile_data: null,
+      email: null,
+      type: typeDesc === "Standing Committees" ? 1 : 2,
+      type_desc: typeDesc,
+      chairperson: null,
+    }),
+  );
+
+  const people: MockPerson[] = [];
+  const usedNameCodes = new Set<string>();
+  for (let i = 0; i < MOCK_PEOPLE; i++) {
+    const lastName = random.pick(LAST_NAMES);
+    const firstName = random.pick(FIRST_NAMES);
+    const middleInitial = String.fromCharCode(65 + random.int(0, 25));
+    const suffix = random.pick(SUFFIXES);
+    const authorId = `${String.fromCharCode(65 + Math.floor(i / 999))}${
+      ((i % 999) + 1).toString().padStart(3, "0")
+    }`;
+
+    // Serve 1 to 4 consecutive congresses
+    const firstCongress = random.int(FIRST_CONGRESS, LATEST_CONGRESS);
+    const lastCongress = Math.min(
+      LATEST_CONGRESS,
+      firstCongress + random.int(0, 3),
+    );
+    const membership: number[] = [];
+    for (let c = lastCongress; c >= firstCongress; c--) {
+      membership.push(mapToApiId(c));
+    }
+
+    let nameCode = lastName;
+    if (usedNameCodes.has(nameCode)) {
+      nameCode = `${lastName} (${firstName.charAt(0)}.)`;
+    }
+    if (usedNameCodes.has(nameCode)) {
+      nameCode = `${lastName} (${firstName.charAt(0)}.${middleInitial}.)`;
+    }
+    if (usedNameCodes.has(nameCode)) {
+      nameCode = `${lastName} (${authorId})`;
+    }
+    usedNameCodes.add(nameCode);
+
+    const isPartyList = random.chance(0.2);
+    let district: string;
+    if (isPartyList) {
+      district = `Party-List (${random.pick(PARTY_LISTS)})`;
+    } else if (random.chance(0.25)) {
+      district = `${ordinal(random.int(1, 6))} District of ${
+        random.pick(CITIES)
+      }`;
+    } else if (random.chance(0.15)) {
+      district = `Lone District of ${random.pick(PROVINCES)}`;
+    } else {
+      district = `${ordinal(random.int(1, 7))} District of ${
+        random.pick(PROVINCES)
+      }`;
+    }
+
+    const party = isPartyList ? null : random.pick(PARTIES);
+    const current = lastCongress === LATEST_CONGRESS;
+    const fullname =
+      `${lastName.toUpperCase()}, ${firstName.toUpperCase()} ${middleInitial}.${
+        suffix ? `, ${suffix.toUpperCase()}` : ""
+      }`;
+
+    people.push({
+      membership,
+      nameCode,
+      member: {
+        id: i + 1,
+        type: isPartyList
+          ? "Party-List Representative"
+          : "District Representative",
+        district,
+        author_id: authorId,
+        fullname,
+        last_name: lastName.toUpperCase(),
+        first_name: firstName.toUpperCase(),
+        middle_name: `${middleInitial}.`,
+        suffix,
+        nick_name:
+          `HON. ${firstName.toUpperCase()} ${middleInitial}. ${lastName.toUpperCase()}`,
+        email: current
+          ? `${firstName.toLowerCase()}.${
+            lastName.toLowerCase().replace(/\s+/g, "")
+          }@house.gov.ph`
+          : null,
+        website: null,
+        room: current ? `RM ${random.int(100, 599)} SW` : null,
+        local: current ? random.int(7000, 7999).toString() : null,
+        directline: current ? `(02) 8-931${random.int(1000, 9999)}` : null,
+        chief_of_staff: current
+          ? `${random.pick(FIRST_NAMES)} ${random.pick(LAST_NAMES)}`
+          : null,
+        party_affilation: party ? party.slice(0, 3).toUpperCase() : null,
+        party_affilation_desc: party,
+        remarks: null,
+        current,
+        photo: current
+          ? `https://docs.congress.hrep.online/photos/${authorId}.jpg`
+          : null,
+        memberships: null,
+        committee_membership: null,
+        principal_authored_bills: null,
+        logs: null,
+      },
+    });
+  }
+
+  const committeeMemberships = new Map<string, CommitteeMembershipItem[]>();
+  for (const person of people) {
+    const rows: CommitteeMembershipItem[] = [];
+    for (const apiId of person.membership) {
+      const count = random.int(1, 3);
+      for (let i = 0; i < count; i++) {
+        const committee = random.pick(committees);
+        rows.push({
+          no: (rows.length + 1).toString(),
+          congress: apiId,
+          committee_code: committee.code,
+          name: committee.name,
+          author_id: person.member.author_id,
+          representative: person.member.fullname,
+          title: random.pick(COMMITTEE_TITLES),
+          photo: null,
+          journal_no: `Journal No. ${
+            random.int(1, 40).toString().padStart(3, "0")
+          }`,
+        });
+      }
+    }
+    committeeMemberships.set(person.member.author_id, rows);
+  }
+
+  const bills: BillListItem[] = [];
+  let billId = 1;
+  for (let congress = FIRST_CONGRESS; congress <= LATEST_CONGRESS; congress++) {
+    const apiId = mapToApiId(congress);
+    const members = people.filter((p) => p.membership.includes(apiId));
+    if (members.length === 0) {
+      continue;
+    }
+
+    const startDate = new Date(`${congressStartYear(congress)}-07-01`);
+
+    for (let n = 1; n <= MOCK_BILLS_PER_CONGRESS; n++) {
+      const billNo = `HB${n.toString().padStart(5, "0")}`;
+      const [action, subject] = random.pick(BILL_TOPICS);
+      const filed = new Date(
+        startDate.getTime() + (n * 2 + random.int(0, 3)) * 24 * 60 * 60 * 1000,
+      );
+      const dateFiled = formatDate(filed);
+      const isLocal = random.chance(0.3);
+
+      const authorCount = random.int(1, 3);
+      const coAuthorCount = random.int(0, 8);
+      const shuffled = [...members].sort(() => random.next() - 0.5);
+      const authors = shuffled.slice(0, authorCount);
+      const coAuthors = shuffled.slice(
+        authorCount,
+        authorCount + coAuthorCount,
+      );
+
+      const toBillAuthor = (person: MockPerson, index: number): BillAuthor => ({
+        id: person.member.id,
+        date: dateFiled,
+        sequence_no: index + 1,
+        name: person.member.fullname,
+        name_code: person.nameCode,
+        session_no: `${congress}-1RS-${n.toString().padStart(3, "0")}`,
+      });
+
+      const principal = random.pick(committees);
+      const secondary = random.chance(0.3) ? random.pick(committees) : null;
+      const previous = random.chance(0.1) ? random.pick(committees) : null;
+      const journalNo = `Journal No. ${
+        random.int(1, 40).toString().padStart(3, "0")
+      }`;
+
+      const toReferral = (
+        committee: CommitteeListItem,
+        flag: number,
+        sequence: string,
+      ): BillReferral => ({
+        id: billId * 10 + flag,
+        congress: apiId,
+        bill_no: billNo,
+        referral: committee.code,
+        ref_flag: flag,
+        newres_flag: false,
+        submit_flag: false,
+        change_flag: flag === 3,
+        orig_ref: committee.code,
+        journal_no: journalNo,
+        sequence_no: sequence,
+        committee: committee.name,
+      });
+
+      const principalReferral = [toReferral(principal, 1, "1.0")];
+      const secondaryReferral = secondary
+        ? [toReferral(secondary, 2, "2.0")]
+        : [];
+      const previousReferral = previous ? [toReferral(previous, 3, "0.0")] : [];
+
+      // Later stages are reached by fewer bills
+      const stage = random.chance(0.85)
+        ? random.chance(0.2) ? random.chance(0.5) ? 3 : 2 : 1
+        : 0;
+      const readingDate = (days: number) =>
+        formatDate(new Date(filed.getTime() + days * 24 * 60 * 60 * 1000));
+      const toReading = (id: number, days: number): BillReading => ({
+        id,
+        congress: apiId,
+        bill_no: billNo,
+        report: stage >= 2
+          ? `Committee Report No. ${random.int(1, 900)}`
+          : undefined,
+        referral: principal.code,
+        ref_name: principal.name,
+        date_read: readingDate(days),
+      });
+
+      const firstReading = stage >= 1 ? toReading(billId * 10 + 1, 14) : null;
+      const secondReading = stage >= 2 ? toReading(billId * 10 + 2, 90) : null;
+      const thirdReading = stage >= 3 ? toReading(billId * 10 + 3, 120) : null;
+
+      let status = "Filed";
+      if (thirdReading) {
+        status = `Approved by the House on ${thirdReading.date_read}`;
+      } else if (secondReading) {
+        status = `Approved on Second Reading on ${secondReading.date_read}`;
+      } else if (firstReading) {
+        status =
+          `Pending with the Committee on ${principal.name} since ${firstReading.date_read}`;
+      }
+
+      const titleFull =
+        `AN ACT ${action.toUpperCase()} ${subject.toUpperCase()}${
+          isLocal ? ` IN ${random.pick(PROVINCES).toUpperCase()}` : ""
+        }, AND FOR OTHER PURPOSES`;
+
+      bills.push({
+        id: billId,
+        congress: apiId,
+        bill_no: billNo,
+        bill_no_f: `H.B. No. ${n}`,
+        session_no: `${congress}-1RS-${n.toString().padStart(3, "0")}`,
+        significance: isLocal ? 2 : 1,
+        manual_status: "",
+        manual_status_order: "",
+        nature: null,
+        author: authors.map((a) => a.nameCode).join(", "),
+        mother_bill_no: "",
+        mother_flag: null,
+        mother_status: "",
+        title_full: titleFull,
+        title_short: `${subject.charAt(0).toUpperCase()}${
+          subject.slice(1)
+        } Act`,
+        abstract: `This bill seeks ${action} ${subject}.`,
+        alias_name: "",
+        date_filed: dateFiled,
+        urgent: false,
+        urgent_date: null,
+        admin_bill: false,
+        admin_date: null,
+        archive_date: null,
+        archive_transmitted_date: null,
+        withdrawn_date: null,
+        retro_stat: null,
+        retro_order: null,
+        status,
+        status_order: stage.toString(),
+        mstat_order: stage.toString(),
+        senate_report_no: "",
+        senate_bill: "",
+        senate_urgent: false,
+        senate_urgent_date: null,
+        senate_adopted_date: null,
+        house_date_transmitted: null,
+        house_date_record: null,
+        remarks: "",
+        file: `${billNo}.pdf`,
+        size: random.int(50_000, 900_000),
+        congress_desc: `${ordinal(congress)} Congress`,
+        significance_desc: isLocal ? "Local" : "National",
+        nature_desc: null,
+        text_as_filed:
+          `https://docs.congress.hrep.online/legisdocs/basic_${congress}/${billNo}.pdf`,
+        url:
+          `https://docs.congress.hrep.online/legisdocs/basic_${congress}/${billNo}.pdf`,
+        folder: `basic_${congress}`,
+        authors: authors.map(toBillAuthor),
+        coauthors: coAuthors.map(toBillAuthor),
+        coauthors_journal: null,
+        authors_final: null,
+        authors_final_list: null,
+        authors_committee_report: null,
+        first_reading: firstReading,
+        second_reading: secondReading,
+        third_reading: thirdReading,
+        republic_acts: null,
+        votes: null,
+        deliberation: null,
+        deliberation_committee: null,
+        republic_act: null,
+        committee_action: null,
+        withdrawal: null,
+        consolidated_bills: null,
+        substituted_bills: null,
+        principal_referral: principalReferral,
+        secondary_referral: secondaryReferral,
+        previous_referral: previousReferral,
+        referrals: [
+          ...previousReferral,
+          ...principalReferral,
+          ...secondaryReferral,
+        ],
+        mother_bills: null,
+        concom_members: null,
+        bill_type: "House Bill",
+      });
+
+      billId++;
+    }
+  }
+
+  // Attach principal authored bills, used by the app for the name code index
+  for (const person of people) {
+    const authored = bills.filter((bill) =>
+      bill.authors?.some((author) => author.id === person.member.id)
+    );
+    person.member.principal_authored_bills = authored.length > 0
+      ? authored.slice(0, 5).map((bill, index) =>
+        toAuthoredBillItem(bill, person, index)
+      )
+      : null;
+  }
+
+  return { congresses, people, committees, committeeMemberships, bills };
+}
+
+function toAuthoredBillItem(
+  bill: BillListItem,
+  person: MockPerson,
+  index: number,
+): CoAuthoredBillItem {
+  return {
+    idx: index,
+    no: index + 1,
+    id: bill.id,
+    congress: bill.congress,
+    bill_no: bill.bill_no,
+    author: person.member.author_id,
+    auth_flag: true,
+    final_flag: false,
+    manual_flag: false,
+    auth_source: "journal",
+    date: bill.date_filed,
+    sequence_no: index + 1,
+    name: person.member.fullname,
+    name_code: person.nameCode,
+    session_no: bill.session_no,
+  };
+}
+
+function paginate<T>(rows: T[], page: number = 0, limit: number = 10) {
+  const start = page * limit;
+  return {
+    status: 200,
+    success: true,
+    data: {
+      pageCount: limit > 0 ? Math.ceil(rows.length / limit) : 0,
+      count: rows.length,
+      rows: rows.slice(start, start + limit),
+    },
+  };
+}
+
+function matchesFilter(filter: string | undefined, ...values: string[]) {
+  if (!filter) {
+    return true;
+  }
+  const needle = filter.toLowerCase();
+  return values.some((value) => value.toLowerCase().includes(needle));
+}
+
+/**
+ * Creates the mock HREP backend app for a dataset
+ */
+export function createMockApp(
+  dataset: MockDataset = generateDataset(),
+  backendKey: string = MOCK_BACKEND_KEY,
+) {
+  const app = new Hono();
+
+  const personById = new Map(
+    dataset.people.map((person) => [person.member.author_id, person]),
+  );
+
+  const isAuthor = (bill: BillListItem, person: MockPerson) =>
+    bill.authors?.some((author) => author.id === person.member.id) ?? false;
+  const isCoAuthor = (bill: BillListItem, person: MockPerson) =>
+    bill.coauthors?.some((author) => author.id === person.member.id) ??
+      false;
+
+  // Reject requests without the website backend header, like the real API
+  app.use("*", async (c, next) => {
+    if (c.req.header("X-Hrep-Website-Backend") !== backendKey) {
+      return c.json(
+        { status: 401, success: false, message: "Unauthorized" },
+        401,
+      );
+    }
+    await next();
+  });
+
+  app.get("/system-config/reference-congress", (c) => {
+    return c.json({ status: 200, success: true, data: dataset.congresses });
+  });
+
+  app.post("/house-members/list", async (c) => {
+    const { page = 0, limit = 10, filter = "" } = await c.req.json();
+    const rows = dataset.people
+      .filter((person) =>
+        matchesFilter(filter, person.member.fullname, person.member.author_id)
+      )
+      .map((person) => person.member);
+    return c.json(paginate(rows, page, limit));
+  });
+
+  app.get("/house-members/ddl-reference", (c) => {
+    return c.json({
+      status: 200,
+      success: true,
+      data: dataset.people.map((person) => ({
+        id: person.member.id,
+        author_id: person.member.author_id,
+        fullname: person.member.fullname,
+        nick_name: person.member.nick_name,
+        membership: person.membership,
+      })),
+    });
+  });
+
+  app.post("/house-members/principal-author", async (c) => {
+    const { page = 0, limit = 1000, filter = "", author } = await c.req.json();
+    const person = personById.get(author);
+    const rows = person
+      ? dataset.bills
+        .filter((bill) =>
+          isAuthor(bill, person) && matchesFilter(filter, bill.title_full)
+        )
+        .map((bill, index) => toAuthoredBillItem(bill, person, index))
+      : [];
+    return c.json(paginate(rows, page, limit));
+  });
+
+  app.post("/house-members/co-author", async (c) => {
+    const { page = 0, limit = 1000, filter = "", author } = await c.req.json();
+    const person = personById.get(author);
+    const rows = person
+      ? dataset.bills
+        .filter((bill) =>
+          isCoAuthor(bill, person) && matchesFilter(filter, bill.title_full)
+        )
+        .map((bill, index) => toAuthoredBillItem(bill, person, index))
+      : [];
+    return c.json(paginate(rows, page, limit));
+  });
+
+  app.post("/house-members/committee-membership", async (c) => {
+    const { member_code } = await c.req.json();
+    const rows = dataset.committeeMemberships.get(member_code) ?? [];
+    return c.json({
+      status: 200,
+      success: true,
+      data: { count: rows.length, rows },
+    });
+  });
+
+  app.post("/committee/list", async (c) => {
+    const { page = 0, limit = 10 } = await c.req.json();
+    return c.json(paginate(dataset.committees, page, limit));
+  });
+
+  app.post("/bills/list", async (c) => {
+    const { page = 0, limit = 10, congress, filter = "" } = await c.req.json();
+    const rows = dataset.bills.filter((bill) =>
+      bill.congress === congress &&
+      matchesFilter(filter, bill.bill_no, bill.title_full, bill.title_short)
+    );
+    return c.json(paginate(rows, page, limit));
+  });
+
+  app.post("/bills/search", async (c) => {
+    const {
+      page = 0,
+      limit = 999,
+      congress,
+      significance = "Both",
+      field = "Author",
+      numbers = "",
+      author_id = "",
+      author_type = "Both",
+      committee_id = "",
+      title = "",
+    } = await c.req.json();
+
+    const person = personById.get(author_id);
+    const billNumbers = (numbers as string)
+      .split(",")
+      .map((n) => n.trim())
+      .filter(Boolean);
+
+    const rows = dataset.bills.filter((bill) => {
+      if (bill.congress !== congress) {
+        return false;
+      }
+      if (significance !== "Both" && bill.significance_desc !== significance) {
+        return false;
+      }
+      if (!matchesFilter(title, bill.title_full, bill.title_short)) {
+        return false;
+      }
+
+      switch (field) {
+        case "Author":
+          if (!person) {
+            return false;
+          }
+          if (author_type === "authorship") {
+            return isAuthor(bill, person);
+          }
+          if (author_type === "coauthorship") {
+            return isCoAuthor(bill, person);
+          }
+          return isAuthor(bill, person) || isCoAuthor(bill, person);
+        case "Committees":
+          return bill.referrals?.some((referral) =>
+            referral.referral === committee_id
+          ) ?? false;
+        case "Bills":
+          return billNumbers.includes(bill.bill_no);
+        default:
+          return true;
+      }
+    });
+
+    return c.json(paginate(rows, page, limit));
+  });
+
+  return app;
+}
+
+if (import.meta.main) {
+  const dataset = generateDataset();
+  console.log(
+    `Generated ${dataset.people.length} people, ${dataset.committees.length} committees and ${dataset.bills.length} bills (seed ${MOCK_SEED})`,
+  );
+  console.log(`X-Hrep-Website-Backend: ${MOCK_BACKEND_KEY}`);
+
+  Deno.serve({ port: MOCK_PORT }, createMockApp(dataset).fetch);
+}
@@ -13,9 +13,20 @@
  *   index-authors <congress>               - Index primary authors for specific congress (e.g., index-authors 20)
  *   index-committees <congress>            - Index committees for specific congress (e.g., index-committees 20)
  *   index-documents-information <congress> - Index document information (title, dateFiled) for specific congress (e.g., index-documents-information 20)
+ *                                            Add --incremental to only fetch documents whose listing changed since they were last indexed
+ *   congress-stats <congress>              - Compute statistics for specific congress (e.g., congress-stats 20)
+ *   collaborators <congress>               - Compute the collaborators of each person for specific congress (e.g., collaborators 20)
+ *   exports <congress>                     - Generate the bulk export manifest for specific congress (e.g., exports 20)
+ *   index-congress <congress>              - Enqueue a server-side job indexing authors, co-authors, committees and documents of a congress (e.g., index-congress 20)
  *   all                                    - Run all seeding operations in order (except congress-specific operations)
+ *
+ * The indexing endpoints store a content hash per indexed entity and skip KV
+ * writes for entities that did not change since the last run. Each operation
+ * reports how many entities changed.
  */
 
+import { canonicalJson, sha256Hex } from "../lib/hash.ts";
+
 // Only load .env if running locally (file exists)
 try {
   await import("@std/dotenv/load");
@@ -25,16 +36,25 @@ try {
 
 const DEPLOYED_API_BASE_URL = Deno.env.get("DEPLOYED_API_BASE_URL") ||
   "http://localhost:8000/api";
-const INDEXER_KEY = Deno.env.get("INDEXER_KEY");
+const API_KEY = Deno.env.get("API_KEY");
 const GITHUB_TOKEN = Deno.env.get("GITHUB_TOKEN");
 const GITHUB_REPOSITORY = Deno.env.get("GITHUB_REPOSITORY") ||
   "njncalub/better-hrep-api";
 
-if (!INDEXER_KEY) {
-  console.error("Error: INDEXER_KEY environment variable is required");
+if (!API_KEY) {
+  console.error("Error: API_KEY environment variable is required");
   Deno.exit(1);
 }
 
+/**
+ * Headers of requests to the indexing endpoints, authenticated with an API
+ * key with the index:write scope
+ */
+const API_HEADERS = {
+  "Content-Type": "application/json",
+  Authorization: `Bearer ${API_KEY}`,
+};
+
 interface CommitteeData {
   id: number;
   committeeId: string;
@@ -208,8 +228,7 @@ async function indexPeopleMembership() {
     `${DEPLOYED_API_BASE_URL}/index/people/membership`,
     {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ key: INDEXER_KEY }),
+      headers: API_HEADERS,
     },
   );
 
@@ -231,8 +250,7 @@ async function indexPeopleInformation() {
     `${DEPLOYED_API_BASE_URL}/index/people/information`,
     {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ key: INDEXER_KEY }),
+      headers: API_HEADERS,
     },
   );
 
@@ -245,7 +263,7 @@ async function indexPeopleInformation() {
 
   const result = await response.json();
   console.log(
-    `✓ Success: Indexed ${result.indexed} people information records`,
+    `✓ Success: Indexed ${result.indexed} people information records (${result.changed} changed)`,
   );
   return true;
 }
@@ -256,8 +274,7 @@ async function indexCommitteesInformation() {
     `${DEPLOYED_API_BASE_URL}/index/committees/information`,
     {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ key: INDEXER_KEY }),
+      headers: API_HEADERS,
     },
   );
 
@@ -269,7 +286,9 @@ async function indexCommitteesInformation() {
   }
 
   const result = await response.json();
-  console.log(`✓ Success: Indexed ${result.indexed} committees`);
+  console.log(
+    `✓ Success: Indexed ${result.indexed} committees (${result.changed} changed)`,
+  );
   return true;
 }
 
@@ -304,6 +323,7 @@ async function indexCoAuthors(congress: number) {
   );
 
   let totalIndexed = 0;
+  let totalChanged = 0;
   let processedCount = 0;
 
   // Process each person individually
@@ -321,9 +341,8 @@ async function indexCoAuthors(congress: number) {
         `${DEPLOYED_API_BASE_URL}/index/documents/coauthors`,
         {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: API_HEADERS,
           body: JSON.stringify({
-            key: INDEXER_KEY,
             congress,
             personId,
           }),
@@ -348,8 +367,13 @@ async function indexCoAuthors(congress: number) {
     }
 
     const result = retryResult.data!;
-    console.log(`  ✓ Indexed ${result.indexed} co-author relationships`);
+    console.log(
+      `  ✓ Indexed ${result.indexed} co-author relationships${
+        result.changed ? "" : " (unchanged)"
+      }`,
+    );
     totalIndexed += result.indexed;
+    totalChanged += result.changed;
   }
 
   // Create GitHub issues for failed items
@@ -387,7 +411,8 @@ Or via API:
 \`\`\`bash
 curl -X POST ${DEPLOYED_API_BASE_URL}/index/documents/coauthors \\
   -H "Content-Type: application/json" \\
-  -d '{"key": "YOUR_INDEXER_KEY", "congress": ${congress}, "personId": "${personId}"}'
+  -H "Authorization: Bearer YOUR_API_KEY" \\
+  -d '{"congress": ${congress}, "personId": "${personId}"}'
 \`\`\`
 `;
       await createGitHubIssue(
@@ -401,6 +426,10 @@ curl -X POST ${DEPLOYED_API_BASE_URL}/index/documents/coauthors \\
   console.log(`\n✓ Co-author indexing complete!`);
   console.log(`  Total people processed: ${processedCount}`);
   console.log(`  Total relationships indexed: ${totalIndexed}`);
+  console.log(`  People with changed documents: ${totalChanged}`);
+
+  // Refresh the collaborators with the newly indexed co-authors
+  await indexCollaborators(congress);
   return true;
 }
 
@@ -435,6 +464,7 @@ async function indexAuthors(congress: number) {
   );
 
   let totalIndexed = 0;
+  let totalChanged = 0;
   let processedCount = 0;
 
   // Process each person individually
@@ -452,9 +482,8 @@ async function indexAuthors(congress: number) {
         `${DEPLOYED_API_BASE_URL}/index/documents/authors`,
         {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: API_HEADERS,
           body: JSON.stringify({
-            key: INDEXER_KEY,
             congress,
             personId,
           }),
@@ -479,8 +508,13 @@ async function indexAuthors(congress: number) {
     }
 
     const result = retryResult.data!;
-    console.log(`  ✓ Indexed ${result.indexed} author relationships`);
+    console.log(
+      `  ✓ Indexed ${result.indexed} author relationships${
+        result.changed ? "" : " (unchanged)"
+      }`,
+    );
     totalIndexed += result.indexed;
+    totalChanged += result.changed;
   }
 
   // Create GitHub issues for failed items
@@ -518,7 +552,8 @@ Or via API:
 \`\`\`bash
 curl -X POST ${DEPLOYED_API_BASE_URL}/index/documents/authors \\
   -H "Content-Type: application/json" \\
-  -d '{"key": "YOUR_INDEXER_KEY", "congress": ${congress}, "personId": "${personId}"}'
+  -H "Authorization: Bearer YOUR_API_KEY" \\
+  -d '{"congress": ${congress}, "personId": "${personId}"}'
 \`\`\`
 `;
       await createGitHubIssue(
@@ -532,6 +567,10 @@ curl -X POST ${DEPLOYED_API_BASE_URL}/index/documents/authors \\
   console.log(`\n✓ Author indexing complete!`);
   console.log(`  Total people processed: ${processedCount}`);
   console.log(`  Total relationships indexed: ${totalIndexed}`);
+  console.log(`  People with changed documents: ${totalChanged}`);
+
+  // Refresh the collaborators with the newly indexed authors
+  await indexCollaborators(congress);
   return true;
 }
 
@@ -602,9 +641,8 @@ async function indexCommittees(congress: number) {
         `${DEPLOYED_API_BASE_URL}/index/documents/committees`,
         {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: API_HEADERS,
           body: JSON.stringify({
-            key: INDEXER_KEY,
             congress,
             committeeId: committee.code,
           }),
@@ -672,7 +710,8 @@ Or via API:
 \`\`\`bash
 curl -X POST ${DEPLOYED_API_BASE_URL}/index/documents/committees \\
   -H "Content-Type: application/json" \\
-  -d '{"key": "YOUR_INDEXER_KEY", "congress": ${congress}, "committeeId": "${committeeId}"}'
+  -H "Authorization: Bearer YOUR_API_KEY" \\
+  -d '{"congress": ${congress}, "committeeId": "${committeeId}"}'
 \`\`\`
 `;
       await createGitHubIssue(
@@ -689,13 +728,24 @@ curl -X POST ${DEPLOYED_API_BASE_URL}/index/documents/committees \\
   return true;
 }
 
-async function indexDocumentsInformation(congress: number) {
+/**
+ * @param incremental - Send the content hash of each listed document, so the
+ * server only fetches documents from the source API whose listing (status,
+ * readings, authors, committees, titles) changed since they were last indexed
+ */
+async function indexDocumentsInformation(
+  congress: number,
+  incremental = false,
+) {
   console.log(
-    `\n=== Indexing Documents Information for Congress ${congress} ===`,
+    `\n=== Indexing Documents Information for Congress ${congress}${
+      incremental ? " (incremental)" : ""
+    } ===`,
   );
 
   let totalIndexed = 0;
   let processedCount = 0;
+  const changedDocuments: string[] = [];
   let page = 0;
   const limit = 25;
   const failedItems: Array<{ documentKey: string; error: string }> = [];
@@ -727,6 +777,9 @@ async function indexDocumentsInformation(congress: number) {
     // Process each document on this page
     for (const doc of data.data) {
       processedCount++;
+      const listingHash = incremental
+        ? await sha256Hex(canonicalJson(doc))
+        : undefined;
 
       console.log(
         `  [${processedCount}] Processing ${doc.documentKey}...`,
@@ -737,11 +790,11 @@ async function indexDocumentsInformation(congress: number) {
           `${DEPLOYED_API_BASE_URL}/index/documents/information`,
           {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
+            headers: API_HEADERS,
             body: JSON.stringify({
-              key: INDEXER_KEY,
               congress,
               documentKey: doc.documentKey,
+              listingHash,
             }),
           },
         );
@@ -766,7 +819,12 @@ async function indexDocumentsInformation(congress: number) {
       }
 
       const result = retryResult.data!;
-      console.log(`    ✓ Indexed document information`);
+      if (result.changed) {
+        console.log(`    ✓ Indexed document information (changed)`);
+        changedDocuments.push(doc.documentKey);
+      } else {
+        console.log(`    ✓ Unchanged since the last run`);
+      }
       totalIndexed += result.indexed;
     }
 
@@ -813,7 +871,8 @@ Or via API:
 \`\`\`bash
 curl -X POST ${DEPLOYED_API_BASE_URL}/index/documents/information \\
   -H "Content-Type: application/json" \\
-  -d '{"key": "YOUR_INDEXER_KEY", "congress": ${congress}, "documentKey": "${documentKey}"}'
+  -H "Authorization: Bearer YOUR_API_KEY" \\
+  -d '{"congress": ${congress}, "documentKey": "${documentKey}"}'
 \`\`\`
 `;
       await createGitHubIssue(
@@ -827,6 +886,106 @@ curl -X POST ${DEPLOYED_API_BASE_URL}/index/documents/information \\
   console.log(`\n✓ Document information indexing complete!`);
   console.log(`  Total documents processed: ${processedCount}`);
   console.log(`  Total documents indexed: ${totalIndexed}`);
+  console.log(`  Documents changed: ${changedDocuments.length}`);
+  if (changedDocuments.length > 0) {
+    console.log(`    ${changedDocuments.join(", ")}`);
+  }
+
+  // Refresh the congress statistics and exports with the newly indexed documents
+  await indexCongressStats(congress);
+  await indexExports(congress);
+  return true;
+}
+
+async function indexCongressStats(congress: number) {
+  console.log(`\n=== Computing Statistics for Congress ${congress} ===`);
+  const response = await fetch(
+    `${DEPLOYED_API_BASE_URL}/index/congresses/stats`,
+    {
+      method: "POST",
+      headers: API_HEADERS,
+      body: JSON.stringify({ congress }),
+    },
+  );
+
+  if (!response.ok) {
+    console.error(`Failed: ${response.status} ${response.statusText}`);
+    const text = await response.text();
+    console.error(text);
+    return false;
+  }
+
+  const result = await response.json();
+  console.log(
+    `✓ Success: Computed statistics for ${result.indexed} documents`,
+  );
+  return true;
+}
+
+async function indexCollaborators(congress: number) {
+  console.log(`\n=== Computing Collaborators for Congress ${congress} ===`);
+  const response = await fetch(
+    `${DEPLOYED_API_BASE_URL}/index/congresses/collaborators`,
+    {
+      method: "POST",
+      headers: API_HEADERS,
+      body: JSON.stringify({ congress }),
+    },
+  );
+
+  if (!response.ok) {
+    console.error(`Failed: ${response.status} ${response.statusText}`);
+    const text = await response.text();
+    console.error(text);
+    return false;
+  }
+
+  const result = await response.json();
+  console.log(`✓ Success: Computed collaborators for ${result.indexed} people`);
+  return true;
+}
+
+async function indexCongress(congress: number) {
+  console.log(`\n=== Enqueueing Index Job for Congress ${congress} ===`);
+  const response = await fetch(`${DEPLOYED_API_BASE_URL}/index/congresses`, {
+    method: "POST",
+    headers: API_HEADERS,
+    body: JSON.stringify({ congress }),
+  });
+
+  if (!response.ok) {
+    console.error(`Failed: ${response.status} ${response.statusText}`);
+    const text = await response.text();
+    console.error(text);
+    return false;
+  }
+
+  const result = await response.json();
+  console.log(`✓ Success: Enqueued index job ${result.jobId}`);
+  console.log("  The server indexes the congress in the background.");
+  console.log(
+    `  Follow its progress at ${DEPLOYED_API_BASE_URL}/index/jobs/${result.jobId} (with the same API key)`,
+  );
+  return true;
+}
+
+async function indexExports(congress: number) {
+  console.log(`\n=== Generating Exports for Congress ${congress} ===`);
+  const response = await fetch(`${DEPLOYED_API_BASE_URL}/index/exports`, {
+    method: "POST",
+    headers: API_HEADERS,
+    body: JSON.stringify({ congress }),
+  });
+
+  if (!response.ok) {
+    console.error(`Failed: ${response.status} ${response.statusText}`);
+    const text = await response.text();
+    console.error(text);
+    return false;
+  }
+
+  const result = await response.json();
+  console.log(`✓ Success: Counted ${result.indexed} export rows`);
   return true;
 }
 
@@ -852,7 +1011,19 @@ if (!operation) {
     "  index-committees <congress> - Index committees for specific congress (e.g., index-committees 20)",
   );
   console.error(
-    "  index-documents-information <congress> - Index document information (title, dateFiled) for specific congress (e.g., index-documents-information 20)",
+    "  index-documents-information <congress> [--incremental] - Index document information (title, dateFiled) for specific congress (e.g., index-documents-information 20 --incremental). --incremental only fetches documents whose listing changed since they were last indexed",
+  );
+  console.error(
+    "  congress-stats <congress>   - Compute statistics for specific congress (e.g., congress-stats 20)",
+  );
+  console.error(
+    "  collaborators <congress>    - Compute the collaborators of each person for specific congress (e.g., collaborators 20)",
+  );
+  console.error(
+    "  exports <congress>          - Generate the bulk export manifest for specific congress (e.g., exports 20)",
+  );
+  console.error(
+    "  index-congress <congress>   - Enqueue a server-side job indexing a whole congress (e.g., index-congress 20)",
   );
   console.error(
     "  all                    - Run all seeding operations in order (except congress-specific operations)",
@@ -946,7 +1117,72 @@ switch (operation) {
       );
       Deno.exit(1);
     }
-    success = await indexDocumentsInformation(congress);
+
+    // Incremental mode: only documents whose listing changed
+    success = await indexDocumentsInformation(
+      congress,
+      Deno.args.includes("--incremental"),
+    );
+    break;
+  }
+
+  case "congress-stats": {
+    const congress = parseInt(Deno.args[1], 10);
+    if (isNaN(congress)) {
+      console.error(
+        "Error: Congress number is required for congress-stats operation",
+      );
+      console.error(
+        "Usage: deno run --allow-net --allow-env --allow-read scripts/seed.ts congress-stats <congress>",
+      );
+      Deno.exit(1);
+    }
+    success = await indexCongressStats(congress);
+    break;
+  }
+
+  case "collaborators": {
+    const congress = parseInt(Deno.args[1], 10);
+    if (isNaN(congress)) {
+      console.error(
+        "Error: Congress number is required for collaborators operation",
+      );
+      console.error(
+        "Usage: deno run --allow-net --allow-env --allow-read scripts/seed.ts collaborators <congress>",
+      );
+      Deno.exit(1);
+    }
+    success = await indexCollaborators(congress);
+    break;
+  }
+
+  case "exports": {
+    const congress = parseInt(Deno.args[1], 10);
+    if (isNaN(congress)) {
+      console.error(
+        "Error: Congress number is required for exports operation",
+      );
+      console.error(
+        "Usage: deno run --allow-net --allow-env --allow-read scripts/seed.ts exports <congress>",
+      );
+      Deno.exit(1);
+    }
+    success = await indexExports(congress);
+    break;
+  }
+
+  case "index-congress": {
+    const congress = parseInt(Deno.args[1], 10);
+    if (isNaN(congress)) {
+      console.error(
+        "Error: Congress number is required for index-congress operation",
+      );
+      console.error(
+        "Usage: deno run --allow-net --allow-env --allow-read scripts/seed.ts index-congress <congress>",
+      );
+      Deno.exit(1);
+    }
+    success = await indexCongress(congress);
     break;
   }
 
@@ -964,7 +1200,7 @@ switch (operation) {
   default:
     console.error(`Error: Unknown operation "${operation}"`);
     console.error(
-      "\nAvailable operations: people-membership, people-information, committees-information, index-coauthors <congress>, index-authors <congress>, index-committees <congress>, index-documents-information <congress>, all",
+      "\nAvailable operations: people-membership, people-information, committees-information, index-coauthors <congress>, index-authors <congress>, index-committees <congress>, index-documents-information <congress>, congress-stats <congress>, collaborators <congress>, exports <congress>, index-congress <congress>, all",
     );
     Deno.exit(1);
 }
@@ -125,6 +125,47 @@ export const PersonSchema = z
       example: "Dina",
       description: "Nickname or preferred name",
     }),
+    district: z.string().nullable().openapi({
+      example: "Lone District of Batanes",
+      description:
+        "District represented, or the party-list for party-list representatives",
+    }),
+    type: z.string().nullable().openapi({
+      example: "District Representative",
+      description: "Type of representative",
+    }),
+    partyAffiliation: z.string().nullable().openapi({
+      example: "LAKAS-CMD",
+      description: "Political party affiliation",
+    }),
+    email: z.string().nullable().openapi({
+      example: "henedina.abad@house.gov.ph",
+      description: "Office email address",
+    }),
+    website: z.string().nullable().openapi({
+      example: null,
+      description: "Website",
+    }),
+    room: z.string().nullable().openapi({
+      example: "RM 510 SW",
+      description: "Office room in the House of Representatives",
+    }),
+    directLine: z.string().nullable().openapi({
+      example: "(02) 8-9315001",
+      description: "Office direct line",
+    }),
+    chiefOfStaff: z.string().nullable().openapi({
+      example: "Juan Dela Cruz",
+      description: "Chief of staff",
+    }),
+    photo: z.string().nullable().openapi({
+      example: "https://docs.congress.hrep.online/photos/E001.jpg",
+      description: "Photo URL",
+    }),
+    current: z.boolean().openapi({
+      example: true,
+      description: "Whether the person is a member of the current congress",
+    }),
     congresses: z.array(z.number()).openapi({
       example: [20, 19, 17, 16],
       description: "List of congress numbers where this person was a member",
@@ -197,6 +238,22 @@ export const PaginatedPeopleSchema = createPaginatedResponseSchema(
 
 export type PaginatedPeople = z.infer<typeof PaginatedPeopleSchema>;
 
+/**
+ * Document referred to a committee
+ */
+export const CommitteeDocumentSchema = DocumentSchema.extend({
+  referralType: z
+    .enum(["principal", "secondary", "previous", "other"])
+    .nullable()
+    .openapi({
+      example: "principal",
+      description:
+        "How the document was referred to the committee, or null if unknown",
+    }),
+}).openapi("CommitteeDocument");
+
+export type CommitteeDocument = z.infer<typeof CommitteeDocumentSchema>;
+
 /**
  * Committee information
  */
@@ -231,10 +288,10 @@ export const CommitteeInfoSchema = z
       example: "Standing Committees",
       description: "Committee type description",
     }),
-    documents: z.array(DocumentSchema).openapi({
+    documents: z.array(CommitteeDocumentSchema).openapi({
       example: [
-        { congress: 20, documentKey: "HB00001" },
-        { congress: 20, documentKey: "HB00123" },
+        { congress: 20, documentKey: "HB00001", referralType: "principal" },
+        { congress: 20, documentKey: "HB00123", referralType: "secondary" },
       ],
       description: "List of documents referred to this committee",
     }),
@@ -258,33 +315,50 @@ export type PaginatedCommittees = z.infer<typeof PaginatedCommitteesSchema>;
  */
 export const ReadingSchema = z
   .object({
+    stage: z.enum(["first", "second", "third"]).openapi({
+      example: "first",
+      description: "Reading stage",
+    }),
     id: z.number().openapi({
       example: 2,
       description: "Reading record ID",
     }),
     congress: z.number().openapi({
       example: 20,
-      description: "Congress number",
+      description: "Congress number (normalized, e.g., 103 → 20)",
     }),
-    billNo: z.string().openapi({
+    documentKey: z.string().openapi({
       example: "HB00001",
-      description: "Bill number",
+      description: "Bill/document number",
+    }),
+    dateRead: z.string().nullable().openapi({
+      example: "2025-07-29",
+      description: "Date of reading (ISO format)",
     }),
-    report: z.string().optional().openapi({
+    report: z.string().nullable().openapi({
       example: "Committee Report No. 123",
       description: "Committee report number",
     }),
-    referral: z.string().optional().openapi({
+    committeeAction: z.string().nullable().openapi({
+      example: "Approved without amendments",
+      description: "Action taken by the committee",
+    }),
+    referral: z.string().nullable().openapi({
       example: "E505",
-      description: "Committee referral code",
+      description: "Committee referral code as given by the source API",
     }),
-    refName: z.string().optional().openapi({
+    refName: z.string().nullable().openapi({
       example: "AGRICULTURE AND FOOD",
       description: "Committee name",
     }),
-    dateRead: z.string().optional().openapi({
-      example: "2025-07-29",
-      description: "Date of reading",
+    committeeId: z.string().nullable().openapi({
+      example: "0505",
+      description:
+        "Committee ID the bill was referred to, or null if the committee is not cached",
+    }),
+    remarks: z.string().nullable().openapi({
+      example: null,
+      description: "Remarks",
     }),
   })
   .openapi("Reading");
@@ -292,22 +366,11 @@ export const ReadingSchema = z
 export type Reading = z.infer<typeof ReadingSchema>;
 
 /**
- * Referral information
+ * Array of readings
  */
-export const ReferralSchema = z
-  .object({
-    committee: z.string().openapi({
-      example: "AGRICULTURE AND FOOD",
-      description: "Committee name",
-    }),
-    sequence: z.string().openapi({
-      example: "1.0",
-      description: "Referral sequence number",
-    }),
-  })
-  .openapi("Referral");
+export const ReadingListSchema = z.array(ReadingSchema).openapi("ReadingList");
 
-export type Referral = z.infer<typeof ReferralSchema>;
+export type ReadingList = z.infer<typeof ReadingListSchema>;
 
 /**
  * Author information
@@ -389,6 +452,63 @@ export const CommitteeInDocumentSchema = z
 
 export type CommitteeInDocument = z.infer<typeof CommitteeInDocumentSchema>;
 
+/**
+ * Committee referral of a document
+ */
+export const ReferralSchema = z
+  .object({
+    type: z.enum(["principal", "secondary", "previous", "other"]).openapi({
+      example: "principal",
+      description:
+        "Referral type. Previous referrals were replaced by a later referral.",
+    }),
+    sequence: z.string().nullable().openapi({
+      example: "1.0",
+      description: "Referral sequence number",
+    }),
+    journalNo: z.string().nullable().openapi({
+      example: "Journal No. 007",
+      description: "Journal number where the referral was recorded",
+    }),
+    referral: z.string().nullable().openapi({
+      example: "0505",
+      description: "Committee referral code as given by the source API",
+    }),
+    committeeName: z.string().nullable().openapi({
+      example: "AGRICULTURE AND FOOD",
+      description: "Committee name as given by the source API",
+    }),
+    committeeId: z.string().nullable().openapi({
+      example: "0505",
+      description:
+        "Committee ID the bill was referred to, or null if the committee is not cached",
+    }),
+    committee: CommitteeInDocumentSchema.nullable().openapi({
+      description: "Committee details, or null if the committee is not cached",
+    }),
+    changed: z.boolean().openapi({
+      example: false,
+      description:
+        "Whether the referral was changed from the original referral",
+    }),
+    originalReferral: z.string().nullable().openapi({
+      example: "0505",
+      description: "Committee code of the original referral",
+    }),
+  })
+  .openapi("Referral");
+
+export type Referral = z.infer<typeof ReferralSchema>;
+
+/**
+ * Array of referrals
+ */
+export const ReferralListSchema = z.array(ReferralSchema).openapi(
+  "ReferralList",
+);
+
+export type ReferralList = z.infer<typeof ReferralListSchema>;
+
 /**
  * Document/Bill detailed information
  */
@@ -466,6 +586,41 @@ export const DocumentInfoSchema = z
       ],
       description: "List of committees",
     }),
+    readings: z.array(ReadingSchema).openapi({
+      example: [
+        {
+          stage: "first",
+          id: 2,
+          congress: 20,
+          documentKey: "HB00001",
+          dateRead: "2025-07-29",
+          report: null,
+          committeeAction: null,
+          referral: "E505",
+          refName: "AGRICULTURE AND FOOD",
+          committeeId: "0505",
+          remarks: null,
+        },
+      ],
+      description: "Readings the bill has passed, in order",
+    }),
+    referrals: z.array(ReferralSchema).openapi({
+      example: [
+        {
+          type: "principal",
+          sequence: "1.0",
+          journalNo: "Journal No. 007",
+          referral: "0505",
+          committeeName: "AGRICULTURE AND FOOD",
+          committeeId: "0505",
+          committee: null,
+          changed: false,
+          originalReferral: "0505",
+        },
+      ],
+      description:
+        "Committee referrals: principal, secondary, then previous referrals",
+    }),
     billType: z.string().openapi({
       example: "House Bill",
       description: "Type of bill/document",
@@ -488,3 +643,1033 @@ export const PaginatedDocumentsSchema = createPaginatedResponseSchema(
 );
 
 export type PaginatedDocuments = z.infer<typeof PaginatedDocumentsSchema>;
+
+/**
+ * Full-text search result
+ */
+export const SearchResultSchema = z
+  .object({
+    congress: z.number().openapi({
+      example: 20,
+      description: "Congress number (normalized, e.g., 103 → 20)",
+    }),
+    documentKey: z.string().openapi({
+      example: "HB00001",
+      description: "Bill/document number",
+    }),
+    titleFull: z.string().openapi({
+      example: "AN ACT STRENGTHENING THE REGULATORY POWERS...",
+      description: "Full title of the bill",
+    }),
+    titleShort: z.string().openapi({
+      example: "Agricultural Tariffication Act Amendment",
+      description: "Short title of the bill",
+    }),
+    abstract: z.string().openapi({
+      example: "This bill amends Republic Act No. 8178...",
+      description: "Abstract/summary of the bill",
+    }),
+    dateFiled: z.string().openapi({
+      example: "2025-06-30",
+      description: "Date the bill was filed",
+    }),
+    billType: z.string().openapi({
+      example: "House Bill",
+      description: "Type of bill/document",
+    }),
+    significance: z.string().openapi({
+      example: "National",
+      description: "Significance level of the bill",
+    }),
+    score: z.number().openapi({
+      example: 7.412,
+      description: "Relevance score, higher is more relevant",
+    }),
+    matchedFields: z
+      .array(z.enum(["titleShort", "titleFull", "abstract"]))
+      .openapi({
+        example: ["titleShort", "abstract"],
+        description: "Fields that contain the query terms",
+      }),
+    highlights: z
+      .object({
+        titleShort: z.string(),
+        titleFull: z.string(),
+        abstract: z.string(),
+      })
+      .openapi({
+        example: {
+          titleShort: "<mark>Agricultural</mark> Tariffication Act Amendment",
+          titleFull: "AN ACT STRENGTHENING THE REGULATORY POWERS...",
+          abstract: "…amends the <mark>Agricultural</mark> Tariffication Act…",
+        },
+        description:
+          "HTML-escaped fields with matching words wrapped in <mark> tags. The abstract is shortened to a snippet around the first match.",
+      }),
+  })
+  .openapi("SearchResult");
+
+export type SearchResult = z.infer<typeof SearchResultSchema>;
+
+/**
+ * Paginated response for search results
+ */
+export const PaginatedSearchResultsSchema = createPaginatedResponseSchema(
+  SearchResultSchema,
+  "PaginatedSearchResults",
+);
+
+export type PaginatedSearchResults = z.infer<
+  typeof PaginatedSearchResultsSchema
+>;
+
+/**
+ * Political party, with spelling variants from the source API merged
+ */
+export const PartySchema = z
+  .object({
+    partyId: z.string().openapi({
+      example: "lakas-cmd",
+      description: "Normalized party identifier",
+    }),
+    name: z.string().openapi({
+      example: "Lakas–Christian Muslim Democrats",
+      description: "Party name",
+    }),
+    abbreviation: z.string().nullable().openapi({
+      example: "LAKAS-CMD",
+      description: "Party abbreviation, if known",
+    }),
+    variants: z.array(z.string()).openapi({
+      example: ["LAKAS-CMD", "Lakas-CMD", "LAKAS CHRISTIAN MUSLIM DEMOCRATS"],
+      description:
+        "Party affiliations from the source API merged into this party",
+    }),
+    memberCount: z.number().openapi({
+      example: 104,
+      description: "Number of people affiliated with the party",
+    }),
+    currentMemberCount: z.number().openapi({
+      example: 87,
+      description: "Number of affiliated people who are current members",
+    }),
+    authoredDocumentCount: z.number().openapi({
+      example: 2310,
+      description:
+        "Number of distinct documents principally authored by affiliated people, in all congresses",
+    }),
+  })
+  .openapi("Party");
+
+export type Party = z.infer<typeof PartySchema>;
+
+/**
+ * List of parties
+ */
+export const PartyListSchema = z.array(PartySchema).openapi("PartyList");
+
+export type PartyList = z.infer<typeof PartyListSchema>;
+
+/**
+ * Members of a party in one congress
+ */
+export const PartyCongressSchema = z
+  .object({
+    congress: z.number().openapi({
+      example: 20,
+      description: "Congress number",
+    }),
+    memberCount: z.number().openapi({
+      example: 87,
+      description: "Number of affiliated people who served in this congress",
+    }),
+    authoredDocumentCount: z.number().openapi({
+      example: 640,
+      description:
+        "Number of distinct documents of this congress principally authored by affiliated people",
+    }),
+    members: z.array(AuthorSchema).openapi({
+      description: "Affiliated people who served in this congress",
+    }),
+  })
+  .openapi("PartyCongress");
+
+export type PartyCongress = z.infer<typeof PartyCongressSchema>;
+
+/**
+ * Party with its members per congress
+ */
+export const PartyInfoSchema = PartySchema.extend({
+  congresses: z.array(PartyCongressSchema).openapi({
+    description: "Members and authored documents per congress, newest first",
+  }),
+}).openapi("PartyInfo");
+
+export type PartyInfo = z.infer<typeof PartyInfoSchema>;
+
+/**
+ * Legislative district or party-list, parsed from the district of house members
+ */
+export const DistrictSchema = z
+  .object({
+    districtId: z.string().openapi({
+      example: "cebu-2",
+      description: "Normalized district identifier",
+    }),
+    name: z.string().openapi({
+      example: "2nd District of Cebu",
+      description: "District name",
+    }),
+    kind: z.enum(["district", "lone", "party-list"]).openapi({
+      example: "district",
+      description:
+        "Numbered district, lone district of a province or city, or party-list",
+    }),
+    province: z.string().nullable().openapi({
+      example: "Cebu",
+      description: "Province, null for city districts and party-lists",
+    }),
+    city: z.string().nullable().openapi({
+      example: null,
+      description: "City, null for province districts and party-lists",
+    }),
+    number: z.number().nullable().openapi({
+      example: 2,
+      description: "District number, null for lone districts and party-lists",
+    }),
+    partyList: z.string().nullable().openapi({
+      example: null,
+      description: "Party-list name, null for geographic districts",
+    }),
+    regionId: z.string().nullable().openapi({
+      example: "region-7",
+      description:
+        "Region of the province or city, null for party-lists and unknown locations",
+    }),
+    memberCount: z.number().openapi({
+      example: 3,
+      description: "Number of people representing the district",
+    }),
+    currentMemberCount: z.number().openapi({
+      example: 1,
+      description: "Number of representatives who are current members",
+    }),
+    authoredDocumentCount: z.number().openapi({
+      example: 145,
+      description:
+        "Number of distinct documents principally authored by the representatives, in all congresses",
+    }),
+  })
+  .openapi("District");
+
+export type District = z.infer<typeof DistrictSchema>;
+
+/**
+ * List of districts
+ */
+export const DistrictListSchema = z.array(DistrictSchema).openapi(
+  "DistrictList",
+);
+
+export type DistrictList = z.infer<typeof DistrictListSchema>;
+
+/**
+ * Administrative region, with the representation of its districts
+ */
+export const RegionSchema = z
+  .object({
+    regionId: z.string().openapi({
+      example: "region-7",
+      description: "Region identifier",
+    }),
+    name: z.string().openapi({
+      example: "Central Visayas",
+      description: "Region name",
+    }),
+    designation: z.string().openapi({
+      example: "Region VII",
+      description: "Official region designation",
+    }),
+    districtCount: z.number().openapi({
+      example: 12,
+      description: "Number of districts in the region",
+    }),
+    memberCount: z.number().openapi({
+      example: 30,
+      description: "Number of people representing districts in the region",
+    }),
+    currentMemberCount: z.number().openapi({
+      example: 12,
+      description: "Number of representatives who are current members",
+    }),
+    authoredDocumentCount: z.number().openapi({
+      example: 1210,
+      description:
+        "Number of distinct documents principally authored by the representatives, in all congresses",
+    }),
+  })
+  .openapi("Region");
+
+export type Region = z.infer<typeof RegionSchema>;
+
+/**
+ * List of regions
+ */
+export const RegionListSchema = z.array(RegionSchema).openapi("RegionList");
+
+export type RegionList = z.infer<typeof RegionListSchema>;
+
+/**
+ * Representative of a district in a region
+ */
+export const RegionPersonSchema = AuthorSchema.extend({
+  districtId: z.string().openapi({
+    example: "cebu-2",
+    description: "District identifier",
+  }),
+  district: z.string().openapi({
+    example: "2nd District of Cebu",
+    description: "District name",
+  }),
+  current: z.boolean().openapi({
+    example: true,
+    description: "Whether the person is a current member",
+  }),
+}).openapi("RegionPerson");
+
+export type RegionPerson = z.infer<typeof RegionPersonSchema>;
+
+/**
+ * Region with its districts and representatives
+ */
+export const RegionPeopleSchema = RegionSchema.extend({
+  districts: DistrictListSchema,
+  people: z.array(RegionPersonSchema).openapi({
+    description: "Representatives of the region, sorted by name",
+  }),
+}).openapi("RegionPeople");
+
+export type RegionPeople = z.infer<typeof RegionPeopleSchema>;
+
+/**
+ * Person in a co-authorship network (JSON Graph node)
+ */
+export const NetworkNodeSchema = z
+  .object({
+    label: z.string().openapi({
+      example: "FERDINAND MARTIN ROMUALDEZ",
+      description: "Person name",
+    }),
+    metadata: z.object({
+      party: z.string().nullable().openapi({
+        example: "Lakas–Christian Muslim Democrats",
+        description: "Normalized party, if known",
+      }),
+      district: z.string().nullable().openapi({
+        example: "1st District of Leyte",
+        description: "Normalized district, if known",
+      }),
+      regionId: z.string().nullable().openapi({
+        example: "region-8",
+        description: "Region of the district, if known",
+      }),
+      authoredDocuments: z.number().openapi({
+        example: 42,
+        description: "Documents principally authored in the congress",
+      }),
+      coAuthoredDocuments: z.number().openapi({
+        example: 310,
+        description: "Documents co-authored in the congress",
+      }),
+    }),
+  })
+  .openapi("NetworkNode");
+
+/**
+ * Co-authorship between two people (JSON Graph edge)
+ */
+export const NetworkEdgeSchema = z
+  .object({
+    source: z.string().openapi({
+      example: "F061",
+      description: "Person ID",
+    }),
+    target: z.string().openapi({
+      example: "A023",
+      description: "Person ID",
+    }),
+    relation: z.literal("co-authored"),
+    metadata: z.object({
+      weight: z.number().openapi({
+        example: 12,
+        description: "Number of documents both people authored or co-authored",
+      }),
+    }),
+  })
+  .openapi("NetworkEdge");
+
+/**
+ * Co-authorship network of a congress in JSON Graph Format (v2)
+ */
+export const NetworkGraphSchema = z
+  .object({
+    graph: z.object({
+      id: z.string().openapi({ example: "congress-20" }),
+      type: z.literal("co-authorship"),
+      label: z.string().openapi({
+        example: "Co-authorship network of Congress 20",
+      }),
+      directed: z.literal(false),
+      metadata: z.object({
+        congress: z.number().openapi({
+          example: 20,
+          description: "Congress number",
+        }),
+        documents: z.number().openapi({
+          example: 9120,
+          description: "Number of documents with cached authors",
+        }),
+      }),
+      nodes: z.record(z.string(), NetworkNodeSchema).openapi({
+        description: "People, keyed by person ID",
+      }),
+      edges: z.array(NetworkEdgeSchema),
+    }),
+  })
+  .openapi("NetworkGraph");
+
+export type NetworkGraph = z.infer<typeof NetworkGraphSchema>;
+
+/**
+ * Collaboration counts of two people in one congress
+ */
+export const CollaboratorCongressSchema = z
+  .object({
+    congress: z.number().openapi({
+      example: 20,
+      description: "Congress number",
+    }),
+    sharedDocuments: z.number().openapi({
+      example: 14,
+      description: "Documents both people authored or co-authored",
+    }),
+    coAuthoredByCollaborator: z.number().openapi({
+      example: 6,
+      description:
+        "Documents principally authored by the person, co-authored by the collaborator",
+    }),
+    coAuthoredByPerson: z.number().openapi({
+      example: 3,
+      description:
+        "Documents principally authored by the collaborator, co-authored by the person",
+    }),
+  })
+  .openapi("CollaboratorCongress");
+
+/**
+ * Person who authored or co-authored documents with another person
+ */
+export const CollaboratorSchema = AuthorSchema.extend({
+  sharedDocuments: z.number().openapi({
+    example: 31,
+    description: "Documents both people authored or co-authored",
+  }),
+  coAuthoredByCollaborator: z.number().openapi({
+    example: 12,
+    description:
+      "Documents principally authored by the person, co-authored by the collaborator",
+  }),
+  coAuthoredByPerson: z.number().openapi({
+    example: 7,
+    description:
+      "Documents principally authored by the collaborator, co-authored by the person",
+  }),
+  byCongress: z.array(CollaboratorCongressSchema).openapi({
+    description: "Collaboration counts per congress, newest first",
+  }),
+}).openapi("Collaborator");
+
+export type Collaborator = z.infer<typeof CollaboratorSchema>;
+
+/**
+ * Top collaborators of a person
+ */
+export const PersonCollaboratorsSchema = z
+  .object({
+    personId: z.string().openapi({
+      example: "E001",
+      description: "Person ID",
+    }),
+    total: z.number().openapi({
+      example: 148,
+      description: "Total number of collaborators",
+    }),
+    data: z.array(CollaboratorSchema).openapi({
+      description: "Collaborators, most shared documents first",
+    }),
+  })
+  .openapi("PersonCollaborators");
+
+export type PersonCollaborators = z.infer<typeof PersonCollaboratorsSchema>;
+
+/**
+ * Number of documents with a given value
+ */
+export const StatsCountSchema = z
+  .object({
+    value: z.string().openapi({
+      example: "House Bill",
+      description: "Field value",
+    }),
+    count: z.number().openapi({
+      example: 9120,
+      description: "Number of documents",
+    }),
+  })
+  .openapi("StatsCount");
+
+/**
+ * Author with the number of documents principally authored in a congress
+ */
+export const StatsAuthorSchema = AuthorSchema.extend({
+  authoredDocuments: z.number().openapi({
+    example: 142,
+    description: "Documents principally authored in the congress",
+  }),
+}).openapi("StatsAuthor");
+
+/**
+ * Committee with the number of documents referred to it in a congress
+ */
+export const StatsCommitteeSchema = z
+  .object({
+    committeeId: z.string().openapi({
+      example: "0501",
+      description: "Committee code",
+    }),
+    name: z.string().nullable().openapi({
+      example: "AGRICULTURE AND FOOD",
+      description: "Committee name, null if the committee is not indexed",
+    }),
+    referredDocuments: z.number().openapi({
+      example: 612,
+      description: "Documents referred to the committee",
+    }),
+    principalReferrals: z.number().openapi({
+      example: 480,
+      description: "Documents referred to the committee as principal committee",
+    }),
+  })
+  .openapi("StatsCommittee");
+
+/**
+ * Aggregate statistics of a congress
+ */
+export const CongressStatsSchema = z
+  .object({
+    congress: z.number().openapi({
+      example: 20,
+      description: "Congress number",
+    }),
+    computedAt: z.string().openapi({
+      example: "2025-10-18T03:00:00.000Z",
+      description: "When the statistics were computed",
+    }),
+    documentCount: z.number().openapi({
+      example: 9120,
+      description: "Number of documents with cached information",
+    }),
+    documentsWithAuthors: z.number().openapi({
+      example: 9050,
+      description: "Number of documents with cached principal authors",
+    }),
+    filedByMonth: z
+      .array(
+        z.object({
+          month: z.string().openapi({
+            example: "2025-07",
+            description: "Month (YYYY-MM)",
+          }),
+          count: z.number().openapi({
+            example: 4210,
+            description: "Number of documents filed",
+          }),
+        }),
+      )
+      .openapi({ description: "Documents filed per month, oldest first" }),
+    byBillType: z.array(StatsCountSchema).openapi({
+      description: "Documents per bill type, most common first",
+    }),
+    bySignificance: z.array(StatsCountSchema).openapi({
+      description: "Documents per significance, most common first",
+    }),
+    readings: z
+      .object({
+        first: z.number().openapi({ example: 9020 }),
+        second: z.number().openapi({ example: 310 }),
+        third: z.number().openapi({ example: 215 }),
+      })
+      .openapi({
+        description: "Number of documents that reached each reading",
+      }),
+    topAuthors: z.array(StatsAuthorSchema).openapi({
+      description: "Most prolific principal authors",
+    }),
+    topCommittees: z.array(StatsCommitteeSchema).openapi({
+      description: "Committees with the most referred documents",
+    }),
+  })
+  .openapi("CongressStats");
+
+export type CongressStats = z.infer<typeof CongressStatsSchema>;
+
+/**
+ * Generated bulk export of a congress
+ */
+export const ExportSchema = z
+  .object({
+    congress: z.number().openapi({
+      example: 20,
+      description: "Congress number",
+    }),
+    dataset: z.enum(["documents", "people", "committees"]).openapi({
+      example: "documents",
+      description: "Exported dataset",
+    }),
+    rowCount: z.number().openapi({
+      example: 9120,
+      description: "Number of rows when the export was last generated",
+    }),
+    generatedAt: z.string().openapi({
+      example: "2025-10-18T03:00:00.000Z",
+      description: "When the export was last generated (ISO 8601)",
+    }),
+    files: z
+      .object({
+        ndjson: z.string().openapi({
+          example: "/api/exports/congresses/20/documents.ndjson",
+        }),
+        csv: z.string().openapi({
+          example: "/api/exports/congresses/20/documents.csv",
+        }),
+      })
+      .openapi({ description: "Download paths per format" }),
+  })
+  .openapi("Export");
+
+export type Export = z.infer<typeof ExportSchema>;
+
+/**
+ * Manifest of generated bulk exports
+ */
+export const ExportManifestSchema = z
+  .object({
+    total: z.number().openapi({
+      example: 3,
+      description: "Number of generated exports",
+    }),
+    data: z.array(ExportSchema),
+  })
+  .openapi("ExportManifest");
+
+/**
+ * Kinds of changes recorded in the history of a document
+ */
+export const DocumentHistoryChangeSchema = z
+  .enum([
+    "indexed",
+    "status_changed",
+    "reading_recorded",
+    "reading_removed",
+    "referral_added",
+    "referral_removed",
+    "author_added",
+    "author_removed",
+    "co_author_added",
+    "co_author_removed",
+  ])
+  .openapi({
+    example: "status_changed",
+    description:
+      "indexed: the document was indexed for the first time; the other kinds name the field that changed",
+  });
+
+export type DocumentHistoryChange = z.infer<typeof DocumentHistoryChangeSchema>;
+
+/**
+ * Change to a document detected by the indexer
+ */
+export const DocumentHistoryEntrySchema = z
+  .object({
+    recordedAt: z.string().openapi({
+      example: "2025-10-18T03:00:00.000Z",
+      description: "When the indexer detected the change (ISO 8601)",
+    }),
+    change: DocumentHistoryChangeSchema,
+    previous: z.string().nullable().openapi({
+      example: "Pending with the Committee on AGRICULTURE AND FOOD",
+      description:
+        "Previous value: the status, or the removed reading stage, referral (type:committee name) or author name",
+    }),
+    current: z.string().nullable().openapi({
+      example: "Approved by the Committee on 2025-09-02",
+      description:
+        "New value: the status, or the added reading stage, referral (type:committee name) or author name",
+    }),
+  })
+  .openapi("DocumentHistoryEntry");
+
+export type DocumentHistoryEntry = z.infer<typeof DocumentHistoryEntrySchema>;
+
+/**
+ * History of a document, oldest change first
+ */
+export const DocumentHistorySchema = z
+  .object({
+    congress: z.number().openapi({ example: 20 }),
+    documentKey: z.string().openapi({ example: "HB00001" }),
+    total: z.number().openapi({
+      example: 4,
+      description: "Number of recorded changes",
+    }),
+    data: z.array(DocumentHistoryEntrySchema),
+  })
+  .openapi("DocumentHistory");
+
+export type DocumentHistory = z.infer<typeof DocumentHistorySchema>;
+
+/**
+ * Webhook event types
+ */
+export const WebhookEventSchema = z
+  .enum(["document.status_changed", "document.reading_recorded"])
+  .openapi({
+    example: "document.status_changed",
+    description:
+      "document.status_changed: the status of a document changed; document.reading_recorded: a document reached a new reading",
+  });
+
+export type WebhookEvent = z.infer<typeof WebhookEventSchema>;
+
+/**
+ * What a webhook subscription follows
+ */
+export const WebhookTargetSchema = z
+  .discriminatedUnion("type", [
+    z.object({
+      type: z.literal("document"),
+      congress: z.number().openapi({ example: 20 }),
+      documentKey: z.string().openapi({ example: "HB00001" }),
+    }),
+    z.object({
+      type: z.literal("person"),
+      personId: z.string().openapi({ example: "E001" }),
+    }),
+    z.object({
+      type: z.literal("committee"),
+      committeeId: z.string().openapi({ example: "0505" }),
+    }),
+  ])
+  .openapi("WebhookTarget", {
+    description:
+      "A document, every document authored or co-authored by a person, or every document referred to a committee",
+  });
+
+export type WebhookTarget = z.infer<typeof WebhookTargetSchema>;
+
+/**
+ * Webhook subscription, without its secret
+ */
+export const WebhookSubscriptionSchema = z
+  .object({
+    subscriptionId: z.string().openapi({
+      example: "4c0e3f7e-3f5b-4b8e-9d0a-2a8f6f1c9b21",
+      description: "Subscription ID",
+    }),
+    url: z.string().openapi({
+      example: "https://example.com/hooks/hrep",
+      description: "URL the deliveries are posted to",
+    }),
+    target: WebhookTargetSchema,
+    events: z.array(WebhookEventSchema).openapi({
+      description: "Events delivered to the URL",
+    }),
+    createdAt: z.string().openapi({
+      example: "2025-10-18T03:00:00.000Z",
+      description: "When the subscription was created (ISO 8601)",
+    }),
+  })
+  .openapi("WebhookSubscription");
+
+/**
+ * Body posted to a webhook URL
+ */
+export const WebhookPayloadSchema = z
+  .object({
+    event: WebhookEventSchema,
+    congress: z.number().openapi({ example: 20 }),
+    documentKey: z.string().openapi({ example: "HB00001" }),
+    titleShort: z.string().openapi({
+      example: "Agricultural Tariffication Act Amendment",
+    }),
+    status: z.string().nullable().openapi({
+      example: "Approved by the Committee on 2025-09-02",
+      description: "Current status of the document",
+    }),
+    previousStatus: z.string().nullable().openapi({
+      example: "Pending with the Committee on AGRICULTURE AND FOOD",
+      description: "Status before the change (document.status_changed only)",
+    }),
+    reading: ReadingSchema.nullable().openapi({
+      description: "The new reading (document.reading_recorded only)",
+    }),
+    occurredAt: z.string().openapi({
+      example: "2025-10-18T03:00:00.000Z",
+      description: "When the indexer detected the change (ISO 8601)",
+    }),
+  })
+  .openapi("WebhookPayload");
+
+export type WebhookPayload = z.infer<typeof WebhookPayloadSchema>;
+
+/**
+ * Delivery log entry of a webhook
+ */
+export const WebhookDeliverySchema = z
+  .object({
+    deliveryId: z.string().openapi({
+      example: "0b7f1d2c-8e4a-4f0e-b1a6-5c2d9e8f7a10",
+      description: "Delivery ID, also sent in the X-Webhook-Delivery header",
+    }),
+    subscriptionId: z.string().openapi({
+      example: "4c0e3f7e-3f5b-4b8e-9d0a-2a8f6f1c9b21",
+    }),
+    event: WebhookEventSchema,
+    status: z.enum(["pending", "delivered", "failed"]).openapi({
+      example: "delivered",
+      description:
+        "pending: waiting for a (re)try; delivered: the URL responded with 2xx; failed: all attempts failed",
+    }),
+    attempts: z.number().openapi({
+      example: 1,
+      description: "Number of delivery attempts so far",
+    }),
+    responseStatus: z.number().nullable().openapi({
+      example: 200,
+      description: "HTTP status of the last attempt",
+    }),
+    error: z.string().nullable().openapi({
+      example: null,
+      description: "Error of the last attempt",
+    }),
+    createdAt: z.string().openapi({ example: "2025-10-18T03:00:00.000Z" }),
+    updatedAt: z.string().openapi({ example: "2025-10-18T03:00:01.000Z" }),
+    payload: WebhookPayloadSchema,
+  })
+  .openapi("WebhookDelivery");
+
+export type WebhookDelivery = z.infer<typeof WebhookDeliverySchema>;
+
+/**
+ * Progress of one kind of index task
+ */
+export const IndexJobProgressSchema = z
+  .object({
+    done: z.number().openapi({
+      example: 4,
+      description: "Tasks that completed or were dead-lettered",
+    }),
+    total: z.number().openapi({
+      example: 32,
+      description:
+        "Total tasks, known once the first chunk or page reported the number of people, committees or documents",
+    }),
+  })
+  .openapi("IndexJobProgress");
+
+export type IndexJobProgress = z.infer<typeof IndexJobProgressSchema>;
+
+/**
+ * Index job with its progress and timings
+ */
+export const IndexJobSchema = z
+  .object({
+    jobId: z.string().openapi({
+      example: "9d4c2a4e-6a0f-4f57-8f6e-2b8f9c3e1d7a",
+    }),
+    congress: z.number().openapi({ example: 20 }),
+    status: z.enum(["queued", "running", "done", "failed"]).openapi({
+      example: "running",
+      description:
+        "queued: no task started yet; running: tasks are pending; done: all tasks completed; failed: all tasks ended and at least one was dead-lettered",
+    }),
+    chunks: IndexJobProgressSchema.openapi({
+      description: "Progress over all tasks (chunks and pages) of the job",
+    }),
+    progress: z.object({
+      coauthors: IndexJobProgressSchema,
+      authors: IndexJobProgressSchema,
+      committees: IndexJobProgressSchema,
+      documents: IndexJobProgressSchema,
+      finish: IndexJobProgressSchema,
+    }).openapi({ description: "Progress per kind of task" }),
+    pendingTasks: z.number().openapi({
+      example: 3,
+      description: "Tasks enqueued and not completed or dead-lettered yet",
+    }),
+    completedTasks: z.number().openapi({ example: 4 }),
+    failedTasks: z.number().openapi({
+      example: 0,
+      description: "Dead-lettered tasks",
+    }),
+    createdAt: z.string().openapi({ example: "2025-10-18T03:00:00.000Z" }),
+    startedAt: z.string().nullable().openapi({
+      example: "2025-10-18T03:00:01.000Z",
+      description: "When the first task ran",
+    }),
+    updatedAt: z.string().openapi({ example: "2025-10-18T03:02:00.000Z" }),
+    finishedAt: z.string().nullable().openapi({
+      example: null,
+      description: "When the last task ended",
+    }),
+    durationMs: z.number().nullable().openapi({
+      example: 119000,
+      description:
+        "Milliseconds from the first task to the last one, or to now while running",
+    }),
+  })
+  .openapi("IndexJob");
+
+/**
+ * Person, committee or document of an index task whose last attempt failed
+ */
+export const IndexJobItemErrorSchema = z
+  .object({
+    itemId: z.string().openapi({
+      example: "HB00123",
+      description: "Person ID, committee ID or document key",
+    }),
+    error: z.string().openapi({
+      example:
+        'POST /api/index/documents/information failed: 504 {"error":"Source API request to /bills/search timed out after 15000ms","code":"UPSTREAM_TIMEOUT"}',
+    }),
+  })
+  .openapi("IndexJobItemError");
+
+/**
+ * Index task whose last attempt failed
+ */
+export const IndexJobErrorSchema = z
+  .object({
+    taskId: z.string().openapi({
+      example: "0b7f1d2c-8e4a-4f0e-b1a6-5c2d9e8f7a10",
+    }),
+    kind: z.enum(["coauthors", "authors", "committees", "documents", "finish"])
+      .openapi({ example: "documents" }),
+    startIndex: z.number().nullable().openapi({
+      example: null,
+      description: "First person or committee of the chunk",
+    }),
+    page: z.number().nullable().openapi({
+      example: 3,
+      description: "Page of documents",
+    }),
+    status: z.enum(["pending", "dead_lettered"]).openapi({
+      example: "pending",
+      description:
+        "pending: waiting for a retry; dead_lettered: all attempts failed",
+    }),
+    attempts: z.number().openapi({ example: 2 }),
+    error: z.string().openapi({
+      example: "Failed to index 1 of 25 documents: HB00123",
+      description: "Error of the last attempt",
+    }),
+    failedItems: z.array(IndexJobItemErrorSchema).openapi({
+      description:
+        "People, committees or documents of the task whose last attempt failed; retries only index these. Empty if the task failed before its items were listed.",
+    }),
+    updatedAt: z.string().openapi({ example: "2025-10-18T03:01:30.000Z" }),
+  })
+  .openapi("IndexJobError");
+
+export type IndexJobError = z.infer<typeof IndexJobErrorSchema>;
+
+/**
+ * Last run of an index schedule
+ */
+export const IndexScheduleRunSchema = z
+  .object({
+    cron: z.string().openapi({
+      example: "0 * * * *",
+      description: "Cron expression the schedule ran with",
+    }),
+    status: z.enum(["running", "succeeded", "failed"]).openapi({
+      example: "succeeded",
+    }),
+    message: z.string().nullable().openapi({
+      example:
+        "Enqueued index job 9d4c2a4e-6a0f-4f57-8f6e-2b8f9c3e1d7a for congress 20",
+      description: "What the run did",
+    }),
+    error: z.string().nullable().openapi({
+      example: null,
+      description: "Why the run failed",
+    }),
+    startedAt: z.string().openapi({ example: "2025-10-18T03:00:00.000Z" }),
+    finishedAt: z.string().nullable().openapi({
+      example: "2025-10-18T03:00:01.000Z",
+    }),
+  })
+  .openapi("IndexScheduleRun");
+
+/**
+ * Built-in index schedule
+ */
+export const IndexScheduleSchema = z
+  .object({
+    name: z.enum(["membership", "current-documents", "historical-congresses"])
+      .openapi({ example: "current-documents" }),
+    description: z.string().openapi({
+      example:
+        "Enqueues an index job for the documents of the current congress",
+    }),
+    cron: z.string().nullable().openapi({
+      example: "0 * * * *",
+      description: "Cron expression (UTC), or null if the schedule is disabled",
+    }),
+    lastRun: IndexScheduleRunSchema.nullable(),
+    nextRunAt: z.string().nullable().openapi({
+      example: "2025-10-18T04:00:00.000Z",
+      description: "Next run, or null if the schedule is disabled",
+    }),
+  })
+  .openapi("IndexSchedule");
+
+/**
+ * API key, without its token
+ */
+export const ApiKeySchema = z
+  .object({
+    keyId: z.string().openapi({
+      example: "5b1e7c9a-2f4d-4c8e-9a3b-7d6f0e1c2b4a",
+    }),
+    name: z.string().openapi({
+      example: "github-actions",
+      description: "What the key is used for",
+    }),
+    scopes: z.array(z.enum(["index:write", "cache:read", "admin"])).openapi({
+      example: ["index:write"],
+      description:
+        "index:write: /api/index endpoints; cache:read: /api/cached endpoints; admin: /api/admin and /api/webhooks endpoints, and every other scope",
+    }),
+    prefix: z.string().openapi({
+      example: "hrep_3fa85f",
+      description: "First characters of the token",
+    }),
+    createdAt: z.string().openapi({ example: "2025-10-18T03:00:00.000Z" }),
+    revokedAt: z.string().nullable().openapi({
+      example: null,
+      description: "When the key was revoked",
+    }),
+  })
+  .openapi("ApiKey");
@@ -0,0 +1,309 @@
+/**
+ * Source API schemas - Runtime zod schemas mirroring the interfaces in source.ts
+ * Used to validate HREP API responses so upstream changes are detected early
+ * Objects are strict, so fields added upstream are reported as well
+ */
+
+import { z } from "@hono/zod-openapi";
+
+function basicResponse<T extends z.ZodTypeAny>(data: T) {
+  return z.strictObject({
+    status: z.number(),
+    success: z.boolean(),
+    data,
+  });
+}
+
+function paginatedResponse<T extends z.ZodTypeAny>(row: T) {
+  return basicResponse(
+    z.strictObject({
+      pageCount: z.number(),
+      count: z.number(),
+      rows: z.array(row),
+    }),
+  );
+}
+
+/**
+ * Congress reference item from GET /system-config/reference-congress
+ */
+export const CongressReferenceItemSchema = z.strictObject({
+  id: z.number(),
+  key: z.string(),
+  value: z.string(),
+  remarks: z.string(),
+  period_from: z.string().optional(),
+  period_to: z.string().optional(),
+  date_from: z.string().nullable().optional(),
+  date_to: z.string().nullable().optional(),
+});
+
+export const CongressReferenceResponseSchema = basicResponse(
+  z.array(CongressReferenceItemSchema),
+);
+
+/**
+ * Bill item from principal_authored_bills array
+ */
+export const PrincipalAuthoredBillSchema = z.strictObject({
+  idx: z.number(),
+  no: z.number(),
+  id: z.number(),
+  congress: z.number(),
+  bill_no: z.string(),
+  author: z.string(),
+  auth_flag: z.boolean(),
+  final_flag: z.boolean(),
+  manual_flag: z.boolean(),
+  auth_source: z.string(),
+  date: z.string().optional(),
+  sequence_no: z.number(),
+  name: z.string(),
+  name_code: z.string(),
+  journal_no: z.string().optional(),
+  session_no: z.string().optional(),
+});
+
+/**
+ * House member item from POST /house-members/list
+ */
+export const HouseMemberItemSchema = z.strictObject({
+  id: z.number(),
+  type: z.string().nullable(),
+  district: z.string().nullable(),
+  author_id: z.string(),
+  fullname: z.string(),
+  last_name: z.string(),
+  first_name: z.string(),
+  middle_name: z.string(),
+  suffix: z.string().nullable(),
+  nick_name: z.string(),
+  email: z.string().nullable(),
+  website: z.string().nullable(),
+  room: z.string().nullable(),
+  local: z.string().nullable(),
+  directline: z.string().nullable(),
+  chief_of_staff: z.string().nullable(),
+  party_affilation: z.string().nullable(),
+  party_affilation_desc: z.string().nullable(),
+  remarks: z.string().nullable(),
+  current: z.boolean(),
+  photo: z.string().nullable(),
+  memberships: z.unknown(),
+  committee_membership: z.unknown(),
+  principal_authored_bills: z.array(PrincipalAuthoredBillSchema).nullable(),
+  logs: z.unknown(),
+});
+
+export const HouseMembersResponseSchema = paginatedResponse(
+  HouseMemberItemSchema,
+);
+
+/**
+ * Co-authored bill item from POST /house-members/co-author
+ */
+export const CoAuthoredBillItemSchema = PrincipalAuthoredBillSchema;
+
+export const CoAuthoredBillsResponseSchema = paginatedResponse(
+  CoAuthoredBillItemSchema,
+);
+
+/**
+ * Committee membership item from POST /house-members/committee-membership
+ */
+export const CommitteeMembershipItemSchema = z.strictObject({
+  no: z.string(),
+  congress: z.number(),
+  committee_code: z.string(),
+  name: z.string(),
+  author_id: z.string(),
+  representative: z.string(),
+  title: z.string(),
+  photo: z.strictObject({
+    id: z.number(),
+    congress: z.number(),
+    module: z.string(),
+    name: z.string(),
+    size: z.number(),
+    type: z.string(),
+    main: z.boolean(),
+    deleted: z.boolean(),
+    parent_id: z.number(),
+    url: z.string(),
+  }).nullable(),
+  journal_no: z.string(),
+});
+
+export const CommitteeMembershipResponseSchema = basicResponse(
+  z.strictObject({
+    count: z.number(),
+    rows: z.array(CommitteeMembershipItemSchema),
+  }),
+);
+
+/**
+ * House member DDL reference item from GET /house-members/ddl-reference
+ */
+export const HouseMemberDDLItemSchema = z.strictObject({
+  id: z.number(),
+  author_id: z.string(),
+  fullname: z.string(),
+  nick_name: z.string(),
+  membership: z.array(z.number()),
+});
+
+export const HouseMemberDDLResponseSchema = basicResponse(
+  z.array(HouseMemberDDLItemSchema),
+);
+
+/**
+ * Committee item from POST /committee/list
+ */
+export const CommitteeListItemSchema = z.strictObject({
+  id: z.number(),
+  code: z.string(),
+  name: z.string(),
+  jurisdiction: z.string().nullable(),
+  location: z.string().nullable(),
+  phone: z.string().nullable(),
+  committee_secretary: z.string().nullable(),
+  members: z.string().nullable(),
+  profile_data: z.string().nullable(),
+  email: z.string().nullable(),
+  type: z.number(),
+  type_desc: z.string(),
+  chairperson: z.string().nullable(),
+});
+
+export const CommitteeListResponseSchema = paginatedResponse(
+  CommitteeListItemSchema,
+);
+
+/**
+ * Author/Co-author item from bills response
+ */
+export const BillAuthorSchema = z.strictObject({
+  id: z.number(),
+  date: z.string().optional(),
+  sequence_no: z.number(),
+  name: z.string(),
+  name_code: z.string(),
+  journal_no: z.string().optional(),
+  session_no: z.string().optional(),
+});
+
+/**
+ * Reading item (first_reading, second_reading, third_reading)
+ */
+export const BillReadingSchema = z.strictObject({
+  id: z.number(),
+  congress: z.number(),
+  bill_no: z.string(),
+  report: z.string().optional(),
+  comm_act: z.string().optional(),
+  referral: z.string().optional(),
+  ref_name: z.string().optional(),
+  sub_name: z.string().optional(),
+  recomm: z.string().optional(),
+  remarks: z.string().optional(),
+  date_read: z.string().optional(),
+});
+
+/**
+ * Referral item
+ */
+export const BillReferralSchema = z.strictObject({
+  id: z.number(),
+  congress: z.number(),
+  bill_no: z.string(),
+  referral: z.string(),
+  ref_flag: z.number(),
+  newres_flag: z.boolean(),
+  submit_flag: z.boolean(),
+  change_flag: z.boolean(),
+  orig_ref: z.string(),
+  journal_no: z.string(),
+  sequence_no: z.string(),
+  committee: z.string(),
+});
+
+/**
+ * Bill/Document item from POST /bills/list and POST /bills/search
+ */
+export const BillListItemSchema = z.strictObject({
+  id: z.number(),
+  congress: z.number(),
+  bill_no: z.string(),
+  bill_no_f: z.string(),
+  session_no: z.string(),
+  significance: z.number(),
+  manual_status: z.string(),
+  manual_status_order: z.string(),
+  nature: z.string().nullable(),
+  author: z.string(),
+  mother_bill_no: z.string(),
+  mother_flag: z.string().nullable(),
+  mother_status: z.string(),
+  title_full: z.string(),
+  title_short: z.string(),
+  abstract: z.string(),
+  alias_name: z.string(),
+  date_filed: z.string(),
+  urgent: z.boolean(),
+  urgent_date: z.string().nullable(),
+  admin_bill: z.boolean(),
+  admin_date: z.string().nullable(),
+  archive_date: z.string().nullable(),
+  archive_transmitted_date: z.string().nullable(),
+  withdrawn_date: z.string().nullable(),
+  retro_stat: z.string().nullable(),
+  retro_order: z.string().nullable(),
+  status: z.string(),
+  status_order: z.string(),
+  mstat_order: z.string(),
+  senate_report_no: z.string(),
+  senate_bill: z.string(),
+  senate_urgent: z.boolean(),
+  senate_urgent_date: z.string().nullable(),
+  senate_adopted_date: z.string().nullable(),
+  house_date_transmitted: z.string().nullable(),
+  house_date_record: z.string().nullable(),
+  remarks: z.string(),
+  file: z.string(),
+  size: z.number(),
+  congress_desc: z.string(),
+  significance_desc: z.string(),
+  nature_desc: z.string().nullable(),
+  text_as_filed: z.string(),
+  url: z.string(),
+  folder: z.string(),
+  authors: z.array(BillAuthorSchema).nullable(),
+  coauthors: z.array(BillAuthorSchema).nullable(),
+  coauthors_journal: z.array(BillAuthorSchema).nullable(),
+  authors_final: z.unknown(),
+  authors_final_list: z.array(z.strictObject({ code: z.string() })).nullable(),
+  authors_committee_report: z.unknown(),
+  first_reading: BillReadingSchema.nullable(),
+  second_reading: BillReadingSchema.nullable(),
+  third_reading: BillReadingSchema.nullable(),
+  republic_acts: z.unknown(),
+  votes: z.unknown(),
+  deliberation: z.unknown(),
+  deliberation_committee: z.unknown(),
+  republic_act: z.unknown(),
+  committee_action: z.unknown(),
+  withdrawal: z.unknown(),
+  consolidated_bills: z.unknown(),
+  substituted_bills: z.unknown(),
+  principal_referral: z.array(BillReferralSchema).nullable(),
+  secondary_referral: z.array(BillReferralSchema).nullable(),
+  previous_referral: z.array(BillReferralSchema).nullable(),
+  referrals: z.array(BillReferralSchema).nullable(),
+  mother_bills: z.unknown(),
+  concom_members: z.unknown(),
+  bill_type: z.string(),
+});
+
+export const BillsListResponseSchema = paginatedResponse(BillListItemSchema);
+
+export const BillsSearchResponseSchema = BillsListResponseSchema;